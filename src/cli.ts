@@ -9,6 +9,7 @@ import { dataSetCommand } from './commands/data-set.js'
 import { importCommand } from './commands/import.js'
 import { paymentsCommand } from './commands/payments.js'
 import { serverCommand } from './commands/server.js'
+import { tokenCommand } from './commands/token.js'
 
 // Get package.json for version
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -27,6 +28,7 @@ program.addCommand(paymentsCommand)
 program.addCommand(dataSetCommand)
 program.addCommand(importCommand)
 program.addCommand(addCommand)
+program.addCommand(tokenCommand)
 
 // Default action - show help if no command specified
 program.action(() => {
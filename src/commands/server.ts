@@ -10,6 +10,99 @@ export const serverCommand = new Command('server')
   .option('--database <path>', 'path to SQLite database', './pins.db')
   .option('--private-key <key>', 'private key for Synapse (or use PRIVATE_KEY env var)')
   .option('--rpc-url <url>', 'RPC URL for Filecoin network', RPC_URLS.calibration.websocket)
+  .option('--max-concurrent-fetches <number>', 'maximum DAGs fetched at once (or use MAX_CONCURRENT_FETCHES env var)')
+  .option('--max-concurrent-uploads <number>', 'maximum CAR uploads at once (or use MAX_CONCURRENT_UPLOADS env var)')
+  .option(
+    '--aggregation-threshold <bytes>',
+    'batch finished pins into one piece once this many bytes are staged, 0 to disable (or use AGGREGATION_THRESHOLD env var)'
+  )
+  .option(
+    '--aggregation-max-delay <ms>',
+    'upload a partial batch after this long (or use AGGREGATION_MAX_DELAY env var)'
+  )
+  .option('--fetch-timeout <ms>', 'give up fetching a DAG after this long, 0 to disable (or use FETCH_TIMEOUT env var)')
+  .option(
+    '--missing-block-policy <policy>',
+    'fail, retry or partial when a DAG cannot be fetched in full (or use MISSING_BLOCK_POLICY env var)'
+  )
+  .option('--fetch-retries <number>', 'fetch retries for the retry policy (or use FETCH_RETRIES env var)')
+  .option('--fetch-retry-delay <ms>', 'delay before the first fetch retry (or use FETCH_RETRY_DELAY env var)')
+  .option(
+    '--upload-max-attempts <number>',
+    'attempts per upload before a pin fails (or use UPLOAD_MAX_ATTEMPTS env var)'
+  )
+  .option('--upload-retry-delay <ms>', 'delay before the first upload retry (or use UPLOAD_RETRY_DELAY env var)')
+  .option('--libp2p-transports <list>', 'comma-separated: tcp, websockets (or use LIBP2P_TRANSPORTS env var)')
+  .option('--libp2p-listen <list>', 'comma-separated multiaddrs to listen on (or use LIBP2P_LISTEN env var)')
+  .option(
+    '--libp2p-announce <list>',
+    'comma-separated multiaddrs returned as pin delegates (or use LIBP2P_ANNOUNCE env var)'
+  )
+  .option('--bootstrap-peers <list>', 'comma-separated multiaddrs to connect to (or use BOOTSTRAP_PEERS env var)')
+  .option(
+    '--delegated-routing-url <url>',
+    'HTTP routing endpoint for finding providers (or use DELEGATED_ROUTING_URL env var)'
+  )
+  .option('--dht-client', 'find providers through the DHT (or use DHT_CLIENT=true)')
+  .option(
+    '--webhook-max-attempts <number>',
+    'delivery attempts before a webhook is dead-lettered (or use WEBHOOK_MAX_ATTEMPTS env var)'
+  )
+  .option('--webhook-retry-delay <ms>', 'delay before the first webhook retry (or use WEBHOOK_RETRY_DELAY env var)')
+  .option('--webhook-timeout <ms>', 'timeout for each webhook request (or use WEBHOOK_TIMEOUT env var)')
+  .option(
+    '--webhook-allowed-hosts <list>',
+    'comma-separated hosts per-pin webhook URLs may use even if private (or use WEBHOOK_ALLOWED_HOSTS env var)'
+  )
+  .option(
+    '--ipni-validation-attempts <number>',
+    'IPNI lookups for a pinned root CID, 0 to skip (or use IPNI_VALIDATION_ATTEMPTS env var)'
+  )
+  .option('--ipni-validation-delay <ms>', 'delay between IPNI lookups (or use IPNI_VALIDATION_DELAY env var)')
+  .option('--car-retention <policy>', 'keep, delete, days or lru for pinned CARs (or use CAR_RETENTION env var)')
+  .option('--car-retention-days <number>', 'days to keep pinned CARs (or use CAR_RETENTION_DAYS env var)')
+  .option(
+    '--car-storage-max-bytes <bytes>',
+    'refuse new pins once CAR storage holds this much, 0 for no limit (or use CAR_STORAGE_MAX_BYTES env var)'
+  )
+  .option('--pin-max-bytes <bytes>', 'fail pins larger than this, 0 for no limit (or use PIN_MAX_BYTES env var)')
+  .option('--pin-max-blocks <number>', 'fail pins with more blocks, 0 for no limit (or use PIN_MAX_BLOCKS env var)')
+  .option('--user-max-bytes <bytes>', "bytes of each user's pins, 0 for no limit (or use USER_MAX_BYTES env var)")
+  .option('--user-max-blocks <number>', "blocks of each user's pins, 0 for no limit (or use USER_MAX_BLOCKS env var)")
+  .option(
+    '--upload-max-bytes <bytes>',
+    'largest CAR accepted by POST /upload, 64 MiB by default (or use UPLOAD_MAX_BYTES env var)'
+  )
+  .option(
+    '--rate-limit-writes <number>',
+    'pin-changing requests per minute per token, 0 for no limit (or use RATE_LIMIT_WRITES env var)'
+  )
+  .option(
+    '--rate-limit-reads <number>',
+    'read requests per minute per token, 0 for no limit (or use RATE_LIMIT_READS env var)'
+  )
+  .option(
+    '--rate-limit-ip-writes <number>',
+    'pin-changing requests per minute per IP, 0 for no limit (or use RATE_LIMIT_IP_WRITES env var)'
+  )
+  .option(
+    '--rate-limit-ip-reads <number>',
+    'read requests per minute per IP, 0 for no limit (or use RATE_LIMIT_IP_READS env var)'
+  )
+  .option('--trust-proxy', 'take client IPs from X-Forwarded-For (or use TRUST_PROXY=true)')
+  .option('--data-set-per-user', "store each user's pins in their own data set (or use DATA_SET_PER_USER=true)")
+  .option(
+    '--piece-removal-max-attempts <number>',
+    "attempts to remove a deleted pin's piece (or use PIECE_REMOVAL_MAX_ATTEMPTS env var)"
+  )
+  .option(
+    '--piece-removal-retry-delay <ms>',
+    'delay before the first piece removal retry (or use PIECE_REMOVAL_RETRY_DELAY env var)'
+  )
+  .option(
+    '--car-sweep-interval <ms>',
+    'how often expired and orphaned CARs are deleted, 0 to disable (or use CAR_SWEEP_INTERVAL env var)'
+  )
   .action(async (options) => {
     // Override environment variables with CLI options if provided
     if (options.privateKey) {
@@ -24,6 +117,123 @@ export const serverCommand = new Command('server')
     if (options.database) {
       process.env.DATABASE_PATH = options.database
     }
+    if (options.maxConcurrentFetches) {
+      process.env.MAX_CONCURRENT_FETCHES = options.maxConcurrentFetches
+    }
+    if (options.maxConcurrentUploads) {
+      process.env.MAX_CONCURRENT_UPLOADS = options.maxConcurrentUploads
+    }
+    if (options.aggregationThreshold) {
+      process.env.AGGREGATION_THRESHOLD = options.aggregationThreshold
+    }
+    if (options.aggregationMaxDelay) {
+      process.env.AGGREGATION_MAX_DELAY = options.aggregationMaxDelay
+    }
+    if (options.fetchTimeout) {
+      process.env.FETCH_TIMEOUT = options.fetchTimeout
+    }
+    if (options.missingBlockPolicy) {
+      process.env.MISSING_BLOCK_POLICY = options.missingBlockPolicy
+    }
+    if (options.fetchRetries) {
+      process.env.FETCH_RETRIES = options.fetchRetries
+    }
+    if (options.fetchRetryDelay) {
+      process.env.FETCH_RETRY_DELAY = options.fetchRetryDelay
+    }
+    if (options.uploadMaxAttempts) {
+      process.env.UPLOAD_MAX_ATTEMPTS = options.uploadMaxAttempts
+    }
+    if (options.uploadRetryDelay) {
+      process.env.UPLOAD_RETRY_DELAY = options.uploadRetryDelay
+    }
+    if (options.libp2pTransports) {
+      process.env.LIBP2P_TRANSPORTS = options.libp2pTransports
+    }
+    if (options.libp2pListen) {
+      process.env.LIBP2P_LISTEN = options.libp2pListen
+    }
+    if (options.libp2pAnnounce) {
+      process.env.LIBP2P_ANNOUNCE = options.libp2pAnnounce
+    }
+    if (options.bootstrapPeers) {
+      process.env.BOOTSTRAP_PEERS = options.bootstrapPeers
+    }
+    if (options.delegatedRoutingUrl) {
+      process.env.DELEGATED_ROUTING_URL = options.delegatedRoutingUrl
+    }
+    if (options.dhtClient) {
+      process.env.DHT_CLIENT = 'true'
+    }
+    if (options.webhookMaxAttempts) {
+      process.env.WEBHOOK_MAX_ATTEMPTS = options.webhookMaxAttempts
+    }
+    if (options.webhookRetryDelay) {
+      process.env.WEBHOOK_RETRY_DELAY = options.webhookRetryDelay
+    }
+    if (options.webhookTimeout) {
+      process.env.WEBHOOK_TIMEOUT = options.webhookTimeout
+    }
+    if (options.webhookAllowedHosts) {
+      process.env.WEBHOOK_ALLOWED_HOSTS = options.webhookAllowedHosts
+    }
+    if (options.ipniValidationAttempts) {
+      process.env.IPNI_VALIDATION_ATTEMPTS = options.ipniValidationAttempts
+    }
+    if (options.ipniValidationDelay) {
+      process.env.IPNI_VALIDATION_DELAY = options.ipniValidationDelay
+    }
+    if (options.carRetention) {
+      process.env.CAR_RETENTION = options.carRetention
+    }
+    if (options.carRetentionDays) {
+      process.env.CAR_RETENTION_DAYS = options.carRetentionDays
+    }
+    if (options.carStorageMaxBytes) {
+      process.env.CAR_STORAGE_MAX_BYTES = options.carStorageMaxBytes
+    }
+    if (options.carSweepInterval) {
+      process.env.CAR_SWEEP_INTERVAL = options.carSweepInterval
+    }
+    if (options.rateLimitWrites) {
+      process.env.RATE_LIMIT_WRITES = options.rateLimitWrites
+    }
+    if (options.rateLimitReads) {
+      process.env.RATE_LIMIT_READS = options.rateLimitReads
+    }
+    if (options.rateLimitIpWrites) {
+      process.env.RATE_LIMIT_IP_WRITES = options.rateLimitIpWrites
+    }
+    if (options.rateLimitIpReads) {
+      process.env.RATE_LIMIT_IP_READS = options.rateLimitIpReads
+    }
+    if (options.trustProxy) {
+      process.env.TRUST_PROXY = 'true'
+    }
+    if (options.dataSetPerUser) {
+      process.env.DATA_SET_PER_USER = 'true'
+    }
+    if (options.pieceRemovalMaxAttempts) {
+      process.env.PIECE_REMOVAL_MAX_ATTEMPTS = options.pieceRemovalMaxAttempts
+    }
+    if (options.pieceRemovalRetryDelay) {
+      process.env.PIECE_REMOVAL_RETRY_DELAY = options.pieceRemovalRetryDelay
+    }
+    if (options.pinMaxBytes) {
+      process.env.PIN_MAX_BYTES = options.pinMaxBytes
+    }
+    if (options.pinMaxBlocks) {
+      process.env.PIN_MAX_BLOCKS = options.pinMaxBlocks
+    }
+    if (options.userMaxBytes) {
+      process.env.USER_MAX_BYTES = options.userMaxBytes
+    }
+    if (options.userMaxBlocks) {
+      process.env.USER_MAX_BLOCKS = options.userMaxBlocks
+    }
+    if (options.uploadMaxBytes) {
+      process.env.UPLOAD_MAX_BYTES = options.uploadMaxBytes
+    }
     if (options.port) {
       process.env.PORT = options.port
     }
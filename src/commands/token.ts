@@ -0,0 +1,65 @@
+import { Command } from 'commander'
+import { runTokenCreate, runTokenList, runTokenRevoke, runTokenWebhook } from '../token/run.js'
+
+export const tokenCommand = new Command('token').description('Manage access tokens for the pinning server')
+
+const createCommand = new Command('create')
+  .description('Issue an access token for a user')
+  .argument('<userId>', 'ID of the user the token authenticates as')
+  .option('--name <name>', 'display name for the user (defaults to the user ID)')
+  .option('--admin', 'allow the token to use admin routes')
+  .option('--webhook-url <url>', 'notify this URL about pins made with the token')
+  .option('--database <path>', 'path to SQLite database', './pins.db')
+  .action(async (userId: string, options) => {
+    try {
+      await runTokenCreate(userId, options)
+    } catch (error) {
+      console.error('Token creation failed:', error instanceof Error ? error.message : error)
+      process.exit(1)
+    }
+  })
+
+const listCommand = new Command('list')
+  .description('List access tokens')
+  .option('--all', 'include revoked tokens')
+  .option('--database <path>', 'path to SQLite database', './pins.db')
+  .action(async (options) => {
+    try {
+      await runTokenList(options)
+    } catch (error) {
+      console.error('Token listing failed:', error instanceof Error ? error.message : error)
+      process.exit(1)
+    }
+  })
+
+const revokeCommand = new Command('revoke')
+  .description('Revoke an access token')
+  .argument('<tokenId>', 'ID of the token to revoke')
+  .option('--database <path>', 'path to SQLite database', './pins.db')
+  .action(async (tokenId: string, options) => {
+    try {
+      await runTokenRevoke(tokenId, options)
+    } catch (error) {
+      console.error('Token revocation failed:', error instanceof Error ? error.message : error)
+      process.exit(1)
+    }
+  })
+
+const webhookCommand = new Command('webhook')
+  .description("Set or clear a token's webhook URL and show its signing secret")
+  .argument('<tokenId>', 'ID of the token')
+  .argument('[url]', 'URL to notify about pins made with the token; omit to stop notifying')
+  .option('--database <path>', 'path to SQLite database', './pins.db')
+  .action(async (tokenId: string, url: string | undefined, options) => {
+    try {
+      await runTokenWebhook(tokenId, url, options)
+    } catch (error) {
+      console.error('Token webhook update failed:', error instanceof Error ? error.message : error)
+      process.exit(1)
+    }
+  })
+
+tokenCommand.addCommand(createCommand)
+tokenCommand.addCommand(listCommand)
+tokenCommand.addCommand(revokeCommand)
+tokenCommand.addCommand(webhookCommand)
@@ -1,7 +1,11 @@
 import { homedir, platform } from 'node:os'
 import { join } from 'node:path'
 import { RPC_URLS } from '@filoz/synapse-sdk'
-import type { Config } from './core/synapse/index.js'
+import type { CarRetentionPolicy, Config, Libp2pTransport, MissingBlockPolicy } from './core/synapse/index.js'
+
+const MISSING_BLOCK_POLICIES: MissingBlockPolicy[] = ['fail', 'retry', 'partial']
+const CAR_RETENTION_POLICIES: CarRetentionPolicy[] = ['keep', 'delete', 'days', 'lru']
+const LIBP2P_TRANSPORTS: Libp2pTransport[] = ['tcp', 'websockets']
 
 function getDataDirectory(): string {
   const home = homedir()
@@ -26,6 +30,42 @@ function getDataDirectory(): string {
   return join(home, '.filecoin-pin')
 }
 
+function parseMissingBlockPolicy(value: string): MissingBlockPolicy {
+  const policy = MISSING_BLOCK_POLICIES.find((candidate) => candidate === value)
+  if (policy == null) {
+    throw new Error(`Invalid MISSING_BLOCK_POLICY "${value}", expected one of: ${MISSING_BLOCK_POLICIES.join(', ')}`)
+  }
+  return policy
+}
+
+function parseCarRetentionPolicy(value: string): CarRetentionPolicy {
+  const policy = CAR_RETENTION_POLICIES.find((candidate) => candidate === value)
+  if (policy == null) {
+    throw new Error(`Invalid CAR_RETENTION "${value}", expected one of: ${CAR_RETENTION_POLICIES.join(', ')}`)
+  }
+  return policy
+}
+
+/**
+ * Split a comma-separated list, dropping empty entries
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+}
+
+function parseLibp2pTransports(value: string): Libp2pTransport[] {
+  return parseList(value).map((entry) => {
+    const transport = LIBP2P_TRANSPORTS.find((candidate) => candidate === entry)
+    if (transport == null) {
+      throw new Error(`Invalid LIBP2P_TRANSPORTS entry "${entry}", expected one of: ${LIBP2P_TRANSPORTS.join(', ')}`)
+    }
+    return transport
+  })
+}
+
 /**
  * Create configuration from environment variables
  *
@@ -51,6 +91,65 @@ export function createConfig(): Config {
     databasePath: process.env.DATABASE_PATH ?? join(dataDir, 'pins.db'),
     carStoragePath: process.env.CAR_STORAGE_PATH ?? join(dataDir, 'cars'),
 
+    // Pinning server work limits
+    maxConcurrentFetches: parseInt(process.env.MAX_CONCURRENT_FETCHES ?? '4', 10),
+    maxConcurrentUploads: parseInt(process.env.MAX_CONCURRENT_UPLOADS ?? '2', 10),
+    aggregationThreshold: parseInt(process.env.AGGREGATION_THRESHOLD ?? '0', 10),
+    aggregationMaxDelay: parseInt(process.env.AGGREGATION_MAX_DELAY ?? '60000', 10),
+    fetchTimeout: parseInt(process.env.FETCH_TIMEOUT ?? '600000', 10),
+    missingBlockPolicy: parseMissingBlockPolicy(process.env.MISSING_BLOCK_POLICY ?? 'fail'),
+    fetchRetries: parseInt(process.env.FETCH_RETRIES ?? '3', 10),
+    fetchRetryDelay: parseInt(process.env.FETCH_RETRY_DELAY ?? '30000', 10),
+    uploadMaxAttempts: parseInt(process.env.UPLOAD_MAX_ATTEMPTS ?? '5', 10),
+    uploadRetryDelay: parseInt(process.env.UPLOAD_RETRY_DELAY ?? '60000', 10),
+
+    // Pinning server content routing
+    libp2pTransports: parseLibp2pTransports(process.env.LIBP2P_TRANSPORTS ?? 'tcp'),
+    libp2pListen: parseList(process.env.LIBP2P_LISTEN ?? ''),
+    libp2pAnnounce: parseList(process.env.LIBP2P_ANNOUNCE ?? ''),
+    bootstrapPeers: parseList(process.env.BOOTSTRAP_PEERS ?? ''),
+    delegatedRoutingUrl: process.env.DELEGATED_ROUTING_URL,
+    dhtClient: process.env.DHT_CLIENT === 'true',
+
+    // Pinning server webhooks
+    webhookMaxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '5', 10),
+    webhookRetryDelay: parseInt(process.env.WEBHOOK_RETRY_DELAY ?? '5000', 10),
+    webhookTimeout: parseInt(process.env.WEBHOOK_TIMEOUT ?? '10000', 10),
+    webhookAllowedHosts: parseList(process.env.WEBHOOK_ALLOWED_HOSTS ?? ''),
+
+    // Pinning server IPNI validation
+    ipniValidationAttempts: parseInt(process.env.IPNI_VALIDATION_ATTEMPTS ?? '10', 10),
+    ipniValidationDelay: parseInt(process.env.IPNI_VALIDATION_DELAY ?? '5000', 10),
+
+    // Pinning server CAR retention
+    carRetention: parseCarRetentionPolicy(process.env.CAR_RETENTION ?? 'keep'),
+    carRetentionDays: parseInt(process.env.CAR_RETENTION_DAYS ?? '7', 10),
+    carStorageMaxBytes: parseInt(process.env.CAR_STORAGE_MAX_BYTES ?? '0', 10),
+    carSweepInterval: parseInt(process.env.CAR_SWEEP_INTERVAL ?? '3600000', 10),
+
+    // Pinning server DAG limits
+    pinMaxBytes: parseInt(process.env.PIN_MAX_BYTES ?? '0', 10),
+    pinMaxBlocks: parseInt(process.env.PIN_MAX_BLOCKS ?? '0', 10),
+    userMaxBytes: parseInt(process.env.USER_MAX_BYTES ?? '0', 10),
+    userMaxBlocks: parseInt(process.env.USER_MAX_BLOCKS ?? '0', 10),
+
+    // Pinning server CAR uploads
+    uploadMaxBytes: parseInt(process.env.UPLOAD_MAX_BYTES ?? '67108864', 10),
+
+    // Pinning server rate limits
+    rateLimitWrites: parseInt(process.env.RATE_LIMIT_WRITES ?? '60', 10),
+    rateLimitReads: parseInt(process.env.RATE_LIMIT_READS ?? '600', 10),
+    rateLimitIpWrites: parseInt(process.env.RATE_LIMIT_IP_WRITES ?? '120', 10),
+    rateLimitIpReads: parseInt(process.env.RATE_LIMIT_IP_READS ?? '1200', 10),
+    trustProxy: process.env.TRUST_PROXY === 'true',
+
+    // Pinning server data sets
+    dataSetPerUser: process.env.DATA_SET_PER_USER === 'true',
+
+    // Pinning server piece removal
+    pieceRemovalMaxAttempts: parseInt(process.env.PIECE_REMOVAL_MAX_ATTEMPTS ?? '5', 10),
+    pieceRemovalRetryDelay: parseInt(process.env.PIECE_REMOVAL_RETRY_DELAY ?? '60000', 10),
+
     // Logging
     logLevel: process.env.LOG_LEVEL ?? 'info',
   }
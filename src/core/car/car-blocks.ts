@@ -0,0 +1,32 @@
+/**
+ * Checks on the blocks of CAR files that come from outside, which may claim
+ * any CID for any bytes.
+ */
+
+import { equals } from 'multiformats/bytes'
+import type { CID } from 'multiformats/cid'
+import { identity } from 'multiformats/hashes/identity'
+import type { MultihashHasher } from 'multiformats/hashes/interface'
+import { sha256, sha512 } from 'multiformats/hashes/sha2'
+
+const HASHERS = new Map<number, MultihashHasher>([
+  [identity.code, identity],
+  [sha256.code, sha256],
+  [sha512.code, sha512],
+])
+
+/**
+ * Check that a block's bytes hash to the multihash in its CID
+ *
+ * @throws Error if the bytes do not match, or the CID uses a hash function this cannot check
+ */
+export async function verifyBlock(cid: CID, bytes: Uint8Array): Promise<void> {
+  const hasher = HASHERS.get(cid.multihash.code)
+  if (hasher == null) {
+    throw new Error(`Unsupported hash function 0x${cid.multihash.code.toString(16)} in block ${cid.toString()}`)
+  }
+  const digest = await hasher.digest(bytes)
+  if (!equals(digest.bytes, cid.multihash.bytes)) {
+    throw new Error(`Block ${cid.toString()} does not match its CID`)
+  }
+}
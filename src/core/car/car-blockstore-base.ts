@@ -21,6 +21,33 @@ export interface CARBlockstoreStats {
   finalized: boolean
 }
 
+/**
+ * Bounds on what a CAR blockstore accepts
+ */
+export interface CARBlockstoreLimits {
+  /** Most bytes of block data the CAR may hold */
+  maxBytes?: number | undefined
+  /** Most blocks the CAR may hold */
+  maxBlocks?: number | undefined
+  /** Called with each new block's size once the limits above pass; throw to refuse the block */
+  beforePut?: ((size: number, stats: CARBlockstoreStats) => void) | undefined
+}
+
+/**
+ * Thrown by put() when a block would take the CAR past one of its limits
+ */
+export class CARLimitExceededError extends Error {
+  readonly limit: 'bytes' | 'blocks'
+  readonly max: number
+
+  constructor(limit: 'bytes' | 'blocks', max: number, message = `CAR limit of ${max} ${limit} exceeded`) {
+    super(message)
+    this.name = 'CARLimitExceededError'
+    this.limit = limit
+    this.max = max
+  }
+}
+
 /**
  * Optional event emitter for blockstore events
  */
@@ -37,14 +64,18 @@ export abstract class CARBlockstoreBase implements Blockstore {
   protected readonly blockOffsets = new Map<string, BlockOffset>()
   protected readonly stats: CARBlockstoreStats
   protected readonly events: BlockstoreEvents | undefined
+  protected readonly limits: CARBlockstoreLimits
   protected currentOffset = 0
   protected finalized = false
   protected initialized = false
+  /** The first refused block's error; every later put() fails with it too */
+  protected limitError: Error | undefined
 
-  constructor(rootCID: CID, backend: CARStorageBackend, events?: BlockstoreEvents) {
+  constructor(rootCID: CID, backend: CARStorageBackend, events?: BlockstoreEvents, limits: CARBlockstoreLimits = {}) {
     this.rootCID = rootCID
     this.backend = backend
     this.events = events
+    this.limits = limits
     this.stats = {
       blocksWritten: 0,
       missingBlocks: new Set(),
@@ -77,6 +108,8 @@ export abstract class CARBlockstoreBase implements Blockstore {
       return cid
     }
 
+    this.checkLimits(block.length)
+
     // Calculate the varint that will be written
     const totalSectionLength = cid.bytes.length + block.length
     const varintBytes = varint.encode(totalSectionLength)
@@ -133,6 +166,37 @@ export abstract class CARBlockstoreBase implements Blockstore {
     }
   }
 
+  /**
+   * Refuse a block that would take the CAR past its limits
+   */
+  protected checkLimits(size: number): void {
+    if (this.limitError != null) {
+      throw this.limitError
+    }
+
+    const { maxBytes, maxBlocks, beforePut } = this.limits
+    try {
+      if (maxBytes != null && this.stats.totalSize + size > maxBytes) {
+        throw new CARLimitExceededError('bytes', maxBytes)
+      }
+      if (maxBlocks != null && this.stats.blocksWritten + 1 > maxBlocks) {
+        throw new CARLimitExceededError('blocks', maxBlocks)
+      }
+      beforePut?.(size, this.stats)
+    } catch (error) {
+      this.limitError = error instanceof Error ? error : new Error(String(error))
+      this.events?.emit('limit:exceeded', { error: this.limitError })
+      throw this.limitError
+    }
+  }
+
+  /**
+   * The error the first refused block was rejected with, if any
+   */
+  getLimitError(): Error | undefined {
+    return this.limitError
+  }
+
   async has(cid: CID, _options?: AbortOptions): Promise<boolean> {
     const cidStr = cid.toString()
     return this.blockOffsets.has(cidStr)
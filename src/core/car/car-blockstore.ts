@@ -5,15 +5,22 @@
 import { EventEmitter } from 'node:events'
 import type { CID } from 'multiformats/cid'
 import type { Logger } from 'pino'
-import { CARBlockstoreBase, type CARBlockstoreStats } from './car-blockstore-base.js'
+import {
+  CARBlockstoreBase,
+  type CARBlockstoreLimits,
+  type CARBlockstoreStats,
+  CARLimitExceededError,
+} from './car-blockstore-base.js'
 import { CARFileBackend } from './car-file-backend.js'
 
-export type { CARBlockstoreStats }
+export type { CARBlockstoreLimits, CARBlockstoreStats }
+export { CARLimitExceededError }
 
 export interface CARBlockstoreOptions {
   rootCID: CID
   outputPath: string
   logger?: Logger
+  limits?: CARBlockstoreLimits
 }
 
 /**
@@ -27,7 +34,7 @@ export class CARWritingBlockstore extends CARBlockstoreBase {
   constructor(options: CARBlockstoreOptions) {
     const backend = new CARFileBackend(options.outputPath, options.logger)
     const eventEmitter = new EventEmitter()
-    super(options.rootCID, backend, eventEmitter)
+    super(options.rootCID, backend, eventEmitter, options.limits)
     this.fileBackend = backend
     this.eventEmitter = eventEmitter
 
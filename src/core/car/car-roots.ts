@@ -0,0 +1,35 @@
+/**
+ * Choice of a CAR file's root CID from the roots listed in its header.
+ */
+
+import { CID } from 'multiformats/cid'
+
+/**
+ * Zero CID used when CAR has no roots
+ * This is the identity CID with empty data
+ */
+export const ZERO_CID = 'bafkqaaa'
+
+export interface CarRoot {
+  cid: CID
+  /** Set when the header does not list exactly one root */
+  warning?: string
+}
+
+/**
+ * Resolve the root CID from CAR file roots: the only root, the first of
+ * several, or the zero CID when there are none
+ */
+export function resolveCarRoot(roots: CID[]): CarRoot {
+  const [cid] = roots
+  if (cid == null) {
+    return {
+      cid: CID.parse(ZERO_CID),
+      warning: `No root CIDs found in CAR header, using zero CID: ${ZERO_CID}`,
+    }
+  }
+  if (roots.length > 1) {
+    return { cid, warning: `Multiple root CIDs found (${roots.length}), using first: ${cid.toString()}` }
+  }
+  return { cid }
+}
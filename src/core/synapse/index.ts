@@ -37,6 +37,28 @@ let storageInstance: StorageContext | null = null
 let currentProviderInfo: ProviderInfo | null = null
 let activeProvider: any = null // Track the provider for cleanup
 
+/**
+ * What the pinning server does when a pin's DAG cannot be fetched in full
+ * - `fail`: fail the pin without uploading anything
+ * - `retry`: fetch again with exponential backoff, failing once retries run out
+ * - `partial`: upload the blocks that were fetched and flag the pin as partial
+ */
+export type MissingBlockPolicy = 'fail' | 'retry' | 'partial'
+
+/**
+ * What the pinning server does with a pin's CAR once the pin is pinned
+ * - `keep`: keep every CAR
+ * - `delete`: delete the CAR as soon as the pin is pinned
+ * - `days`: delete the CAR a number of days after the pin is pinned
+ * - `lru`: keep CARs until the disk quota is reached, then evict the least recently used
+ */
+export type CarRetentionPolicy = 'keep' | 'delete' | 'days' | 'lru'
+
+/**
+ * libp2p transports the pinning server's Helia node can dial and listen on
+ */
+export type Libp2pTransport = 'tcp' | 'websockets'
+
 /**
  * Complete application configuration interface
  * This is the main config interface that can be imported by CLI and other consumers
@@ -51,6 +73,84 @@ export interface Config {
   carStoragePath: string
   logLevel: string
   warmStorageAddress: string | undefined
+  /** Pinning server: maximum number of DAGs fetched at once */
+  maxConcurrentFetches: number
+  /** Pinning server: maximum number of CARs uploaded to Synapse at once */
+  maxConcurrentUploads: number
+  /** Pinning server: upload finished pins together once this many CAR bytes are staged; 0 gives each pin its own piece */
+  aggregationThreshold: number
+  /** Pinning server: upload a partial aggregate once its oldest pin has waited this long (ms) */
+  aggregationMaxDelay: number
+  /** Pinning server: give up fetching a pin's DAG after this long (ms); 0 waits forever */
+  fetchTimeout: number
+  /** Pinning server: how to handle a DAG that could not be fetched in full */
+  missingBlockPolicy: MissingBlockPolicy
+  /** Pinning server: fetch attempts after the first when the policy is `retry` */
+  fetchRetries: number
+  /** Pinning server: delay before the first fetch retry (ms), doubled for each further retry */
+  fetchRetryDelay: number
+  /** Pinning server: give up on a pin's upload after this many failed attempts */
+  uploadMaxAttempts: number
+  /** Pinning server: delay before retrying a failed upload (ms), doubled for each further retry */
+  uploadRetryDelay: number
+  /** Pinning server: libp2p transports used to reach content providers */
+  libp2pTransports: Libp2pTransport[]
+  /** Pinning server: multiaddrs the Helia node listens on; empty picks a random port for each transport */
+  libp2pListen: string[]
+  /** Pinning server: multiaddrs to advertise as pin `delegates` instead of the listen addresses */
+  libp2pAnnounce: string[]
+  /** Pinning server: multiaddrs (with `/p2p/<peer-id>`) to connect to on startup */
+  bootstrapPeers: string[]
+  /** Pinning server: Delegated Routing V1 HTTP API endpoint used to find providers, e.g. https://delegated-ipfs.dev */
+  delegatedRoutingUrl: string | undefined
+  /** Pinning server: find providers through the Amino DHT as a client */
+  dhtClient: boolean
+  /** Pinning server: delivery attempts for a webhook before it goes to the dead-letter log */
+  webhookMaxAttempts: number
+  /** Pinning server: delay before retrying a webhook delivery (ms), doubled for each further retry */
+  webhookRetryDelay: number
+  /** Pinning server: give up on a single webhook request after this long (ms) */
+  webhookTimeout: number
+  /** Pinning server: hosts a pin's `meta.webhook_url` may use even if they resolve to private or loopback addresses */
+  webhookAllowedHosts: string[]
+  /** Pinning server: IPNI lookups for a pin's root CID before it is marked pinned unvalidated; 0 skips validation */
+  ipniValidationAttempts: number
+  /** Pinning server: delay between IPNI lookups (ms) */
+  ipniValidationDelay: number
+  /** Pinning server: what to do with a pin's CAR once it is pinned */
+  carRetention: CarRetentionPolicy
+  /** Pinning server: days to keep a pinned CAR when the retention policy is `days` */
+  carRetentionDays: number
+  /** Pinning server: refuse new pins once the CAR storage directory holds this many bytes; 0 for no limit */
+  carStorageMaxBytes: number
+  /** Pinning server: how often expired and orphaned CAR files are deleted (ms); 0 disables the sweeper */
+  carSweepInterval: number
+  /** Pinning server: fail a pin whose DAG grows past this many bytes; 0 for no limit */
+  pinMaxBytes: number
+  /** Pinning server: fail a pin whose DAG grows past this many blocks; 0 for no limit */
+  pinMaxBlocks: number
+  /** Pinning server: bytes a user's pins may hold in total, failed pins aside; 0 for no limit */
+  userMaxBytes: number
+  /** Pinning server: blocks a user's pins may hold in total, failed pins aside; 0 for no limit */
+  userMaxBlocks: number
+  /** Pinning server: largest CAR `POST /upload` accepts, in bytes; larger ones go to `POST /upload/stream` */
+  uploadMaxBytes: number
+  /** Pinning server: requests per minute each access token may make that create or change pins; 0 for no limit */
+  rateLimitWrites: number
+  /** Pinning server: read requests per minute each access token may make; 0 for no limit */
+  rateLimitReads: number
+  /** Pinning server: requests per minute each IP address may make that create or change pins; 0 for no limit */
+  rateLimitIpWrites: number
+  /** Pinning server: read requests per minute each IP address may make, gateway included; 0 for no limit */
+  rateLimitIpReads: number
+  /** Pinning server: take client IP addresses from `X-Forwarded-For`, when running behind a reverse proxy */
+  trustProxy: boolean
+  /** Pinning server: store each user's pins in a data set of their own instead of the server's */
+  dataSetPerUser: boolean
+  /** Pinning server: attempts to remove a deleted or replaced pin's piece from its data set */
+  pieceRemovalMaxAttempts: number
+  /** Pinning server: delay before retrying a piece removal (ms), doubled for each further retry */
+  pieceRemovalRetryDelay: number
 }
 
 /**
@@ -1,101 +1,99 @@
 import { noise } from '@chainsafe/libp2p-noise'
 import { yamux } from '@chainsafe/libp2p-yamux'
 import { bitswap } from '@helia/block-brokers'
+import { delegatedHTTPRouting, libp2pRouting } from '@helia/routers'
+import { bootstrap } from '@libp2p/bootstrap'
 import { identify } from '@libp2p/identify'
+import type { PrivateKey } from '@libp2p/interface'
+import { kadDHT } from '@libp2p/kad-dht'
+import { ping } from '@libp2p/ping'
 import { tcp } from '@libp2p/tcp'
-import { multiaddr } from '@multiformats/multiaddr'
+import { webSockets } from '@libp2p/websockets'
 import { MemoryDatastore } from 'datastore-core'
 import { createHelia, type Helia } from 'helia'
-import { createLibp2p } from 'libp2p'
-import type { CID } from 'multiformats/cid'
+import type { Blockstore } from 'interface-blockstore'
+import { createLibp2p, type Libp2pOptions } from 'libp2p'
 import type { Logger } from 'pino'
-import { CARWritingBlockstore } from './core/car/index.js'
-import type { Config } from './core/synapse/index.js'
+import type { Config, Libp2pTransport } from './core/synapse/index.js'
+
+type TransportFactory = NonNullable<Libp2pOptions['transports']>[number]
+type PeerDiscoveryFactory = NonNullable<Libp2pOptions['peerDiscovery']>[number]
+
+/**
+ * Transport factories and the address each one listens on
+ */
+const TRANSPORTS: Record<Libp2pTransport, { create: () => TransportFactory; listen: string }> = {
+  tcp: { create: () => tcp(), listen: '/ip4/0.0.0.0/tcp/0' },
+  websockets: { create: () => webSockets(), listen: '/ip4/0.0.0.0/tcp/0/ws' },
+}
 
 export interface PinningHeliaOptions {
   config: Config
   logger: Logger
-  rootCID: CID
-  outputPath: string
-  origins?: string[] // Multiaddrs to connect to for content
+  /** Blockstore the node reads and writes blocks through, normally a BlockstoreRouter */
+  blockstore: Blockstore
+  /** Identity to run the node as; a new one is generated when omitted */
+  privateKey?: PrivateKey
 }
 
 /**
- * Create a Helia node with CAR-writing blockstore for a specific pin operation
- * This combines the server and CAR Helia functionality into one instance
+ * Create the pinning server's long-lived Helia node
+ *
+ * Every pin shares the node's connections and peer ID; each pin's blocks are
+ * written to its own CAR blockstore through `blockstore`.
  */
-export async function createPinningHeliaNode(options: PinningHeliaOptions): Promise<{
-  helia: Helia
-  blockstore: CARWritingBlockstore
-}> {
-  const { logger, rootCID, outputPath, origins = [] } = options
+export async function createPinningHeliaNode(options: PinningHeliaOptions): Promise<Helia> {
+  const { config, logger, blockstore, privateKey } = options
 
-  // Parse origins into multiaddrs
-  const dialTargets = origins
-    .map((origin) => {
-      try {
-        return multiaddr(origin)
-      } catch (error) {
-        logger.warn({ origin, error }, 'Failed to parse origin multiaddr')
-        return null
-      }
-    })
-    .filter((addr) => addr != null)
+  const peerDiscovery: PeerDiscoveryFactory[] = []
+  if (config.bootstrapPeers.length > 0) {
+    peerDiscovery.push(bootstrap({ list: config.bootstrapPeers }))
+  }
+
+  const listen =
+    config.libp2pListen.length > 0
+      ? config.libp2pListen
+      : config.libp2pTransports.map((transport) => TRANSPORTS[transport].listen)
 
-  const libp2p = await createLibp2p({
+  const init = {
+    ...(privateKey != null && { privateKey }),
     addresses: {
-      listen: ['/ip4/0.0.0.0/tcp/0'], // Random port
+      listen,
+      ...(config.libp2pAnnounce.length > 0 && { announce: config.libp2pAnnounce }),
     },
-    transports: [tcp()],
+    transports: config.libp2pTransports.map((transport) => TRANSPORTS[transport].create()),
     connectionEncrypters: [noise()],
     streamMuxers: [yamux()],
-    services: {
-      identify: identify(),
-    },
-    // No bootstrap or mdns - we'll connect directly to origins
-  })
-
-  // Create CAR-writing blockstore
-  const carBlockstore = new CARWritingBlockstore({
-    rootCID,
-    outputPath,
-    logger,
-  })
-
-  // Set up event handlers for monitoring
-  carBlockstore.on('block:stored', (data) => {
-    logger.debug({ cid: data.cid.toString(), size: data.size }, 'Block stored to CAR file')
-  })
-
-  carBlockstore.on('block:missing', (data) => {
-    logger.warn({ cid: data.cid.toString() }, 'Block not found during fetch')
-  })
+    peerDiscovery,
+    // No mDNS - content comes from origins, bootstrap peers and whichever routers are configured
+  } satisfies Libp2pOptions
+  const libp2p = config.dhtClient
+    ? await createLibp2p({
+        ...init,
+        // Client mode finds providers without serving DHT records for others
+        services: {
+          identify: identify(),
+          ping: ping(),
+          dht: kadDHT({ clientMode: true, protocol: '/ipfs/kad/1.0.0' }),
+        },
+      })
+    : await createLibp2p({ ...init, services: { identify: identify() } })
 
   const helia = await createHelia({
     libp2p,
-    blockstore: carBlockstore,
+    blockstore,
     datastore: new MemoryDatastore(),
     blockBrokers: [bitswap()],
+    routers: [
+      libp2pRouting(libp2p),
+      ...(config.delegatedRoutingUrl != null ? [delegatedHTTPRouting({ url: config.delegatedRoutingUrl })] : []),
+    ],
   })
 
-  logger.info(`Pinning Helia node started with peer ID: ${helia.libp2p.peerId.toString()}`)
-  logger.info(`Writing blocks to CAR file: ${outputPath}`)
-
-  // Connect to origin nodes if provided
-  if (dialTargets.length > 0) {
-    logger.info({ origins: dialTargets.length }, 'Connecting to origin nodes')
-
-    for (const addr of dialTargets) {
-      try {
-        if (addr != null) {
-          await helia.libp2p.dial(addr)
-          logger.info({ addr: addr.toString() }, 'Connected to origin node')
-        }
-      } catch (error) {
-        logger.warn({ addr: addr?.toString(), error }, 'Failed to connect to origin node')
-      }
-    }
-  }
+  logger.info(
+    { peerId: helia.libp2p.peerId.toString(), addresses: helia.libp2p.getMultiaddrs().map(String) },
+    'Pinning Helia node started'
+  )
 
-  return { helia, blockstore: carBlockstore }
+  return helia
 }
@@ -1,17 +1,60 @@
 import { EventEmitter } from 'node:events'
-import { readFile, unlink } from 'node:fs/promises'
+import { readFile, stat, unlink } from 'node:fs/promises'
 import { join } from 'node:path'
+import type { DatabaseSync } from 'node:sqlite'
+import { setTimeout as sleep } from 'node:timers/promises'
+import type { StorageContext } from '@filoz/synapse-sdk'
+import { SIZE_CONSTANTS } from '@filoz/synapse-sdk'
+import { CarBlockIterator } from '@ipld/car'
+import { multiaddr } from '@multiformats/multiaddr'
 import type { Helia } from 'helia'
-import type { CID } from 'multiformats/cid'
+import { CID } from 'multiformats/cid'
 import type { Logger } from 'pino'
-import type { CARBlockstoreStats, CARWritingBlockstore } from './core/car/index.js'
-import type { Config, SynapseService } from './core/synapse/index.js'
-import { uploadToSynapse } from './core/upload/index.js'
+import { verifyBlock } from './core/car/car-blocks.js'
+import { resolveCarRoot } from './core/car/car-roots.js'
+import {
+  type CARBlockstoreLimits,
+  type CARBlockstoreStats,
+  CARLimitExceededError,
+  CARWritingBlockstore,
+} from './core/car/index.js'
+import { type Config, createStorageContext, type SynapseService } from './core/synapse/index.js'
+import { type SynapseUploadResult, uploadToSynapse } from './core/upload/index.js'
+import { validateIPNIAdvertisement } from './core/utils/validate-ipni-advertisement.js'
 import { createPinningHeliaNode } from './create-pinning-helia.js'
+import { BlockstoreRouter, type BlockstoreSession } from './pinning/blockstore-router.js'
+import { copyBlocksFromPartialCar, fileExists, movePartialCar } from './pinning/car-recovery.js'
+import { type CarSweepPlan, listCarFiles, planCarSweep } from './pinning/car-retention.js'
+import { walkDag } from './pinning/dag-walker.js'
+import { openDatabase } from './pinning/database.js'
+import { loadPeerPrivateKey } from './pinning/node-identity.js'
+import {
+  type PieceRemoval,
+  type PieceRemovalQuery,
+  type PieceRemovalRequest,
+  PieceRemover,
+} from './pinning/piece-removals.js'
+import { PinAggregator, type PinAggregatorStats } from './pinning/pin-aggregator.js'
+import { type PinListQuery, PinRepository, type PinUsage } from './pinning/pin-repository.js'
+import { classifyUploadError, isRetryableUploadError } from './pinning/upload-errors.js'
+import { type UserDataSet, UserDataSets } from './pinning/user-data-sets.js'
+import { type WebhookDeadLetter, type WebhookEvent, WebhookNotifier, type WebhookTarget } from './pinning/webhooks.js'
+import { FairWorkQueue, type WorkQueueStats } from './pinning/work-queue.js'
 
 export interface PinningServiceUser {
   id: string
   name: string
+  /** Set for operators, who may use admin routes that act on any user's pins */
+  admin?: boolean
+  /** ID of the access token the user authenticated with */
+  tokenId?: string
+  /** Webhook settings of the token the user authenticated with */
+  webhook?: {
+    /** Notified about every pin made with the token, unless a pin's `meta.webhook_url` overrides it */
+    url?: string
+    /** Signs deliveries to the token's URL and to any per-pin URL */
+    secret: string
+  }
 }
 
 export interface PinOptions {
@@ -22,6 +65,7 @@ export interface PinOptions {
 
 export interface StoredPinStatus {
   id: string
+  userId: string
   status: 'queued' | 'pinning' | 'pinned' | 'failed'
   created: number
   pin: {
@@ -31,6 +75,8 @@ export interface StoredPinStatus {
     meta?: Record<string, string>
   }
   info?: Record<string, string>
+  /** Where lifecycle notifications for the pin are delivered, if anywhere */
+  webhook?: WebhookTarget
 }
 
 export interface FilecoinPinMetadata {
@@ -41,6 +87,32 @@ export interface FilecoinPinMetadata {
   synapsePieceCid?: string
   synapsePieceId?: number
   synapseDataSetId?: string
+  /** Failed upload attempts so far, reset when the pin is retried by hand */
+  uploadAttempts?: number
+  /** Set when the pin was uploaded as part of a shared, multi-root piece */
+  aggregate?: {
+    /** Path of the aggregate CAR uploaded as the piece */
+    carFilePath: string
+    /** Byte offset of this pin's blocks within the aggregate CAR */
+    offset: number
+    /** Number of bytes this pin's blocks occupy in the aggregate CAR */
+    length: number
+  }
+  /** Piece of the pin this one replaced, removed from its data set once this pin's piece is confirmed */
+  replacedPiece?: PieceLocation
+  /** Pin of the same CID whose piece and CAR this one shares, or is waiting to share */
+  duplicateOf?: string
+  /** Set when the client uploaded the pin's CAR, whose blocks were not fetched or checked against its root */
+  uploaded?: boolean
+}
+
+/**
+ * Where on Filecoin a pin's blocks are stored
+ */
+export interface PieceLocation {
+  pieceCid: string
+  pieceId?: number
+  dataSetId: string
 }
 
 export interface FilecoinStoredPinStatus extends StoredPinStatus {
@@ -51,6 +123,206 @@ export interface FilecoinPinStoreInit {
   config: Config
   logger: Logger
   synapseService: SynapseService
+  /**
+   * Open database to keep pins in. When omitted, the store opens
+   * `config.databasePath` on start and closes it on stop.
+   */
+  database?: DatabaseSync
+}
+
+/**
+ * Pin metadata key that sends a pin's webhooks to a URL other than its token's
+ */
+export const WEBHOOK_URL_META_KEY = 'webhook_url'
+
+/**
+ * Work out where a pin's webhooks go: its own `meta.webhook_url`, else the token's URL
+ *
+ * Deliveries are always signed with the token's secret, so users without one get no webhooks.
+ */
+function webhookTarget(user: PinningServiceUser, meta: Record<string, string> | undefined): WebhookTarget | undefined {
+  const pinUrl = meta?.[WEBHOOK_URL_META_KEY]
+  const url = pinUrl ?? user.webhook?.url
+  if (url == null || url === '' || user.webhook == null) {
+    return undefined
+  }
+  return { url, secret: user.webhook.secret, ...(pinUrl != null && { publicOnly: true }) }
+}
+
+/**
+ * The piece holding a pin's blocks, once uploaded
+ */
+function pieceOf(filecoin: FilecoinPinMetadata): PieceLocation | undefined {
+  if (filecoin.synapsePieceCid == null || filecoin.synapseDataSetId == null) {
+    return undefined
+  }
+  return {
+    pieceCid: filecoin.synapsePieceCid,
+    ...(filecoin.synapsePieceId != null && { pieceId: filecoin.synapsePieceId }),
+    dataSetId: filecoin.synapseDataSetId,
+  }
+}
+
+function pinObject(cid: CID, options: PinOptions): FilecoinStoredPinStatus['pin'] {
+  return {
+    cid: cid.toString(),
+    ...(options.name != null && { name: options.name }),
+    ...(options.origins != null && { origins: options.origins }),
+    ...(options.meta != null && { meta: options.meta }),
+  }
+}
+
+/**
+ * The error a pin fails with when its CAR refused a block: per-pin limits are
+ * named after their setting, while the user's quota already throws its own
+ */
+function pinLimitError(limitError: Error): Error {
+  if (limitError instanceof CARLimitExceededError) {
+    const reason = limitError.limit === 'bytes' ? 'pin_max_bytes' : 'pin_max_blocks'
+    return new PinLimitExceededError(reason, `DAG exceeds the limit of ${limitError.max} ${limitError.limit} per pin`)
+  }
+  return limitError
+}
+
+/**
+ * Aggregator and upload queue key shared by aggregates that carry pins from many users
+ */
+const AGGREGATE_QUEUE_KEY = 'aggregate'
+
+/**
+ * How often a pin waiting on a duplicate checks on it, should it miss the event that wakes it (ms)
+ */
+const DUPLICATE_RECHECK_INTERVAL = 30_000
+
+/**
+ * Least time between writes of a fetching pin's progress to the database (ms)
+ */
+const PROGRESS_WRITE_INTERVAL = 1000
+
+/**
+ * How long a scan of the CAR storage directory serves the quota check (ms); the store's own writes and deletes rescan sooner
+ */
+const CAR_STORAGE_SCAN_TTL = 10_000
+
+/**
+ * Info keys a pin takes over from the duplicate whose piece it shares
+ */
+const SHARED_INFO_KEYS = [
+  'car_file_path',
+  'synapse_piece_cid',
+  'synapse_piece_id',
+  'synapse_data_set_id',
+  'piece_offset',
+  'piece_length',
+  'ipni_validated',
+  'ipni_error',
+]
+
+/**
+ * Thrown inside background processing when the store stops mid-pin
+ */
+class PinInterruptedError extends Error {
+  constructor(pinId: string) {
+    super(`Pin ${pinId} interrupted by shutdown`)
+    this.name = 'PinInterruptedError'
+  }
+}
+
+/**
+ * Thrown by retry() for pins that have not failed
+ */
+export class PinNotRetryableError extends Error {
+  constructor(pinId: string, status: StoredPinStatus['status']) {
+    super(`Pin ${pinId} is ${status} and cannot be retried`)
+    this.name = 'PinNotRetryableError'
+  }
+}
+
+/**
+ * Thrown by fail() for pins that are already pinned or failed
+ */
+export class PinNotFailableError extends Error {
+  constructor(pinId: string, status: StoredPinStatus['status']) {
+    super(`Pin ${pinId} is ${status}; only queued or pinning pins can be failed`)
+    this.name = 'PinNotFailableError'
+  }
+}
+
+/**
+ * Thrown by pin() while an operator is draining the queues
+ */
+export class PinStoreDrainingError extends Error {
+  constructor() {
+    super('The pinning service is draining its queues and not accepting new pins; try again later')
+    this.name = 'PinStoreDrainingError'
+  }
+}
+
+/**
+ * Thrown when asked about a user's data set while all pins go to the server's data set
+ */
+export class UserDataSetsDisabledError extends Error {
+  constructor() {
+    super('Per-user data sets are not enabled')
+    this.name = 'UserDataSetsDisabledError'
+  }
+}
+
+/**
+ * Thrown by pin() when the CAR storage directory has reached its quota
+ */
+export class CarStorageFullError extends Error {
+  constructor(usedBytes: number, maxBytes: number) {
+    super(`CAR storage is full (${usedBytes} of ${maxBytes} bytes used); try again later`)
+    this.name = 'CarStorageFullError'
+  }
+}
+
+/**
+ * Which DAG limit a pin crossed, named after its setting
+ */
+export type PinLimitReason = 'pin_max_bytes' | 'pin_max_blocks' | 'user_max_bytes' | 'user_max_blocks'
+
+/**
+ * Thrown when a pin's DAG grows past a per-pin limit or its user's quota
+ */
+export class PinLimitExceededError extends Error {
+  readonly reason: PinLimitReason
+
+  constructor(reason: PinLimitReason, message: string) {
+    super(message)
+    this.name = 'PinLimitExceededError'
+    this.reason = reason
+  }
+}
+
+/**
+ * Thrown by pinCar() when the uploaded bytes are not a CAR, or the CAR names no root or lacks its root block
+ */
+export class InvalidCarError extends Error {
+  constructor(reason: string) {
+    super(`Invalid CAR: ${reason}`)
+    this.name = 'InvalidCarError'
+  }
+}
+
+/**
+ * Thrown when a pin's DAG could not be fetched in full and the missing-block policy does not allow a partial upload
+ */
+class IncompleteDagError extends Error {
+  constructor(cid: CID, reason: string) {
+    super(`DAG ${cid.toString()} is incomplete: ${reason}`)
+    this.name = 'IncompleteDagError'
+  }
+}
+
+/**
+ * What a CAR being written holds so far, which its pin's stored stats do not show yet
+ */
+interface LiveCar {
+  userId: string
+  bytes: number
+  blocks: number
 }
 
 /**
@@ -60,74 +332,427 @@ export class FilecoinPinStore extends EventEmitter {
   private readonly config: Config
   private readonly logger: Logger
   private readonly synapseService: SynapseService
-  private readonly pins = new Map<string, FilecoinStoredPinStatus>()
+  private readonly database: DatabaseSync | undefined
+  private ownedDatabase: DatabaseSync | undefined
+  private repository: PinRepository | undefined
   private readonly activePins = new Map<
     string,
     {
-      helia: Helia
       blockstore: CARWritingBlockstore
+      session: BlockstoreSession
+      /** Aborts the pin's DAG walk when it is cancelled or the store stops */
+      controller: AbortController
       metadata: FilecoinPinMetadata
+      liveCar: LiveCar
     }
   >()
 
+  /** Routes blocks fetched by the shared Helia node to the CAR blockstore of the pin that asked for them */
+  private readonly blockstoreRouter = new BlockstoreRouter()
+  /** Helia node shared by every pin, running from start() until stop() */
+  private helia: Helia | undefined
+  /** Delivers webhooks for pins that have one, from start() until stop() */
+  private webhooks: WebhookNotifier | undefined
+  /** Removes the pieces of deleted and replaced pins, from start() until stop() */
+  private pieceRemovals: PieceRemover | undefined
+  /** Aborted by stop() to cut short waits that don't hold a queue slot, such as IPNI validation */
+  private stopController = new AbortController()
+
+  /** Limits concurrent DAG fetches */
+  private readonly fetchQueue: FairWorkQueue
+  /** Limits concurrent Synapse uploads */
+  private readonly uploadQueue: FairWorkQueue
+  /** Batch finished CARs into shared pieces, one aggregator per user when users have their own data sets */
+  private readonly aggregators = new Map<string, PinAggregator>()
+  /** Each user's data set, from start() until stop(); undefined when all pins go to the server's data set */
+  private dataSets: UserDataSets | undefined
+
+  /** Periodically deletes expired and orphaned CAR files */
+  private sweepTimer: NodeJS.Timeout | undefined
+  /** The CAR sweep in progress, shared by concurrent callers */
+  private sweep: Promise<CarSweepPlan> | undefined
+  /** Bytes in the CAR storage directory as last scanned, shared by concurrent quota checks */
+  private carStorageScan: { bytes: Promise<number>; scanned: number } | undefined
+
   private pinCounter = 0
+  /** Tells apart the CAR files of pins of one CID started in the same millisecond */
+  private carCounter = 0
+  /** Current background run of each pin being processed; dropping a run abandons its work */
+  private readonly pinRuns = new Map<string, number>()
+  private runCounter = 0
+  /** Set while new pins are refused so the queues can empty */
+  private draining = false
+  /** Wakes each pin waiting on a duplicate, so abandoning its run does not leave it waiting */
+  private readonly duplicateWaits = new Map<string, AbortController>()
+  /** CAR files being written from uploads, which no pin references until they are complete */
+  private readonly receivingCars = new Set<string>()
+  /** CARs being written, by pin ID, counted against their users' quotas as each block is written */
+  private readonly liveCars = new Map<string, LiveCar>()
+  /** Bumped for a user whenever their pins' stored stats change, so quota checks in progress read them again */
+  private readonly usageVersions = new Map<string, number>()
 
   constructor(init: FilecoinPinStoreInit) {
     super()
     this.config = init.config
     this.logger = init.logger
     this.synapseService = init.synapseService
+    this.database = init.database
+    this.fetchQueue = new FairWorkQueue(init.config.maxConcurrentFetches)
+    this.uploadQueue = new FairWorkQueue(init.config.maxConcurrentUploads)
+  }
+
+  /**
+   * The aggregator a user's CARs are staged in, or undefined when every pin gets its own piece
+   *
+   * Pieces belong to a single data set, so users with their own data sets get their own aggregates.
+   */
+  private _aggregatorFor(userId: string): PinAggregator | undefined {
+    if (this.config.aggregationThreshold <= 0) {
+      return undefined
+    }
+    const key = this.config.dataSetPerUser ? userId : AGGREGATE_QUEUE_KEY
+    let aggregator = this.aggregators.get(key)
+    if (aggregator == null) {
+      aggregator = new PinAggregator({
+        sizeThreshold: this.config.aggregationThreshold,
+        maxDelay: this.config.aggregationMaxDelay,
+        maxSize: SIZE_CONSTANTS.MAX_UPLOAD_SIZE,
+        outputDir: join(this.config.carStoragePath, 'aggregates'),
+        logger: this.logger,
+        upload: async (aggregateCarPath, roots, batchId, pinIds) =>
+          await this.uploadQueue.run(key, async () => {
+            const [firstRoot] = roots
+            if (firstRoot == null) {
+              throw new Error(`Aggregate ${batchId} has no roots`)
+            }
+            const carData = await readFile(aggregateCarPath)
+            return await this._uploadToSynapse(carData, firstRoot, batchId, pinIds, userId)
+          }),
+      })
+      this.aggregators.set(key, aggregator)
+    }
+    return aggregator
+  }
+
+  /**
+   * Staging totals across aggregators, or undefined when every pin gets its own piece
+   */
+  private _aggregationStats(): PinAggregatorStats | undefined {
+    if (this.config.aggregationThreshold <= 0) {
+      return undefined
+    }
+    const stats: PinAggregatorStats = { stagedPins: 0, stagedBytes: 0, flushing: 0 }
+    for (const aggregator of this.aggregators.values()) {
+      const { stagedPins, stagedBytes, flushing } = aggregator.getStats()
+      stats.stagedPins += stagedPins
+      stats.stagedBytes += stagedBytes
+      stats.flushing += flushing
+    }
+    return stats
   }
 
   async start(): Promise<void> {
+    if (this.stopController.signal.aborted) {
+      this.stopController = new AbortController()
+    }
+    let database = this.database ?? this.ownedDatabase
+    if (database == null) {
+      this.ownedDatabase = await openDatabase(this.config.databasePath, this.logger)
+      database = this.ownedDatabase
+    }
+    this.repository ??= new PinRepository(database)
+    if (this.config.dataSetPerUser) {
+      this.dataSets ??= new UserDataSets({ database, synapseService: this.synapseService, logger: this.logger })
+    }
+    this.webhooks ??= new WebhookNotifier({
+      database,
+      logger: this.logger,
+      maxAttempts: this.config.webhookMaxAttempts,
+      retryDelay: this.config.webhookRetryDelay,
+      timeout: this.config.webhookTimeout,
+      allowedHosts: this.config.webhookAllowedHosts,
+    })
+    this.pieceRemovals ??= new PieceRemover({
+      database,
+      logger: this.logger,
+      maxAttempts: this.config.pieceRemovalMaxAttempts,
+      retryDelay: this.config.pieceRemovalRetryDelay,
+      remove: async (removal) => await this._deletePiece(removal),
+      isReferenced: (removal) => this.pins.pieceReferences(removal.pieceCid, removal.dataSetId) > 0,
+    })
+
+    if (this.helia == null) {
+      this.helia = await createPinningHeliaNode({
+        config: this.config,
+        logger: this.logger,
+        blockstore: this.blockstoreRouter,
+        privateKey: await loadPeerPrivateKey(database),
+      })
+    }
+
+    await this._recoverInterruptedPins()
+    this.pieceRemovals.resume()
+
+    if (this.config.carSweepInterval > 0 && this.sweepTimer == null) {
+      this.sweepTimer = setInterval(() => {
+        this.sweepCars().catch((error) => {
+          this.logger.warn({ error }, 'CAR sweep failed')
+        })
+      }, this.config.carSweepInterval)
+      this.sweepTimer.unref()
+    }
+
     this.logger.info('Filecoin pin store started')
   }
 
   async stop(): Promise<void> {
+    this.pinRuns.clear()
+    this.stopController.abort()
+    clearInterval(this.sweepTimer)
+    this.sweepTimer = undefined
+
+    // Pins still waiting for a slot keep their queued state and are recovered on the next start()
+    const shutdownError = new Error('Filecoin pin store stopped')
+    this.fetchQueue.clear(shutdownError)
+    this.uploadQueue.clear(shutdownError)
+    for (const aggregator of this.aggregators.values()) {
+      aggregator.clear(shutdownError)
+    }
+
     // Clean up any active pins
-    for (const [pinId, { helia, blockstore }] of this.activePins.entries()) {
+    for (const [pinId, { blockstore, session, controller }] of this.activePins.entries()) {
       try {
+        controller.abort()
+        session.close()
         await blockstore.cleanup()
-        await helia.stop()
       } catch (error) {
         this.logger.warn({ pinId, error }, 'Error cleaning up active pin during shutdown')
       }
     }
     this.activePins.clear()
+    this.liveCars.clear()
+
+    if (this.helia != null) {
+      await this.helia.stop()
+      this.helia = undefined
+    }
+
+    // Deliveries still waiting to be retried go to the dead-letter log before the database closes
+    await this.webhooks?.stop()
+    this.webhooks = undefined
+    this.pieceRemovals?.stop()
+    this.pieceRemovals = undefined
+
+    // Detach from the database so abandoned background work cannot write to it after it is closed
+    this.repository = undefined
+    this.dataSets = undefined
+    if (this.ownedDatabase != null) {
+      this.ownedDatabase.close()
+      this.ownedDatabase = undefined
+    }
 
     this.logger.info('Filecoin pin store stopped')
   }
 
+  private get pins(): PinRepository {
+    if (this.repository == null) {
+      throw new Error('Filecoin pin store has not been started')
+    }
+    return this.repository
+  }
+
+  /**
+   * @throws PinStoreDrainingError if the queues are being drained
+   * @throws CarStorageFullError if the CAR storage quota is reached and a sweep cannot free any space
+   */
   async pin(user: PinningServiceUser, cid: CID, options: PinOptions = {}): Promise<FilecoinStoredPinStatus> {
-    const pinId = `pin-${Date.now()}-${++this.pinCounter}`
-    const pinStarted = Date.now()
+    if (this.draining) {
+      throw new PinStoreDrainingError()
+    }
+    await this._checkCarStorage()
 
-    // Generate CAR file path
-    const carFileName = `${cid.toString()}-${pinStarted}.car`
-    const carFilePath = join(this.config.carStoragePath, carFileName)
+    const pinStatus = this._newPinStatus(user, cid, options)
 
     this.logger.info(
       {
         userId: user.id,
-        pinId,
+        pinId: pinStatus.id,
         cid: cid.toString(),
-        carFilePath,
+        carFilePath: pinStatus.filecoin.carFilePath,
         name: options.name,
       },
       'Starting Filecoin pin operation'
     )
 
-    // Create initial pin record
-    const pinStatus: FilecoinStoredPinStatus = {
-      id: pinId,
-      status: 'queued',
-      created: pinStarted,
-      pin: {
+    // Store the pin
+    this.pins.create(pinStatus)
+
+    this._schedulePin(pinStatus.id, cid)
+
+    return pinStatus
+  }
+
+  /**
+   * Pin the DAG in a CAR the client uploaded, instead of fetching it
+   *
+   * The CAR is read as it arrives. Its root is chosen the way `filecoin-pin
+   * import` chooses it, and its blocks are written to the pin's own CAR under
+   * the same limits as fetched DAGs, after checking that each one hashes to
+   * its CID. The pin is only created once every block is in, and goes
+   * straight to upload.
+   *
+   * @param car - The whole CAR, or its bytes as they arrive
+   * @throws PinStoreDrainingError if the queues are being drained
+   * @throws CarStorageFullError if the CAR storage quota is reached and a sweep cannot free any space
+   * @throws InvalidCarError if the bytes are not a CAR, a block does not match its CID, or the CAR holds no blocks
+   * @throws PinLimitExceededError if the CAR is over a per-pin limit or the user's quota
+   */
+  async pinCar(
+    user: PinningServiceUser,
+    car: Uint8Array | AsyncIterable<Uint8Array>,
+    options: PinOptions = {}
+  ): Promise<FilecoinStoredPinStatus> {
+    if (this.draining) {
+      throw new PinStoreDrainingError()
+    }
+    await this._checkCarStorage()
+
+    let blocks: CarBlockIterator
+    try {
+      blocks =
+        car instanceof Uint8Array ? await CarBlockIterator.fromBytes(car) : await CarBlockIterator.fromIterable(car)
+    } catch (error) {
+      throw new InvalidCarError(error instanceof Error ? error.message : String(error))
+    }
+    const roots = await blocks.getRoots()
+    if (roots.length === 0) {
+      throw new InvalidCarError('no roots')
+    }
+    const { cid, warning } = resolveCarRoot(roots)
+
+    const pinStatus = this._newPinStatus(user, cid, options)
+    const { id: pinId, filecoin, info } = pinStatus
+    const liveCar = this._trackLiveCar(pinStatus)
+
+    this.logger.info(
+      { userId: user.id, pinId, cid: cid.toString(), carFilePath: filecoin.carFilePath, name: options.name, warning },
+      'Receiving uploaded CAR'
+    )
+
+    const blockstore = new CARWritingBlockstore({
+      rootCID: cid,
+      outputPath: filecoin.carFilePath,
+      logger: this.logger,
+      limits: this._carLimits(pinStatus, liveCar),
+    })
+    blockstore.on('block:stored', (data) => {
+      this.emit('pin:block:stored', {
+        pinId,
+        userId: user.id,
+        cid: data.cid,
+        size: data.size,
+        stats: blockstore.getStats(),
+      })
+    })
+
+    // The sweeper must not take the CAR for an orphan before the pin exists
+    this.receivingCars.add(filecoin.carFilePath)
+    try {
+      let readError: string | undefined
+      try {
+        for await (const block of blocks) {
+          await verifyBlock(block.cid, block.bytes)
+          await blockstore.put(block.cid, block.bytes)
+        }
+      } catch (error) {
+        readError = error instanceof Error ? error.message : String(error)
+      }
+
+      const limitError = blockstore.getLimitError()
+      // Neither this server nor Filecoin could serve a root that is not in the CAR
+      if (readError != null || limitError != null || !(await blockstore.has(cid))) {
+        await blockstore.cleanup()
+        await this._deleteCarFile(filecoin.carFilePath, 'incomplete', pinId)
+        if (limitError != null) {
+          throw pinLimitError(limitError)
+        }
+        const noBlocks = blockstore.getStats().blocksWritten === 0
+        throw new InvalidCarError(readError ?? (noBlocks ? 'no blocks' : `root block ${cid.toString()} is missing`))
+      }
+
+      filecoin.carStats = await blockstore.finalize()
+      this.carStorageScan = undefined
+      filecoin.uploaded = true
+      pinStatus.info = {
+        ...info,
+        status: 'uploading',
+        blocks_written: filecoin.carStats.blocksWritten.toString(),
+        total_size: filecoin.carStats.totalSize.toString(),
+        car_uploaded: 'true',
+      }
+      this.pins.create(pinStatus)
+    } finally {
+      this.receivingCars.delete(filecoin.carFilePath)
+      this._releaseLiveCar(pinId, liveCar)
+    }
+
+    this.logger.info(
+      {
+        pinId,
         cid: cid.toString(),
-        ...(options.name != null && { name: options.name }),
-        ...(options.origins != null && { origins: options.origins }),
-        ...(options.meta != null && { meta: options.meta }),
+        blocksWritten: filecoin.carStats.blocksWritten,
+        totalSize: filecoin.carStats.totalSize,
       },
+      'Uploaded CAR received'
+    )
+    this.emit('pin:car:finalized', {
+      pinId,
+      userId: user.id,
+      cid,
+      stats: filecoin.carStats,
+      partial: false,
+    })
+
+    this._schedulePin(pinId, cid)
+
+    return pinStatus
+  }
+
+  /**
+   * Record of a new pin, queued to be fetched
+   */
+  private _newPinStatus(
+    user: PinningServiceUser,
+    cid: CID,
+    options: PinOptions
+  ): FilecoinStoredPinStatus & Required<Pick<FilecoinStoredPinStatus, 'filecoin' | 'info'>> {
+    const pinStarted = Date.now()
+    const { filecoin, info } = this._initialPinState(cid, pinStarted)
+    const pinStatus: FilecoinStoredPinStatus & Required<Pick<FilecoinStoredPinStatus, 'filecoin' | 'info'>> = {
+      id: `pin-${pinStarted}-${++this.pinCounter}`,
+      userId: user.id,
+      status: 'queued',
+      created: pinStarted,
+      pin: pinObject(cid, options),
+      filecoin,
+      info,
+    }
+    const webhook = webhookTarget(user, options.meta)
+    if (webhook != null) {
+      pinStatus.webhook = webhook
+    }
+    return pinStatus
+  }
+
+  /**
+   * Filecoin metadata and info of a pin that has yet to be fetched
+   */
+  private _initialPinState(
+    cid: CID,
+    pinStarted: number
+  ): { filecoin: FilecoinPinMetadata; info: Record<string, string> } {
+    const carFilePath = join(this.config.carStoragePath, `${cid.toString()}-${pinStarted}-${++this.carCounter}.car`)
+    return {
       filecoin: {
         carFilePath,
         carStats: {
@@ -143,17 +768,64 @@ export class FilecoinPinStore extends EventEmitter {
         car_file_path: carFilePath,
         blocks_written: '0',
         total_size: '0',
+        missing_blocks: '0',
         status: 'initializing',
       },
     }
+  }
 
-    // Store the pin
-    this.pins.set(pinId, pinStatus)
+  /**
+   * Pick up pins that were queued or in progress when the server last stopped
+   *
+   * Pins whose piece was already uploaded are simply marked pinned, pins whose
+   * CAR was finalized go straight to upload, and everything else is fetched
+   * again, reusing whatever blocks made it into the partial CAR file.
+   */
+  private async _recoverInterruptedPins(): Promise<void> {
+    const interrupted = this.pins.list({ status: ['queued', 'pinning'] }).reverse()
+
+    for (const pinStatus of interrupted) {
+      let cid: CID
+      try {
+        cid = CID.parse(pinStatus.pin.cid)
+      } catch (error) {
+        this.logger.warn({ pinId: pinStatus.id, cid: pinStatus.pin.cid, error }, 'Cannot recover pin with invalid CID')
+        this.pins.update(pinStatus.id, {
+          status: 'failed',
+          info: { ...pinStatus.info, status: 'failed', error: `Invalid CID: ${pinStatus.pin.cid}` },
+        })
+        continue
+      }
+
+      this.logger.info(
+        { pinId: pinStatus.id, cid: pinStatus.pin.cid, status: pinStatus.status, stage: pinStatus.info?.status },
+        'Recovering interrupted pin'
+      )
+      this._schedulePin(pinStatus.id, cid)
+    }
+
+    if (interrupted.length > 0) {
+      this.logger.info({ count: interrupted.length }, 'Re-queued interrupted pins')
+    }
+  }
+
+  /**
+   * Start processing a pin in the background
+   *
+   * Work started before a stop() is abandoned rather than failed, so the pin
+   * keeps its persisted state and is recovered on the next start().
+   */
+  private _schedulePin(pinId: string, cid: CID): void {
+    const run = ++this.runCounter
+    this.pinRuns.set(pinId, run)
 
     // Start the actual pinning process in the background after a small delay
     setTimeout(() => {
+      if (this._isInterrupted(pinId, run)) {
+        return
+      }
       this.logger.debug({ pinId }, 'setTimeout callback executing')
-      this._processPinInBackground(pinId, user, cid)
+      this._processPinInBackground(pinId, cid, run)
         .then(() => {
           this.logger.debug({ pinId }, 'Background processing completed')
         })
@@ -161,7 +833,6 @@ export class FilecoinPinStore extends EventEmitter {
           this.logger.error(
             {
               pinId,
-              userId: user.id,
               cid: cid.toString(),
               error: error instanceof Error ? (error.stack ?? error.message) : String(error),
             },
@@ -169,253 +840,1166 @@ export class FilecoinPinStore extends EventEmitter {
           )
 
           // Update pin status to failed
-          const failedPin = this.pins.get(pinId)
+          const failedPin = this.repository?.get(pinId)
           if (failedPin != null) {
-            failedPin.status = 'failed'
-            failedPin.info = {
-              ...failedPin.info,
-              error: error.message,
+            this.repository?.update(pinId, {
               status: 'failed',
-            }
-            this.pins.set(pinId, failedPin)
+              info: {
+                ...failedPin.info,
+                error: error.message,
+                status: 'failed',
+              },
+            })
+          }
+        })
+        .finally(() => {
+          if (this.pinRuns.get(pinId) === run) {
+            this.pinRuns.delete(pinId)
           }
         })
     }, 100) // Small delay to ensure pin starts in 'queued' state
+  }
 
-    return pinStatus
+  /**
+   * Whether the pin's run was abandoned, by stop() or by an operator failing or restarting the pin
+   */
+  private _isInterrupted(pinId: string, run: number): boolean {
+    return this.pinRuns.get(pinId) !== run
   }
 
-  private async _processPinInBackground(pinId: string, user: PinningServiceUser, cid: CID): Promise<void> {
+  private async _processPinInBackground(pinId: string, cid: CID, run: number): Promise<void> {
     this.logger.debug({ pinId, cid: cid.toString() }, 'Entered _processPinInBackground')
-    const pinStatus = this.pins.get(pinId)
+    const pinStatus = this.repository?.get(pinId)
     if (pinStatus == null || pinStatus.filecoin == null) {
       this.logger.error({ pinId }, 'Pin not found in _processPinInBackground')
       throw new Error(`Pin ${pinId} not found`)
     }
+    const filecoin = pinStatus.filecoin
+    // Set when the pin shares the piece of a duplicate instead of uploading its own
+    let shared = false
 
     try {
-      this.logger.info({ pinId, cid: cid.toString() }, 'Starting background pin processing')
+      if (filecoin.synapsePieceCid == null) {
+        // An uploaded CAR is the client's own, so it is uploaded as it is
+        shared = filecoin.uploaded !== true && (await this._shareDuplicate(pinStatus, filecoin, cid, run))
+        if (!shared) {
+          let finalStats: CARBlockstoreStats
+          if (filecoin.carStats.finalized && (await fileExists(filecoin.carFilePath))) {
+            this.logger.info(
+              { pinId, carFilePath: filecoin.carFilePath },
+              'Reusing finalized CAR file from a previous run'
+            )
+            this._markPinning(pinStatus)
+            finalStats = filecoin.carStats
+          } else {
+            finalStats = await this._fetchDagWithRetries(pinStatus, filecoin, cid, run)
+          }
 
-      // Update status to pinning
-      pinStatus.status = 'pinning'
-      if (pinStatus.info != null) {
-        pinStatus.info.status = 'pinning'
-      }
-      this.pins.set(pinId, pinStatus)
+          if (this._isInterrupted(pinId, run)) {
+            throw new PinInterruptedError(pinId)
+          }
 
-      // Create a single Helia node with CAR blockstore for this specific pin
-      this.logger.debug({ pinId, cid: cid.toString() }, 'Creating pinning Helia node')
-      const { helia, blockstore } = await createPinningHeliaNode({
-        config: this.config,
-        logger: this.logger,
-        rootCID: cid,
-        outputPath: pinStatus.filecoin.carFilePath,
-        origins: pinStatus.pin.origins ?? [],
-      })
-      this.logger.debug({ pinId, cid: cid.toString() }, 'Pinning Helia node created')
+          const aggregator = this._aggregatorFor(pinStatus.userId)
+          await this._uploadWithRetries(pinStatus, filecoin, cid, run, async () => {
+            if (aggregator != null) {
+              await this._stageCar(aggregator, pinStatus, filecoin, cid, run)
+              return
+            }
+            await this.uploadQueue.run(pinStatus.userId, async () => {
+              if (this._isInterrupted(pinId, run)) {
+                throw new PinInterruptedError(pinId)
+              }
+              await this._uploadCar(pinStatus, filecoin, cid, run)
+            })
+          })
+          filecoin.carStats = finalStats
+        }
 
-      // Store active pin info
-      this.activePins.set(pinId, {
-        helia,
-        blockstore,
-        metadata: pinStatus.filecoin,
-      })
+        // Synapse uploads resolve once the piece addition is confirmed on chain
+        this.emit('pin:piece:confirmed', { pinId, userId: pinStatus.userId, cid, pieceCid: filecoin.synapsePieceCid })
+        this._notify(pinStatus, 'piece.confirmed')
+      }
 
-      // Set up event handlers for monitoring
-      blockstore.on('block:stored', (data) => {
-        this.emit('pin:block:stored', {
-          pinId,
-          userId: user.id,
-          cid: data.cid,
-          size: data.size,
-        })
+      if (filecoin.replacedPiece != null) {
+        this._removeReplacedPiece(pinStatus, filecoin, filecoin.replacedPiece, run)
+      }
 
-        // Update pin status
-        const currentPin = this.pins.get(pinId)
-        if (currentPin?.filecoin != null) {
-          currentPin.filecoin.carStats = blockstore.getStats()
-          currentPin.info = {
-            ...currentPin.info,
-            blocks_written: currentPin.filecoin.carStats.blocksWritten.toString(),
-            total_size: currentPin.filecoin.carStats.totalSize.toString(),
-          }
-          this.pins.set(pinId, currentPin)
-        }
-      })
+      await this._validateIpni(pinStatus, cid, run)
+      if (this._isInterrupted(pinId, run)) {
+        throw new PinInterruptedError(pinId)
+      }
+
+      // Update pin status to completed
+      pinStatus.status = 'pinned'
+      filecoin.pinCompleted = Date.now()
+      pinStatus.info = {
+        ...pinStatus.info,
+        status: 'pinned',
+        blocks_written: filecoin.carStats.blocksWritten.toString(),
+        total_size: filecoin.carStats.totalSize.toString(),
+        missing_blocks: filecoin.carStats.missingBlocks.size.toString(),
+        pin_duration: (filecoin.pinCompleted - filecoin.pinStarted).toString(),
+      }
+      this.repository?.update(pinId, { status: pinStatus.status, info: pinStatus.info, filecoin })
+
+      // Emit completion event
+      this.emit('pin:car:completed', {
+        pinId,
+        userId: pinStatus.userId,
+        cid,
+        stats: filecoin.carStats,
+        carFilePath: filecoin.carFilePath,
+      })
+      this._notify(pinStatus, 'pin.pinned')
+
+      this.logger.info({ pinId, cid: cid.toString() }, 'Pin processing completed successfully')
+
+      // Aggregate CARs are shared between pins, so those are left to the sweeper, as is a duplicate's CAR
+      if (this.config.carRetention === 'delete' && !shared) {
+        await this._deleteCarFile(filecoin.carFilePath, 'retention', pinId)
+      }
+    } catch (error) {
+      if (this._isInterrupted(pinId, run)) {
+        this.logger.info(
+          { pinId, cid: cid.toString() },
+          'Pin processing interrupted by shutdown or an operator, leaving its state as is'
+        )
+        return
+      }
+
+      this.logger.error({ pinId, cid: cid.toString(), error }, 'Pin processing failed')
+
+      // Update pin status to failed
+      pinStatus.status = 'failed'
+      pinStatus.info = {
+        ...pinStatus.info,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof PinLimitExceededError && { reason: error.reason }),
+      }
+      this.repository?.update(pinId, { status: pinStatus.status, info: pinStatus.info })
+
+      this.emit('pin:failed', {
+        pinId,
+        userId: pinStatus.userId,
+        cid,
+        error,
+      })
+      this._notify(pinStatus, 'pin.failed')
+    } finally {
+      await this._releaseActivePin(pinId, run)
+    }
+  }
+
+  /**
+   * Share the piece and CAR of a pin of the same CID instead of fetching and uploading the DAG again
+   *
+   * A duplicate still in progress is waited on, the pin following its status.
+   * Should it fail or be deleted, the pin waits on the next duplicate in
+   * progress or, failing that, pins the CID itself.
+   *
+   * @returns false if there is no duplicate to share with
+   * @throws PinLimitExceededError if sharing the duplicate's DAG would take the user past their quota
+   */
+  private async _shareDuplicate(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number
+  ): Promise<boolean> {
+    const pinId = pinStatus.id
+
+    for (;;) {
+      if (this._isInterrupted(pinId, run)) {
+        throw new PinInterruptedError(pinId)
+      }
+
+      const duplicate = this._findDuplicate(pinStatus)
+      if (duplicate?.status === 'pinned' && duplicate.filecoin != null) {
+        this._sharePiece(pinStatus, filecoin, cid, duplicate, duplicate.filecoin)
+        return true
+      }
+      if (duplicate == null) {
+        if (filecoin.duplicateOf != null) {
+          this.logger.info({ pinId, cid: cid.toString() }, 'No pin of the same CID left to wait on, pinning it instead')
+          delete filecoin.duplicateOf
+          pinStatus.info = { ...pinStatus.info, status: pinStatus.status }
+          this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+        }
+        return false
+      }
+
+      if (duplicate.status === 'pinning' && pinStatus.status !== 'pinning') {
+        this._markPinning(pinStatus)
+      }
+      if (filecoin.duplicateOf !== duplicate.id) {
+        this.logger.info({ pinId, cid: cid.toString(), duplicateId: duplicate.id }, 'Waiting on a pin of the same CID')
+      }
+      filecoin.duplicateOf = duplicate.id
+      pinStatus.info = { ...pinStatus.info, status: 'deduplicating' }
+      this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+
+      await this._waitOnDuplicate(pinId, duplicate.id)
+    }
+  }
+
+  /**
+   * A complete pin of the same CID, or else the oldest one in progress that is not waiting on another itself
+   *
+   * Pins in progress made after this one only count once they are fetching,
+   * so the oldest pin does the work. Only pins whose pieces go to the same
+   * data set count, so users with data sets of their own only share with
+   * themselves.
+   */
+  private _findDuplicate(pinStatus: FilecoinStoredPinStatus): FilecoinStoredPinStatus | undefined {
+    // Newest first, this pin included
+    const pins = this.pins.list({
+      cid: [pinStatus.pin.cid],
+      status: ['queued', 'pinning', 'pinned'],
+      ...(this.config.dataSetPerUser && { userId: pinStatus.userId }),
+    })
+    const position = pins.findIndex((pin) => pin.id === pinStatus.id)
+
+    // Uploaded CARs were never checked against their root, so no other pin relies on them
+    const shareable = (pin: FilecoinStoredPinStatus): boolean =>
+      pin.id !== pinStatus.id && pin.filecoin?.uploaded !== true
+    const pinned = pins.find((pin) => pin.status === 'pinned' && shareable(pin) && pin.info?.partial == null)
+    const inProgress = pins.filter(
+      (pin, index) =>
+        pin.status !== 'pinned' &&
+        shareable(pin) &&
+        pin.filecoin?.duplicateOf == null &&
+        (pin.status === 'pinning' || index > position)
+    )
+    return pinned ?? inProgress.at(-1)
+  }
+
+  /**
+   * Point the pin at a pinned duplicate's piece and CAR, counting the DAG's size against the pin's user
+   */
+  private _sharePiece(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    duplicate: FilecoinStoredPinStatus,
+    shared: FilecoinPinMetadata
+  ): void {
+    this._checkUserQuota(
+      pinStatus,
+      this._addLiveUsage(pinStatus.userId, this._storedUsage(pinStatus.userId, pinStatus.id)),
+      shared.carStats.totalSize,
+      shared.carStats.blocksWritten
+    )
+
+    Object.assign(filecoin, {
+      carFilePath: shared.carFilePath,
+      carStats: shared.carStats,
+      synapsePieceCid: shared.synapsePieceCid,
+      ...(shared.synapsePieceId != null && { synapsePieceId: shared.synapsePieceId }),
+      synapseDataSetId: shared.synapseDataSetId,
+      ...(shared.aggregate != null && { aggregate: shared.aggregate }),
+      duplicateOf: duplicate.id,
+    })
+    const sharedInfo = Object.entries(duplicate.info ?? {}).filter(([key]) => SHARED_INFO_KEYS.includes(key))
+    pinStatus.info = { ...pinStatus.info, ...Object.fromEntries(sharedInfo), deduplicated: 'true' }
+    this.repository?.update(pinStatus.id, { info: pinStatus.info, filecoin })
+    this._bumpUsageVersion(pinStatus.userId)
+
+    this.logger.info(
+      { pinId: pinStatus.id, duplicateId: duplicate.id, pieceCid: shared.synapsePieceCid },
+      'Sharing the piece of a pin of the same CID'
+    )
+    this.emit('pin:deduplicated', {
+      pinId: pinStatus.id,
+      userId: pinStatus.userId,
+      cid,
+      pieceCid: shared.synapsePieceCid,
+      size: shared.carStats.totalSize,
+    })
+  }
+
+  /**
+   * Wait for a duplicate to move on, be deleted or be replaced
+   *
+   * Also returns when the store stops or the pin's run is abandoned, and now
+   * and then regardless, in case the duplicate settled without an event.
+   */
+  private async _waitOnDuplicate(pinId: string, duplicateId: string): Promise<void> {
+    const controller = new AbortController()
+    const wake = (event: { pinId: string }): void => {
+      if (event.pinId === duplicateId) {
+        controller.abort()
+      }
+    }
+    const events = ['pin:lifecycle', 'pin:cancelled', 'pin:replaced']
+    for (const event of events) {
+      this.on(event, wake)
+    }
+    this.duplicateWaits.set(pinId, controller)
+
+    try {
+      const signal = AbortSignal.any([controller.signal, this.stopController.signal])
+      await sleep(DUPLICATE_RECHECK_INTERVAL, undefined, { signal, ref: false }).catch(() => undefined)
+    } finally {
+      for (const event of events) {
+        this.off(event, wake)
+      }
+      if (this.duplicateWaits.get(pinId) === controller) {
+        this.duplicateWaits.delete(pinId)
+      }
+    }
+  }
+
+  private _markPinning(pinStatus: FilecoinStoredPinStatus): void {
+    this.logger.info({ pinId: pinStatus.id, cid: pinStatus.pin.cid }, 'Starting background pin processing')
+    const wasPinning = pinStatus.status === 'pinning'
+    pinStatus.status = 'pinning'
+    if (pinStatus.info != null) {
+      pinStatus.info.status = 'pinning'
+    }
+    this.repository?.update(pinStatus.id, { status: pinStatus.status, info: pinStatus.info })
+
+    // Fetch retries and recovered pins come through here again; only the first time is news
+    if (!wasPinning) {
+      this._notify(pinStatus, 'pin.pinning')
+    }
+  }
+
+  /**
+   * Tell listeners about a step in the pin's lifecycle, and its webhook if it has one
+   */
+  private _notify(pinStatus: FilecoinStoredPinStatus, event: WebhookEvent): void {
+    this.emit('pin:lifecycle', { pinId: pinStatus.id, userId: pinStatus.userId, event, pin: pinStatus })
+    if (pinStatus.webhook != null) {
+      this.webhooks?.notify(pinStatus.webhook, event, pinStatus)
+    }
+  }
+
+  /**
+   * Stop routing the shared node's blocks to a pin's CAR blockstore
+   *
+   * An abandoned run leaves this to whoever abandoned it, as the pin may have been restarted since.
+   */
+  private async _releaseActivePin(pinId: string, run: number): Promise<void> {
+    if (this._isInterrupted(pinId, run)) {
+      return
+    }
+    const activePin = this.activePins.get(pinId)
+    if (activePin != null) {
+      this.activePins.delete(pinId)
+      activePin.controller.abort()
+      activePin.session.close()
+      this._releaseLiveCar(pinId, activePin.liveCar)
+    }
+  }
+
+  /**
+   * Connect the shared node to a pin's origins so Bitswap can ask them for blocks
+   */
+  private async _dialOrigins(helia: Helia, pinId: string, origins: string[]): Promise<void> {
+    for (const origin of origins) {
+      try {
+        await helia.libp2p.dial(multiaddr(origin))
+        this.logger.info({ pinId, origin }, 'Connected to origin node')
+      } catch (error) {
+        this.logger.warn({ pinId, origin, error }, 'Failed to connect to origin node')
+      }
+    }
+  }
+
+  /**
+   * Wait for the pin's root CID to be announced to IPNI, recording the outcome in `info`
+   *
+   * The pin stays `pinning` with an `announcing` sub-status meanwhile. A root
+   * CID that never shows up does not fail the pin, whose data is stored all the
+   * same; it is marked pinned with `ipni_validated: false`.
+   */
+  private async _validateIpni(pinStatus: FilecoinStoredPinStatus, cid: CID, run: number): Promise<void> {
+    const pinId = pinStatus.id
+    if (this.config.ipniValidationAttempts <= 0 || pinStatus.info?.ipni_validated != null) {
+      return
+    }
+
+    pinStatus.info = { ...pinStatus.info, status: 'announcing' }
+    this.repository?.update(pinId, { info: pinStatus.info })
+
+    let validated = false
+    let error: string | undefined
+    try {
+      validated = await validateIPNIAdvertisement(cid, {
+        maxAttempts: this.config.ipniValidationAttempts,
+        delayMs: this.config.ipniValidationDelay,
+        signal: this.stopController.signal,
+        logger: this.logger,
+        onProgress: (event) => {
+          if (this._isInterrupted(pinId, run)) {
+            return
+          }
+          if (event.type === 'ipniAdvertisement.retryUpdate' && pinStatus.info != null) {
+            pinStatus.info.ipni_retries = event.data.retryCount.toString()
+            this.repository?.update(pinId, { info: pinStatus.info })
+          }
+          this.emit('pin:ipni:progress', { pinId, userId: pinStatus.userId, cid, event })
+        },
+      })
+    } catch (validationError) {
+      if (this._isInterrupted(pinId, run)) {
+        throw new PinInterruptedError(pinId)
+      }
+      error = validationError instanceof Error ? validationError.message : String(validationError)
+    }
+
+    pinStatus.info = { ...pinStatus.info, ipni_validated: validated.toString() }
+    if (error != null) {
+      pinStatus.info.ipni_error = error
+    }
+    this.repository?.update(pinId, { info: pinStatus.info })
+    this.emit('pin:ipni:validated', { pinId, userId: pinStatus.userId, cid, validated })
+    this.logger.info({ pinId, cid: cid.toString(), validated, error }, 'IPNI validation finished')
+  }
+
+  /**
+   * Fetch the pin's DAG in a fetch slot, retrying with backoff when the missing-block policy allows it
+   *
+   * Each retry resumes from the blocks the previous attempt left in the CAR file.
+   */
+  private async _fetchDagWithRetries(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number
+  ): Promise<CARBlockstoreStats> {
+    const pinId = pinStatus.id
+    const maxAttempts = this.config.missingBlockPolicy === 'retry' ? this.config.fetchRetries + 1 : 1
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // The pin stays queued until a fetch slot frees up
+        return await this.fetchQueue.run(pinStatus.userId, async () => {
+          if (this._isInterrupted(pinId, run)) {
+            throw new PinInterruptedError(pinId)
+          }
+          this._markPinning(pinStatus)
+          try {
+            return await this._fetchDag(pinStatus, filecoin, cid, run)
+          } finally {
+            await this._releaseActivePin(pinId, run)
+          }
+        })
+      } catch (error) {
+        if (!(error instanceof IncompleteDagError)) {
+          throw error
+        }
+        if (attempt >= maxAttempts) {
+          await this._deleteCarFile(filecoin.carFilePath, 'incomplete', pinId)
+          throw error
+        }
+
+        const delay = this.config.fetchRetryDelay * 2 ** (attempt - 1)
+        this.logger.warn({ pinId, cid: cid.toString(), attempt, delay, error: error.message }, 'Retrying DAG fetch')
+        pinStatus.info = {
+          ...pinStatus.info,
+          status: 'retrying',
+          fetch_attempts: attempt.toString(),
+          retry_at: new Date(Date.now() + delay).toISOString(),
+          fetch_error: error.message,
+        }
+        this.repository?.update(pinId, { info: pinStatus.info })
+        this.emit('pin:fetch:retry', { pinId, userId: pinStatus.userId, cid, attempt, delay, error })
+
+        // Don't hold shutdown open; an interrupted backoff is picked up again on the next start()
+        await sleep(delay, undefined, { ref: false })
+        if (this._isInterrupted(pinId, run)) {
+          throw new PinInterruptedError(pinId)
+        }
+      }
+    }
+  }
+
+  /**
+   * Upload the pin's CAR, retrying with backoff while failures look transient
+   *
+   * The attempt count is persisted, so a restart carries on where it left off
+   * instead of granting a fresh set of attempts.
+   */
+  private async _uploadWithRetries(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number,
+    upload: () => Promise<void>
+  ): Promise<void> {
+    const pinId = pinStatus.id
+
+    for (;;) {
+      try {
+        await upload()
+        if (pinStatus.info != null) {
+          delete pinStatus.info.retry_at
+          delete pinStatus.info.upload_error
+          delete pinStatus.info.upload_error_category
+        }
+        return
+      } catch (error) {
+        if (error instanceof PinInterruptedError || this._isInterrupted(pinId, run)) {
+          throw error
+        }
+
+        const attempts = (filecoin.uploadAttempts ?? 0) + 1
+        const category = classifyUploadError(error)
+        const message = error instanceof Error ? error.message : String(error)
+        filecoin.uploadAttempts = attempts
+        pinStatus.info = {
+          ...pinStatus.info,
+          upload_attempts: attempts.toString(),
+          upload_error: message,
+          upload_error_category: category,
+        }
+
+        if (!isRetryableUploadError(category) || attempts >= this.config.uploadMaxAttempts) {
+          delete pinStatus.info.retry_at
+          this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+          throw error
+        }
+
+        const delay = this.config.uploadRetryDelay * 2 ** (attempts - 1)
+        this.logger.warn({ pinId, cid: cid.toString(), attempts, category, delay, error: message }, 'Retrying upload')
+        pinStatus.info = {
+          ...pinStatus.info,
+          status: 'upload_retrying',
+          retry_at: new Date(Date.now() + delay).toISOString(),
+        }
+        this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+        this.emit('pin:upload:retry', { pinId, userId: pinStatus.userId, cid, attempts, category, delay, error })
+
+        await sleep(delay, undefined, { ref: false })
+        if (this._isInterrupted(pinId, run)) {
+          throw new PinInterruptedError(pinId)
+        }
+      }
+    }
+  }
+
+  /**
+   * Refuse a block, or a duplicate's piece, that would take the user's pins past their quota
+   *
+   * @param usage - What the user's other pins hold
+   * @param bytes - What the pin would hold, in bytes
+   * @param blocks - What the pin would hold, in blocks
+   */
+  private _checkUserQuota(pinStatus: FilecoinStoredPinStatus, usage: PinUsage, bytes: number, blocks: number): void {
+    const { userMaxBytes, userMaxBlocks } = this.config
+    if (userMaxBytes > 0 && usage.bytes + bytes > userMaxBytes) {
+      throw new PinLimitExceededError(
+        'user_max_bytes',
+        `Pins of user ${pinStatus.userId} exceed their quota of ${userMaxBytes} bytes`
+      )
+    }
+    if (userMaxBlocks > 0 && usage.blocks + blocks > userMaxBlocks) {
+      throw new PinLimitExceededError(
+        'user_max_blocks',
+        `Pins of user ${pinStatus.userId} exceed their quota of ${userMaxBlocks} blocks`
+      )
+    }
+  }
+
+  /**
+   * Limits on what a pin's CAR may hold: the per-pin limits, and what is left of its user's quota
+   *
+   * The stored stats of the user's other pins are summed once, and again only
+   * when they change. Each block is checked against that, the user's other
+   * live CARs and this CAR's own stats, which are then counted as live.
+   */
+  private _carLimits(pinStatus: FilecoinStoredPinStatus, liveCar: LiveCar): CARBlockstoreLimits {
+    const { pinMaxBytes, pinMaxBlocks, userMaxBytes, userMaxBlocks } = this.config
+    const { userId } = pinStatus
+    let stored: { usage: PinUsage; version: number } | undefined
+    return {
+      ...(pinMaxBytes > 0 && { maxBytes: pinMaxBytes }),
+      ...(pinMaxBlocks > 0 && { maxBlocks: pinMaxBlocks }),
+      beforePut: (size: number, stats: CARBlockstoreStats) => {
+        const bytes = stats.totalSize + size
+        const blocks = stats.blocksWritten + 1
+        if (userMaxBytes > 0 || userMaxBlocks > 0) {
+          const version = this.usageVersions.get(userId) ?? 0
+          if (stored?.version !== version) {
+            stored = { usage: this._storedUsage(userId), version }
+          }
+          this._checkUserQuota(pinStatus, this._addLiveUsage(userId, stored.usage, liveCar), bytes, blocks)
+        }
+        liveCar.bytes = bytes
+        liveCar.blocks = blocks
+      },
+    }
+  }
+
+  /**
+   * Count a CAR being written against its user's quota, until it is released
+   */
+  private _trackLiveCar(pinStatus: FilecoinStoredPinStatus): LiveCar {
+    const liveCar = { userId: pinStatus.userId, bytes: 0, blocks: 0 }
+    this.liveCars.set(pinStatus.id, liveCar)
+    this._bumpUsageVersion(pinStatus.userId)
+    return liveCar
+  }
+
+  /**
+   * Stop counting a CAR as live, once its pin's stats are stored or the CAR is given up
+   */
+  private _releaseLiveCar(pinId: string, liveCar: LiveCar): void {
+    // A restarted run of the pin may have started a CAR of its own
+    if (this.liveCars.get(pinId) === liveCar) {
+      this.liveCars.delete(pinId)
+      this._bumpUsageVersion(liveCar.userId)
+    }
+  }
+
+  private _bumpUsageVersion(userId: string): void {
+    this.usageVersions.set(userId, (this.usageVersions.get(userId) ?? 0) + 1)
+  }
+
+  /**
+   * Sum the stored stats of a user's pins, leaving out those with a live CAR
+   */
+  private _storedUsage(userId: string, excludePinId?: string): PinUsage {
+    const excluded = [...this.liveCars].filter(([, liveCar]) => liveCar.userId === userId).map(([pinId]) => pinId)
+    if (excludePinId != null) {
+      excluded.push(excludePinId)
+    }
+    return this.pins.usage(userId, excluded)
+  }
+
+  /**
+   * Add what a user's live CARs hold, other than `except`, to their stored usage
+   */
+  private _addLiveUsage(userId: string, usage: PinUsage, except?: LiveCar): PinUsage {
+    const total = { ...usage }
+    for (const liveCar of this.liveCars.values()) {
+      if (liveCar.userId === userId && liveCar !== except) {
+        total.bytes += liveCar.bytes
+        total.blocks += liveCar.blocks
+      }
+    }
+    return total
+  }
+
+  /**
+   * Refuse new pins while the CAR storage directory is over its quota, sweeping first to make room
+   */
+  private async _checkCarStorage(): Promise<void> {
+    const maxBytes = this.config.carStorageMaxBytes
+    if (maxBytes <= 0) {
+      return
+    }
+
+    if ((await this._carStorageBytes()) < maxBytes) {
+      return
+    }
+
+    const { remainingBytes } = await this.sweepCars()
+    if (remainingBytes >= maxBytes) {
+      throw new CarStorageFullError(remainingBytes, maxBytes)
+    }
+  }
+
+  /**
+   * Delete orphaned CAR files, CARs the retention policy no longer keeps and,
+   * under the `lru` policy, the least recently used CARs of pinned pins until
+   * the storage directory is back under its quota
+   */
+  async sweepCars(): Promise<CarSweepPlan> {
+    this.sweep ??= this._sweepCars().finally(() => {
+      this.sweep = undefined
+    })
+    return await this.sweep
+  }
+
+  private async _sweepCars(): Promise<CarSweepPlan> {
+    const files = await listCarFiles(this.config.carStoragePath)
+    // Aggregates being built or uploaded are not referenced by any pin until their upload completes
+    const inUse = new Set(
+      (this._aggregationStats()?.flushing ?? 0) > 0
+        ? files
+            .map(({ path }) => path)
+            .filter((path) => path.startsWith(join(this.config.carStoragePath, 'aggregates')))
+        : []
+    )
+    // Neither are uploads still being received
+    for (const path of this.receivingCars) {
+      inUse.add(path)
+    }
+    const plan = planCarSweep(files, this.pins.carFileReferences(), {
+      policy: this.config.carRetention,
+      retentionDays: this.config.carRetentionDays,
+      maxBytes: this.config.carStorageMaxBytes,
+      now: Date.now(),
+      inUse,
+    })
+
+    for (const [reason, deleted] of [
+      ['orphaned', plan.orphaned],
+      ['retention', plan.expired],
+      ['evicted', plan.evicted],
+    ] as const) {
+      for (const file of deleted) {
+        await this._deleteCarFile(file.path, reason)
+      }
+    }
+
+    this.carStorageScan = { bytes: Promise.resolve(plan.remainingBytes), scanned: Date.now() }
+
+    const deleted = plan.orphaned.length + plan.expired.length + plan.evicted.length
+    if (deleted > 0) {
+      this.logger.info(
+        {
+          orphaned: plan.orphaned.length,
+          expired: plan.expired.length,
+          evicted: plan.evicted.length,
+          remainingBytes: plan.remainingBytes,
+        },
+        'Swept CAR storage'
+      )
+    }
+    return plan
+  }
+
+  /**
+   * Bytes held in the CAR storage directory, from a recent scan if there is one
+   */
+  private async _carStorageBytes(): Promise<number> {
+    if (this.carStorageScan == null || Date.now() - this.carStorageScan.scanned >= CAR_STORAGE_SCAN_TTL) {
+      const bytes = listCarFiles(this.config.carStoragePath).then((files) =>
+        files.reduce((total, file) => total + file.size, 0)
+      )
+      const scan = { bytes, scanned: Date.now() }
+      this.carStorageScan = scan
+      // A failed scan is not kept, so the next pin scans again
+      bytes.catch(() => {
+        if (this.carStorageScan === scan) {
+          this.carStorageScan = undefined
+        }
+      })
+    }
+    return await this.carStorageScan.bytes
+  }
+
+  /**
+   * Delete a CAR file, if it is still there
+   */
+  private async _deleteCarFile(
+    carFilePath: string,
+    reason: 'orphaned' | 'retention' | 'evicted' | 'replaced' | 'incomplete' | 'cancelled',
+    pinId?: string
+  ): Promise<void> {
+    try {
+      await unlink(carFilePath)
+      this.carStorageScan = undefined
+      this.logger.info({ pinId, carFilePath, reason }, 'Deleted CAR file')
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn({ pinId, carFilePath, reason, error }, 'Failed to delete CAR file')
+      }
+    }
+  }
+
+  /**
+   * Fetch the DAG into the pin's CAR file and finalize it
+   *
+   * A fetch that fails or times out only produces a CAR when the missing-block
+   * policy is `partial`; otherwise the CAR is closed unfinalized so a retry can
+   * resume from it, and an IncompleteDagError is thrown.
+   */
+  private async _fetchDag(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number
+  ): Promise<CARBlockstoreStats> {
+    const pinId = pinStatus.id
+    const fetchStarted = Date.now()
+
+    // Keep blocks written by an interrupted run so they don't have to be fetched again
+    const partialCarPath = await movePartialCar(filecoin.carFilePath)
+
+    const helia = this.helia
+    if (helia == null || this._isInterrupted(pinId, run)) {
+      throw new PinInterruptedError(pinId)
+    }
+
+    const liveCar = this._trackLiveCar(pinStatus)
+    const blockstore = new CARWritingBlockstore({
+      rootCID: cid,
+      outputPath: filecoin.carFilePath,
+      logger: this.logger,
+      limits: this._carLimits(pinStatus, liveCar),
+    })
+
+    const timeout = this.config.fetchTimeout
+    const timeoutSignal = timeout > 0 ? AbortSignal.timeout(timeout) : undefined
+    const controller = new AbortController()
+    const signal = timeoutSignal != null ? AbortSignal.any([controller.signal, timeoutSignal]) : controller.signal
+
+    // Nothing more will be accepted, so stop fetching
+    blockstore.on('limit:exceeded', () => controller.abort())
+
+    // Blocks the shared node fetches for this session land in this pin's CAR file
+    const session = this.blockstoreRouter.open(blockstore, signal)
+    this.activePins.set(pinId, {
+      blockstore,
+      session,
+      controller,
+      metadata: filecoin,
+      liveCar,
+    })
+
+    // Progress is tracked on every block but only written out every so often
+    let progressWrittenAt = Date.now()
+    const writeProgress = (): void => {
+      progressWrittenAt = Date.now()
+      this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+    }
+    const throttledWriteProgress = (): void => {
+      if (Date.now() - progressWrittenAt >= PROGRESS_WRITE_INTERVAL) {
+        writeProgress()
+      }
+    }
+
+    // Set up event handlers for monitoring
+    blockstore.on('block:stored', (data) => {
+      if (this._isInterrupted(pinId, run)) {
+        return
+      }
+      // Update pin status
+      filecoin.carStats = blockstore.getStats()
+      pinStatus.info = {
+        ...pinStatus.info,
+        blocks_written: filecoin.carStats.blocksWritten.toString(),
+        total_size: filecoin.carStats.totalSize.toString(),
+        missing_blocks: filecoin.carStats.missingBlocks.size.toString(),
+      }
+      throttledWriteProgress()
+
+      this.emit('pin:block:stored', {
+        pinId,
+        userId: pinStatus.userId,
+        cid: data.cid,
+        size: data.size,
+        stats: filecoin.carStats,
+      })
+    })
+
+    blockstore.on('block:missing', (data) => {
+      if (this._isInterrupted(pinId, run)) {
+        return
+      }
+      this.emit('pin:block:missing', {
+        pinId,
+        userId: pinStatus.userId,
+        cid: data.cid,
+      })
+
+      filecoin.carStats = blockstore.getStats()
+      pinStatus.info = { ...pinStatus.info, missing_blocks: filecoin.carStats.missingBlocks.size.toString() }
+      throttledWriteProgress()
+    })
+
+    if (partialCarPath != null) {
+      const resumedBlocks = await copyBlocksFromPartialCar(partialCarPath, blockstore, this.logger)
+      await unlink(partialCarPath)
+      this.logger.info({ pinId, cid: cid.toString(), resumedBlocks }, 'Resumed blocks from partial CAR file')
+    }
+
+    await this._dialOrigins(helia, pinId, pinStatus.pin.origins ?? [])
+
+    // Fetch the DAG
+    this.logger.debug({ pinId, cid: cid.toString() }, 'Starting DAG pinning')
+
+    let fetchError: string | undefined
+
+    try {
+      // Walk the full DAG; every block missing from the CAR is fetched via Bitswap
+      for await (const fetchedCid of walkDag(helia, cid, session.options)) {
+        this.logger.debug(
+          {
+            pinId,
+            cid: cid.toString(),
+            fetchedCid: fetchedCid.toString(),
+          },
+          'Block fetched during DAG walk'
+        )
+      }
+
+      this.logger.info({ pinId, cid: cid.toString() }, 'Content fully pinned')
+    } catch (error) {
+      fetchError =
+        timeoutSignal?.aborted === true
+          ? `timed out after ${timeout}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error)
+      this.logger.warn(
+        { pinId, cid: cid.toString(), error: fetchError },
+        'Failed to pin content - some blocks may be missing'
+      )
+    }
+
+    // Stopping aborts the walk, which looks like a failed fetch; keep the partial CAR instead
+    if (this._isInterrupted(pinId, run)) {
+      throw new PinInterruptedError(pinId)
+    }
+    // A finished fetch writes its final stats below
+    if (fetchError != null) {
+      writeProgress()
+    }
+
+    // Retrying cannot help a DAG over its limits, so the blocks fetched so far are dropped
+    const limitError = blockstore.getLimitError()
+    if (limitError != null) {
+      await blockstore.cleanup()
+      await this._deleteCarFile(filecoin.carFilePath, 'incomplete', pinId)
+      this.emit('pin:fetch:completed', {
+        pinId,
+        userId: pinStatus.userId,
+        cid,
+        outcome: 'incomplete',
+        duration: Date.now() - fetchStarted,
+      })
+      throw pinLimitError(limitError)
+    }
+
+    // A partial upload still needs at least the root block
+    const uploadPartial = this.config.missingBlockPolicy === 'partial' && blockstore.getStats().blocksWritten > 0
+    if (fetchError != null && !uploadPartial) {
+      // Flush the blocks we did get so a retry can pick them up
+      await blockstore.cleanup()
+      this.emit('pin:fetch:completed', {
+        pinId,
+        userId: pinStatus.userId,
+        cid,
+        outcome: 'incomplete',
+        duration: Date.now() - fetchStarted,
+      })
+      throw new IncompleteDagError(cid, fetchError)
+    }
+
+    // Finalize the CAR file
+    const finalStats = await blockstore.finalize()
+    this.carStorageScan = undefined
+    if (this._isInterrupted(pinId, run)) {
+      throw new PinInterruptedError(pinId)
+    }
+    this.emit('pin:fetch:completed', {
+      pinId,
+      userId: pinStatus.userId,
+      cid,
+      outcome: fetchError != null ? 'partial' : 'complete',
+      duration: Date.now() - fetchStarted,
+    })
+
+    this.logger.info(
+      {
+        pinId,
+        cid: cid.toString(),
+        blocksWritten: finalStats.blocksWritten,
+        totalSize: finalStats.totalSize,
+        missingBlocks: finalStats.missingBlocks.size,
+      },
+      'CAR file finalized'
+    )
+    this.emit('pin:car:finalized', {
+      pinId,
+      userId: pinStatus.userId,
+      cid,
+      stats: finalStats,
+      partial: fetchError != null,
+    })
+
+    // Record the finalized CAR so a restart can go straight to upload
+    filecoin.carStats = finalStats
+    pinStatus.info = {
+      ...pinStatus.info,
+      status: 'uploading',
+      missing_blocks: finalStats.missingBlocks.size.toString(),
+      ...(fetchError != null && { partial: 'true', partial_reason: fetchError }),
+    }
+    delete pinStatus.info.retry_at
+    delete pinStatus.info.fetch_error
+    this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+
+    return finalStats
+  }
 
-      blockstore.on('block:missing', (data) => {
-        this.emit('pin:block:missing', {
-          pinId,
-          userId: user.id,
-          cid: data.cid,
-        })
-      })
+  /**
+   * Hold a finished CAR until its aggregate is uploaded, then record where it landed in the shared piece
+   */
+  private async _stageCar(
+    aggregator: PinAggregator,
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number
+  ): Promise<void> {
+    const pinId = pinStatus.id
 
-      // Fetch and pin the DAG
-      this.logger.debug({ pinId, cid: cid.toString() }, 'Starting DAG pinning')
+    pinStatus.info = { ...pinStatus.info, status: 'aggregating' }
+    this.repository?.update(pinId, { info: pinStatus.info })
 
-      try {
-        // Use Helia's pin system to walk the full DAG
-        // This will fetch all blocks recursively via Bitswap
-        this.logger.debug({ pinId, cid: cid.toString() }, 'Pinning content via Helia')
+    const { size } = await stat(filecoin.carFilePath)
+    const placement = await aggregator.stage({ id: pinId, root: cid, carFilePath: filecoin.carFilePath, size })
+    if (this._isInterrupted(pinId, run)) {
+      // Other pins share the piece, so it stays in the data set
+      throw new PinInterruptedError(pinId)
+    }
 
-        for await (const pinnedCid of helia.pins.add(cid)) {
-          this.logger.debug(
-            {
-              pinId,
-              cid: cid.toString(),
-              pinnedCid: pinnedCid.toString(),
-            },
-            'Block pinned during DAG walk'
-          )
-        }
+    filecoin.synapsePieceCid = placement.pieceCid
+    if (placement.pieceId !== undefined) {
+      filecoin.synapsePieceId = placement.pieceId
+    }
+    filecoin.synapseDataSetId = placement.dataSetId
+    filecoin.aggregate = {
+      carFilePath: placement.aggregateCarPath,
+      offset: placement.offset,
+      length: placement.length,
+    }
 
-        this.logger.info({ pinId, cid: cid.toString() }, 'Content fully pinned')
-      } catch (error) {
-        this.logger.warn(
-          {
-            pinId,
-            cid: cid.toString(),
-            error: error instanceof Error ? error.message : String(error),
-          },
-          'Failed to pin content - some blocks may be missing'
-        )
-        // Don't throw - we'll finalize the CAR with whatever blocks we got
-      }
+    pinStatus.info = {
+      ...pinStatus.info,
+      synapse_piece_cid: placement.pieceCid,
+      synapse_piece_id: (placement.pieceId ?? 0).toString(),
+      synapse_data_set_id: placement.dataSetId,
+      piece_offset: placement.offset.toString(),
+      piece_length: placement.length.toString(),
+    }
 
-      // Finalize the CAR file
-      const finalStats = await blockstore.finalize()
+    // Persist the piece right away so a restart never uploads it twice
+    this.repository?.update(pinId, { info: pinStatus.info, filecoin })
+  }
 
-      this.logger.info(
-        {
-          pinId,
-          cid: cid.toString(),
-          blocksWritten: finalStats.blocksWritten,
-          totalSize: finalStats.totalSize,
-          missingBlocks: finalStats.missingBlocks.size,
+  /**
+   * Upload a CAR with Synapse, reporting its progress, how long it took and how it ended
+   *
+   * @param pinIds - Pins whose blocks are in the CAR
+   * @param userId - Owner of those pins, whose data set the CAR goes to when users have their own
+   */
+  private async _uploadToSynapse(
+    carData: Uint8Array,
+    root: CID,
+    contextId: string,
+    pinIds: string[],
+    userId: string
+  ): Promise<SynapseUploadResult> {
+    const started = Date.now()
+    try {
+      const dataSets = this.dataSets
+      const storage = dataSets != null ? await dataSets.storageFor(userId) : this.synapseService.storage
+      const result = await uploadToSynapse({ ...this.synapseService, storage }, carData, root, this.logger, {
+        contextId,
+        onProgress: (event) => {
+          this.emit('synapse:upload:progress', { contextId, pinIds, event })
         },
-        'CAR file finalized'
-      )
-
-      // Store on Filecoin using Synapse SDK
-      // This section demonstrates the integration pattern:
-      // 1. Prepare the data (CAR file) for upload
-      // 2. Use Synapse's storage.upload() with callbacks for monitoring
-      // 3. Track the returned piece information in application state
-      // 4. Handle errors gracefully with proper cleanup
-      try {
-        // Read the CAR file (streaming not yet supported in Synapse)
-        // TODO: When Synapse supports streaming, this could be optimized
-        const carData = await readFile(pinStatus.filecoin.carFilePath)
+      })
+      // The first upload to a user's data set is what creates it
+      dataSets?.remember(userId, storage)
+      this.emit('synapse:upload:completed', { contextId, size: carData.length, duration: Date.now() - started })
+      return result
+    } catch (error) {
+      this.emit('synapse:upload:failed', {
+        contextId,
+        size: carData.length,
+        duration: Date.now() - started,
+        category: classifyUploadError(error),
+        error,
+      })
+      throw error
+    }
+  }
 
-        // Upload using shared function with pinId as context and IPFS root CID metadata
-        const uploadResult = await uploadToSynapse(this.synapseService, carData, cid, this.logger, {
-          contextId: pinId,
-        })
+  /**
+   * Upload the pin's finalized CAR file and record the resulting piece
+   */
+  private async _uploadCar(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    cid: CID,
+    run: number
+  ): Promise<void> {
+    const pinId = pinStatus.id
 
-        // Store Synapse metadata
-        pinStatus.filecoin.synapsePieceCid = uploadResult.pieceCid
-        if (uploadResult.pieceId !== undefined) {
-          pinStatus.filecoin.synapsePieceId = uploadResult.pieceId
-        }
-        pinStatus.filecoin.synapseDataSetId = uploadResult.dataSetId
+    // Store on Filecoin using Synapse SDK
+    // This section demonstrates the integration pattern:
+    // 1. Prepare the data (CAR file) for upload
+    // 2. Use Synapse's storage.upload() with callbacks for monitoring
+    // 3. Track the returned piece information in application state
+    // 4. Handle errors gracefully with proper cleanup
+    try {
+      // Read the CAR file (streaming not yet supported in Synapse)
+      // TODO: When Synapse supports streaming, this could be optimized
+      const carData = await readFile(filecoin.carFilePath)
 
-        // Add to info for API response
-        pinStatus.info = {
-          ...pinStatus.info,
-          synapse_piece_cid: uploadResult.pieceCid,
-          synapse_piece_id: (uploadResult.pieceId ?? 0).toString(),
-          synapse_data_set_id: uploadResult.dataSetId,
-        }
-      } catch (error) {
-        // Rollback on Synapse failure
-        this.logger.error(
-          {
-            event: 'synapse.upload.failed',
-            pinId,
-            error,
-          },
-          'Failed to upload to Filecoin with Synapse, rolling back'
+      // Upload using shared function with pinId as context and IPFS root CID metadata
+      const uploadResult = await this._uploadToSynapse(carData, cid, pinId, [pinId], pinStatus.userId)
+      if (this._isInterrupted(pinId, run)) {
+        this.logger.warn(
+          { pinId, pieceCid: uploadResult.pieceCid, dataSetId: uploadResult.dataSetId },
+          'Piece uploaded by an abandoned run is left in its data set'
         )
+        throw new PinInterruptedError(pinId)
+      }
 
-        // Clean up the CAR file
-        try {
-          await blockstore.cleanup()
-          await unlink(pinStatus.filecoin.carFilePath)
-          this.logger.info(
-            { pinId, carFilePath: pinStatus.filecoin.carFilePath },
-            'Deleted CAR file after Synapse failure'
-          )
-        } catch (cleanupError) {
-          this.logger.warn({ pinId, error: cleanupError }, 'Failed to clean up CAR file')
-        }
-
-        // Re-throw to mark pin as failed
-        throw new Error(`Synapse upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      // Store Synapse metadata
+      filecoin.synapsePieceCid = uploadResult.pieceCid
+      if (uploadResult.pieceId !== undefined) {
+        filecoin.synapsePieceId = uploadResult.pieceId
       }
+      filecoin.synapseDataSetId = uploadResult.dataSetId
 
-      // Update pin status to completed
-      pinStatus.status = 'pinned'
-      pinStatus.filecoin.carStats = finalStats
-      pinStatus.filecoin.pinCompleted = Date.now()
+      // Add to info for API response
       pinStatus.info = {
         ...pinStatus.info,
-        status: 'pinned',
-        blocks_written: finalStats.blocksWritten.toString(),
-        total_size: finalStats.totalSize.toString(),
-        missing_blocks: finalStats.missingBlocks.size.toString(),
-        pin_duration: (pinStatus.filecoin.pinCompleted - pinStatus.filecoin.pinStarted).toString(),
+        synapse_piece_cid: uploadResult.pieceCid,
+        synapse_piece_id: (uploadResult.pieceId ?? 0).toString(),
+        synapse_data_set_id: uploadResult.dataSetId,
       }
-      this.pins.set(pinId, pinStatus)
-
-      // Emit completion event
-      this.emit('pin:car:completed', {
-        pinId,
-        userId: user.id,
-        cid,
-        stats: finalStats,
-        carFilePath: pinStatus.filecoin.carFilePath,
-      })
 
-      this.logger.info({ pinId, cid: cid.toString() }, 'Pin processing completed successfully')
+      // Persist the piece right away so a restart never uploads it twice
+      this.repository?.update(pinId, { info: pinStatus.info, filecoin })
     } catch (error) {
-      this.logger.error({ pinId, cid: cid.toString(), error }, 'Pin processing failed')
-
-      // Update pin status to failed
-      pinStatus.status = 'failed'
-      pinStatus.info = {
-        ...pinStatus.info,
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
+      if (error instanceof PinInterruptedError) {
+        throw error
       }
-      this.pins.set(pinId, pinStatus)
+      this.logger.error(
+        {
+          event: 'synapse.upload.failed',
+          pinId,
+          error,
+        },
+        'Failed to upload to Filecoin with Synapse'
+      )
 
-      this.emit('pin:failed', {
-        pinId,
-        userId: user.id,
-        cid,
-        error,
+      // The finalized CAR stays on disk so the upload can be retried without fetching the DAG again
+      throw new Error(`Synapse upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`, {
+        cause: error,
       })
-    } finally {
-      // Clean up active pin
-      const activePin = this.activePins.get(pinId)
-      if (activePin != null) {
-        await activePin.helia.stop()
-        this.activePins.delete(pinId)
-      }
     }
   }
 
-  async get(_user: PinningServiceUser, id: string): Promise<FilecoinStoredPinStatus | undefined> {
-    return this.pins.get(id)
+  /**
+   * Look up a pin owned by the given user
+   *
+   * Pins belonging to other users are reported as missing rather than forbidden,
+   * so request IDs cannot be probed across tenants.
+   */
+  async get(user: PinningServiceUser, id: string): Promise<FilecoinStoredPinStatus | undefined> {
+    const pinStatus = this.pins.get(id)
+    return pinStatus?.userId === user.id ? pinStatus : undefined
   }
 
   async update(
-    _user: PinningServiceUser,
+    user: PinningServiceUser,
     id: string,
     options: PinOptions
   ): Promise<FilecoinStoredPinStatus | undefined> {
-    const pinStatus = this.pins.get(id)
+    const pinStatus = await this.get(user, id)
     if (pinStatus == null) {
       return undefined
     }
@@ -429,83 +2013,458 @@ export class FilecoinPinStore extends EventEmitter {
     }
     if (options.meta !== undefined) {
       pinStatus.pin.meta = { ...pinStatus.pin.meta, ...options.meta }
+      const webhook = webhookTarget(user, pinStatus.pin.meta)
+      if (webhook != null) {
+        pinStatus.webhook = webhook
+      } else {
+        delete pinStatus.webhook
+      }
+    }
+
+    this.pins.update(id, { pin: pinStatus.pin, ...(options.meta !== undefined && { webhook: pinStatus.webhook }) })
+    return pinStatus
+  }
+
+  /**
+   * Replace a user's pin with a pin of another CID under the same request ID
+   *
+   * The new CID is pinned from scratch. Once its piece is confirmed, the piece
+   * of the replaced pin is removed from its data set; until then the old
+   * content stays retrievable from Filecoin. Replacing a pin with its own CID
+   * only replaces its name, origins and meta.
+   *
+   * @returns undefined if the user has no pin with this ID
+   * @throws PinStoreDrainingError if the queues are being drained
+   * @throws CarStorageFullError if the CAR storage quota is reached and a sweep cannot free any space
+   */
+  async replace(
+    user: PinningServiceUser,
+    id: string,
+    cid: CID,
+    options: PinOptions = {}
+  ): Promise<FilecoinStoredPinStatus | undefined> {
+    const pinStatus = await this.get(user, id)
+    if (pinStatus == null) {
+      return undefined
+    }
+
+    const webhook = webhookTarget(user, options.meta)
+    if (pinStatus.pin.cid === cid.toString()) {
+      pinStatus.pin = pinObject(cid, options)
+      if (webhook != null) {
+        pinStatus.webhook = webhook
+      } else {
+        delete pinStatus.webhook
+      }
+      this.pins.update(id, { pin: pinStatus.pin, webhook: pinStatus.webhook })
+      return pinStatus
+    }
+
+    if (this.draining) {
+      throw new PinStoreDrainingError()
+    }
+    await this._checkCarStorage()
+    await this._abandonRun(id)
+
+    const previous = pinStatus.filecoin
+    const replacedPiece = previous != null ? this._pieceToReplace(pinStatus, previous) : undefined
+    // A duplicate of the old CID may share the CAR
+    if (previous != null && this.pins.carReferences(previous.carFilePath) <= 1) {
+      await this._deleteCarFile(previous.carFilePath, 'replaced', id)
     }
 
-    this.pins.set(id, pinStatus)
+    const { filecoin, info } = this._initialPinState(cid, Date.now())
+    if (replacedPiece != null) {
+      filecoin.replacedPiece = replacedPiece
+    }
+    const previousCid = pinStatus.pin.cid
+    pinStatus.status = 'queued'
+    pinStatus.pin = pinObject(cid, options)
+    pinStatus.filecoin = filecoin
+    pinStatus.info = info
+    if (webhook != null) {
+      pinStatus.webhook = webhook
+    } else {
+      delete pinStatus.webhook
+    }
+    this.pins.update(id, {
+      status: pinStatus.status,
+      pin: pinStatus.pin,
+      info: pinStatus.info,
+      filecoin: pinStatus.filecoin,
+      webhook: pinStatus.webhook,
+    })
+
+    this.logger.info({ userId: user.id, pinId: id, cid: cid.toString(), previousCid, replacedPiece }, 'Replacing pin')
+    this.emit('pin:replaced', { pinId: id, userId: user.id, cid, previousCid, pin: pinStatus })
+    this._schedulePin(id, cid)
     return pinStatus
   }
 
-  async cancel(_user: PinningServiceUser, id: string): Promise<void> {
+  /**
+   * The piece a pin leaves behind when replaced
+   *
+   * A replacement that is itself replaced before its piece is confirmed hands
+   * on the piece it was going to remove.
+   */
+  private _pieceToReplace(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata
+  ): PieceLocation | undefined {
+    const piece = pieceOf(filecoin)
+    if (piece == null) {
+      return filecoin.replacedPiece
+    }
+    if (filecoin.replacedPiece != null) {
+      this._schedulePieceRemoval(pinStatus, filecoin.replacedPiece)
+    }
+    return piece
+  }
+
+  /**
+   * Schedule the removal of the piece of the pin this one replaced, now that the new piece is confirmed
+   */
+  private _removeReplacedPiece(
+    pinStatus: FilecoinStoredPinStatus,
+    filecoin: FilecoinPinMetadata,
+    piece: PieceLocation,
+    run: number
+  ): void {
+    if (this._isInterrupted(pinStatus.id, run)) {
+      throw new PinInterruptedError(pinStatus.id)
+    }
+    const removal = this._schedulePieceRemoval(pinStatus, piece)
+    delete filecoin.replacedPiece
+    if (removal != null) {
+      pinStatus.info = { ...pinStatus.info, replaced_piece_removal: removal.id }
+    }
+    this.repository?.update(pinStatus.id, { info: pinStatus.info, filecoin })
+  }
+
+  private _schedulePieceRemoval(pinStatus: FilecoinStoredPinStatus, piece: PieceLocation): PieceRemoval | undefined {
+    const request: PieceRemovalRequest = { pinId: pinStatus.id, userId: pinStatus.userId, ...piece }
+    return this.pieceRemovals?.schedule(request)
+  }
+
+  /**
+   * Delete a piece from its data set, for the piece remover
+   *
+   * @returns The hash of the transaction that schedules the deletion
+   */
+  private async _deletePiece(removal: PieceRemoval): Promise<string> {
+    const storage = await this._storageForDataSet(removal.userId, removal.dataSetId)
+    return await storage.deletePiece(removal.pieceId ?? removal.pieceCid)
+  }
+
+  /**
+   * A storage context for a data set the server or one of its users uploaded to
+   */
+  private async _storageForDataSet(userId: string, dataSetId: string): Promise<StorageContext> {
+    const candidates = [this.synapseService.storage]
+    if (this.dataSets != null) {
+      candidates.push(await this.dataSets.storageFor(userId))
+    }
+    const storage = candidates.find((candidate) => String(candidate.dataSetId) === dataSetId)
+    if (storage != null) {
+      return storage
+    }
+
+    // Data sets rotated away from are still with the server's provider
+    const context = await createStorageContext(this.synapseService.synapse, this.logger, {
+      dataset: { useExisting: Number(dataSetId) },
+      providerId: this.synapseService.providerInfo.id,
+    })
+    return context.storage
+  }
+
+  /**
+   * Delete a user's pin and its CAR, scheduling the removal of its piece from the data set
+   *
+   * @returns false if the user has no pin with this ID
+   */
+  async cancel(user: PinningServiceUser, id: string): Promise<boolean> {
     // Get the pin to find the CAR file path
-    const pin = this.pins.get(id)
+    const pin = await this.get(user, id)
+    if (pin == null) {
+      return false
+    }
 
-    // Clean up active pin if it exists
-    const activePin = this.activePins.get(id)
-    if (activePin != null) {
-      try {
-        await activePin.blockstore.cleanup()
-        await activePin.helia.stop()
-      } catch (error) {
-        this.logger.warn({ pinId: id, error }, 'Error cleaning up cancelled pin')
+    await this._abandonRun(id)
+
+    // Delete the CAR file if it exists, unless a duplicate shares it
+    if (pin.filecoin?.carFilePath != null && this.pins.carReferences(pin.filecoin.carFilePath) <= 1) {
+      await this._deleteCarFile(pin.filecoin.carFilePath, 'cancelled', id)
+    }
+
+    // Remove the pin record
+    this.pins.delete(id)
+    this.emit('pin:cancelled', { pinId: id, userId: pin.userId })
+
+    // The piece stays if another pin still uses it; so does the piece of a pin this one was replacing
+    for (const piece of [pin.filecoin && pieceOf(pin.filecoin), pin.filecoin?.replacedPiece]) {
+      if (piece != null) {
+        this._schedulePieceRemoval(pin, piece)
       }
-      this.activePins.delete(id)
     }
+    return true
+  }
+
+  /**
+   * Queue a failed pin again, for any user; meant for operators
+   *
+   * A pin whose CAR was finalized goes straight back to upload with a fresh set
+   * of attempts, anything else is fetched again.
+   *
+   * @param options.force - Also restart pins that are queued or pinning, abandoning their work in progress
+   * @returns undefined if there is no pin with this ID
+   * @throws PinNotRetryableError if the pin has not failed, or is pinned when forcing
+   */
+  async retry(id: string, options: { force?: boolean } = {}): Promise<FilecoinStoredPinStatus | undefined> {
+    const pinStatus = this.pins.get(id)
+    if (pinStatus == null) {
+      return undefined
+    }
+    const restart = options.force === true && (pinStatus.status === 'queued' || pinStatus.status === 'pinning')
+    if (pinStatus.status !== 'failed' && !restart) {
+      throw new PinNotRetryableError(id, pinStatus.status)
+    }
+    if (restart) {
+      await this._abandonRun(id)
+    }
+
+    const cid = CID.parse(pinStatus.pin.cid)
+    const previousError = pinStatus.info?.error
+    pinStatus.status = 'queued'
+    pinStatus.info = { ...pinStatus.info, status: 'queued' }
+    for (const key of ['error', 'reason', 'retry_at', 'upload_attempts', 'upload_error', 'upload_error_category']) {
+      delete pinStatus.info[key]
+    }
+    if (pinStatus.filecoin != null) {
+      pinStatus.filecoin.uploadAttempts = 0
+    }
+    this.pins.update(id, { status: pinStatus.status, info: pinStatus.info, filecoin: pinStatus.filecoin })
+
+    this.logger.info(
+      { pinId: id, cid: pinStatus.pin.cid, previousError },
+      restart ? 'Restarting pin' : 'Retrying failed pin'
+    )
+    this._schedulePin(id, cid)
+    return pinStatus
+  }
+
+  /**
+   * Fail a queued or pinning pin of any user; meant for operators
+   *
+   * Work in progress is abandoned, keeping the blocks fetched so far for a
+   * later retry. An upload already sent to the provider cannot be called back.
+   *
+   * @returns undefined if there is no pin with this ID
+   * @throws PinNotFailableError if the pin is already pinned or failed
+   */
+  async fail(id: string, error = 'Failed by operator'): Promise<FilecoinStoredPinStatus | undefined> {
+    const pinStatus = this.pins.get(id)
+    if (pinStatus == null) {
+      return undefined
+    }
+    if (pinStatus.status !== 'queued' && pinStatus.status !== 'pinning') {
+      throw new PinNotFailableError(id, pinStatus.status)
+    }
+
+    await this._abandonRun(id)
+    pinStatus.status = 'failed'
+    pinStatus.info = { ...pinStatus.info, status: 'failed', error, reason: 'operator' }
+    delete pinStatus.info.retry_at
+    this.pins.update(id, { status: pinStatus.status, info: pinStatus.info })
+
+    this.logger.warn({ pinId: id, cid: pinStatus.pin.cid, error }, 'Pin failed by operator')
+    this.emit('pin:failed', {
+      pinId: id,
+      userId: pinStatus.userId,
+      cid: CID.parse(pinStatus.pin.cid),
+      error: new Error(error),
+    })
+    this._notify(pinStatus, 'pin.failed')
+    return pinStatus
+  }
+
+  /**
+   * Abandon a pin's background run, cutting its DAG fetch short if one is in progress
+   */
+  private async _abandonRun(pinId: string): Promise<void> {
+    this.pinRuns.delete(pinId)
+    this.duplicateWaits.get(pinId)?.abort()
 
-    // Delete the CAR file if it exists
-    if (pin?.filecoin?.carFilePath != null) {
+    const activePin = this.activePins.get(pinId)
+    if (activePin != null) {
+      this.activePins.delete(pinId)
       try {
-        await unlink(pin.filecoin.carFilePath)
-        this.logger.info({ pinId: id, carFilePath: pin.filecoin.carFilePath }, 'Deleted CAR file for cancelled pin')
-      } catch (error: any) {
-        // Only warn if it's not a "file not found" error
-        if (error.code !== 'ENOENT') {
-          this.logger.warn({ pinId: id, carFilePath: pin.filecoin.carFilePath, error }, 'Failed to delete CAR file')
-        }
+        activePin.controller.abort()
+        activePin.session.close()
+        await activePin.blockstore.cleanup()
+      } catch (error) {
+        this.logger.warn({ pinId, error }, 'Error cleaning up abandoned pin')
       }
+      this._releaseLiveCar(pinId, activePin.liveCar)
     }
-
-    // Remove the pin from memory
-    this.pins.delete(id)
   }
 
+  /**
+   * List a user's pins, newest first
+   *
+   * `count` is the total number of matching pins, which may exceed the page
+   * returned in `results` when a limit is set.
+   */
   async list(
-    _user: PinningServiceUser,
-    query?: {
-      cid?: string
-      name?: string
-      status?: string
-      limit?: number
-    }
+    user: PinningServiceUser,
+    query: Omit<PinListQuery, 'userId'> = {}
   ): Promise<{
     count: number
     results: FilecoinStoredPinStatus[]
   }> {
-    let results = Array.from(this.pins.values())
+    return await this.listAll({ ...query, userId: user.id })
+  }
 
-    // Apply filters
-    if (query?.cid != null && query.cid.length > 0) {
-      results = results.filter((pin) => pin.pin.cid === query.cid)
+  /**
+   * List pins across users, newest first; meant for operators
+   */
+  async listAll(query: PinListQuery = {}): Promise<{
+    count: number
+    results: FilecoinStoredPinStatus[]
+  }> {
+    return {
+      count: this.pins.count(query),
+      results: this.pins.list(query),
     }
-    if (query?.name != null && query.name.length > 0) {
-      const nameFilter = query.name
-      results = results.filter((pin) => pin.pin.name?.includes(nameFilter) === true)
+  }
+
+  /**
+   * Get the number of pins fetching, uploading and waiting for either
+   */
+  getQueueStats(): { fetch: WorkQueueStats; upload: WorkQueueStats; aggregation?: PinAggregatorStats } {
+    const aggregation = this._aggregationStats()
+    return {
+      fetch: this.fetchQueue.getStats(),
+      upload: this.uploadQueue.getStats(),
+      ...(aggregation != null && { aggregation }),
     }
-    if (query?.status != null) {
-      results = results.filter((pin) => pin.status === query.status)
+  }
+
+  /**
+   * Stop handing out fetch and upload slots; pins already fetching or uploading carry on
+   */
+  pauseQueues(): void {
+    this.fetchQueue.pause()
+    this.uploadQueue.pause()
+    this.logger.info('Pin queues paused')
+  }
+
+  /**
+   * Refuse new pins while the ones already queued are worked through
+   */
+  drainQueues(): void {
+    this.draining = true
+    this.logger.info('Draining pin queues')
+  }
+
+  /**
+   * Undo pauseQueues() and drainQueues()
+   */
+  resumeQueues(): void {
+    this.draining = false
+    this.fetchQueue.resume()
+    this.uploadQueue.resume()
+    this.logger.info('Pin queues resumed')
+  }
+
+  getQueueState(): { paused: boolean; draining: boolean } {
+    return { paused: this.fetchQueue.isPaused, draining: this.draining }
+  }
+
+  /**
+   * Removals of the pieces of deleted and replaced pins, newest first
+   */
+  listPieceRemovals(query: PieceRemovalQuery = {}): PieceRemoval[] {
+    return this._pieceRemover.list(query)
+  }
+
+  /**
+   * Try a failed or skipped piece removal again; meant for operators
+   *
+   * @returns undefined if there is no removal with this ID
+   * @throws PieceRemovalNotRetryableError if the removal has not failed or been skipped
+   */
+  retryPieceRemoval(id: string): PieceRemoval | undefined {
+    return this._pieceRemover.retry(id)
+  }
+
+  private get _pieceRemover(): PieceRemover {
+    if (this.pieceRemovals == null) {
+      throw new Error('Filecoin pin store has not been started')
     }
+    return this.pieceRemovals
+  }
+
+  /**
+   * The data sets users' pins are stored in, or undefined when all pins go to the server's data set
+   */
+  getUserDataSets(): UserDataSet[] | undefined {
+    return this.dataSets?.list()
+  }
 
-    // Apply limit
-    if (query?.limit != null && query.limit > 0) {
-      results = results.slice(0, query.limit)
+  /**
+   * Send a user's future uploads to a new data set of their own
+   *
+   * @throws UserDataSetsDisabledError if users do not have data sets of their own
+   */
+  async rotateUserDataSet(userId: string): Promise<UserDataSet> {
+    if (this.dataSets == null) {
+      throw new UserDataSetsDisabledError()
     }
+    return await this.dataSets.rotate(userId)
+  }
+
+  /**
+   * Find the newest pinned pin of a CID, whoever made it
+   *
+   * Pinned content is public on Filecoin and IPNI anyway, which is what lets
+   * the gateway serve it without a token. Uploaded CARs and partial DAGs are
+   * left out: neither was fetched from the network as the DAG of its CID.
+   */
+  findPinned(cid: CID): FilecoinStoredPinStatus | undefined {
+    return this.pins
+      .list({ cid: [cid.toString()], status: ['pinned'] })
+      .find((pin) => pin.filecoin?.uploaded !== true && pin.info?.partial == null)
+  }
 
-    // Sort by created date (newest first)
-    results.sort((a, b) => b.created - a.created)
+  /**
+   * Count every user's pins in each status
+   */
+  getPinCounts(): Record<StoredPinStatus['status'], number> {
+    return this.pins.countByStatus()
+  }
 
-    return {
-      count: results.length,
-      results,
+  /**
+   * What the user's pins hold, measured against the per-user quotas
+   */
+  getUsage(user: PinningServiceUser): PinUsage {
+    return this.pins.usage(user.id)
+  }
+
+  /**
+   * Webhook deliveries that failed every attempt, newest first
+   */
+  listWebhookDeadLetters(limit?: number): WebhookDeadLetter[] {
+    if (this.webhooks == null) {
+      throw new Error('Filecoin pin store has not been started')
     }
+    return this.webhooks.listDeadLetters(limit)
+  }
+
+  /**
+   * Addresses clients can connect to so the shared node can fetch their content
+   */
+  getDelegates(): string[] {
+    return this.helia?.libp2p.getMultiaddrs().map(String) ?? []
   }
 
   /**
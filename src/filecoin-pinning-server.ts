@@ -1,31 +1,94 @@
-import fastify, { type FastifyInstance, type FastifyRequest } from 'fastify'
+import type { Readable } from 'node:stream'
+import { ethers } from 'ethers'
+import fastify, { type FastifyError, type FastifyInstance, type FastifyReply, type FastifyRequest } from 'fastify'
 import { CID } from 'multiformats/cid'
 import type { Logger } from 'pino'
-import type { Config } from './core/synapse/index.js'
-import { setupSynapse } from './core/synapse/index.js'
-import { FilecoinPinStore, type PinOptions } from './filecoin-pin-store.js'
+import { getPaymentStatus, USDFC_DECIMALS } from './core/payments/index.js'
+import type { Config, SynapseService } from './core/synapse/index.js'
+import { createStorageContext, setupSynapse } from './core/synapse/index.js'
+import {
+  CarStorageFullError,
+  FilecoinPinStore,
+  type FilecoinStoredPinStatus,
+  InvalidCarError,
+  PinLimitExceededError,
+  PinNotFailableError,
+  PinNotRetryableError,
+  type PinningServiceUser,
+  type PinOptions,
+  PinStoreDrainingError,
+  UserDataSetsDisabledError,
+  WEBHOOK_URL_META_KEY,
+} from './filecoin-pin-store.js'
+import {
+  API_FORMATS,
+  addPinSchema,
+  failure,
+  getPinSchema,
+  listPinsSchema,
+  type RouteSchema,
+  removePinSchema,
+  replacePinSchema,
+  streamCarSchema,
+  uploadCarSchema,
+  usageRouteSchema,
+} from './pinning/api-schemas.js'
+import { encodeCarHeader } from './pinning/car-aggregation.js'
+import { openDatabase } from './pinning/database.js'
+import {
+  CAR_CONTENT_TYPE,
+  encodeCarBlock,
+  findCarBlock,
+  GatewayError,
+  negotiateGatewayFormat,
+  openPinCar,
+  parseDagScope,
+  RAW_CONTENT_TYPE,
+} from './pinning/gateway.js'
+import {
+  DEFAULT_LIST_LIMIT,
+  DEFAULT_LIST_STATUS,
+  InvalidPinListQueryError,
+  MAX_LIST_LIMIT,
+  type PinListQuerystring,
+  parseMeta,
+  parsePinListQuery,
+} from './pinning/list-query.js'
+import { METRICS_CONTENT_TYPE, PinningMetrics } from './pinning/metrics.js'
+import { createOpenApiDocument, type DocumentedRoute } from './pinning/openapi.js'
+import {
+  type PieceRemoval,
+  PieceRemovalNotRetryableError,
+  type PieceRemovalQuery,
+  type PieceRemovalStatus,
+} from './pinning/piece-removals.js'
+import {
+  formatServerSentEvent,
+  isFinalPinStatus,
+  pinStatusEvent,
+  subscribeToPinProgress,
+} from './pinning/pin-events.js'
+import { RateLimiter, rateLimitHook } from './pinning/rate-limiter.js'
+import { TokenStore } from './pinning/token-store.js'
+import type { UserDataSet } from './pinning/user-data-sets.js'
+import { isPublicWebhookUrl } from './pinning/webhooks.js'
 import type { ServiceInfo } from './server.js'
 import { parseProviderOptions } from './utils/cli-auth.js'
 
+/** Comment lines sent on idle event streams (ms), so proxies don't time them out */
+const EVENT_STREAM_HEARTBEAT_INTERVAL = 15_000
+
 declare module 'fastify' {
   interface FastifyRequest {
-    user?: {
-      id: string
-      name: string
-    }
+    user?: PinningServiceUser
   }
 }
 
-const DEFAULT_USER_INFO = {
-  id: 'default-user',
-  name: 'Default User',
-}
-
 export async function createFilecoinPinningServer(
   config: Config,
   logger: Logger,
   serviceInfo: ServiceInfo
-): Promise<{ server: FastifyInstance; pinStore: FilecoinPinStore }> {
+): Promise<{ server: FastifyInstance; pinStore: FilecoinPinStore; tokenStore: TokenStore }> {
   // Set up Synapse service
   if (!config.privateKey) {
     throw new Error('PRIVATE_KEY environment variable is required to start the pinning server')
@@ -43,11 +106,19 @@ export async function createFilecoinPinningServer(
     providerOptions
   )
 
+  // Pins and access tokens share one database, closed when the server closes
+  const database = await openDatabase(config.databasePath, logger)
+  const tokenStore = new TokenStore(database)
+  if (tokenStore.countActive() === 0) {
+    logger.warn('No access tokens have been issued; create one with `filecoin-pin token create <user-id>`')
+  }
+
   // Create our custom Filecoin pin store with Synapse service
   const filecoinPinStore = new FilecoinPinStore({
     config,
     logger,
     synapseService,
+    database,
   })
 
   // Set up event handlers for monitoring
@@ -89,6 +160,20 @@ export async function createFilecoinPinningServer(
     )
   })
 
+  filecoinPinStore.on('pin:upload:retry', (data) => {
+    logger.warn(
+      {
+        pinId: data.pinId,
+        userId: data.userId,
+        cid: data.cid.toString(),
+        attempts: data.attempts,
+        category: data.category,
+        delay: data.delay,
+      },
+      'Upload failed for pin, will retry'
+    )
+  })
+
   filecoinPinStore.on('pin:failed', (data) => {
     logger.error(
       {
@@ -104,6 +189,37 @@ export async function createFilecoinPinningServer(
   // Create a custom Fastify server
   const server = fastify({
     logger: false, // We'll use our own logger
+    trustProxy: config.trustProxy,
+    ajv: { customOptions: { formats: API_FORMATS } },
+  })
+
+  // Routes with schemas make up the OpenAPI document. The admin API, metrics, pin retries, event streams and the
+  // gateway are left out on purpose: they are not part of the Pinning Service API that client generators target.
+  const documentedRoutes: DocumentedRoute[] = []
+  server.addHook('onRoute', (route) => {
+    if (route.schema == null) {
+      return
+    }
+    for (const method of [route.method].flat()) {
+      if (method !== 'HEAD') {
+        documentedRoutes.push({ method, url: route.url, schema: route.schema as RouteSchema })
+      }
+    }
+  })
+  let openApiDocument: ReturnType<typeof createOpenApiDocument> | undefined
+
+  // Every failure gets a spec-shaped body, including those of requests that fail validation
+  server.setErrorHandler(async (error: FastifyError, request, reply) => {
+    const statusCode = error.statusCode != null && error.statusCode >= 400 ? error.statusCode : 500
+    if (statusCode >= 500) {
+      logger.error({ error, method: request.method, url: request.url }, 'Request failed')
+      await reply.code(statusCode).send(failure(statusCode, 'Internal server error'))
+      return
+    }
+    await reply.code(statusCode).send(failure(statusCode, error.message))
+  })
+  server.setNotFoundHandler(async (request, reply) => {
+    await reply.code(404).send(failure(404, `Route ${request.method} ${request.url} not found`))
   })
 
   // Add root route for health check (no auth required)
@@ -112,30 +228,78 @@ export async function createFilecoinPinningServer(
       service: serviceInfo.service,
       version: serviceInfo.version,
       status: 'ok',
+      queue: filecoinPinStore.getQueueStats(),
     })
   })
 
+  // OpenAPI document of the pinning routes, public so client generators can fetch it
+  server.get('/openapi.json', async (_request, reply) => {
+    openApiDocument ??= createOpenApiDocument(
+      { title: serviceInfo.service, version: serviceInfo.version },
+      documentedRoutes
+    )
+    await reply.send(openApiDocument)
+  })
+
+  // Throttle clients by IP before authenticating them, sparing the health check
+  const ipLimits = { read: new RateLimiter(config.rateLimitIpReads), write: new RateLimiter(config.rateLimitIpWrites) }
+  server.addHook(
+    'onRequest',
+    rateLimitHook(ipLimits, (request) => (request.url === '/' ? undefined : request.ip))
+  )
+
   // Add authentication hook
   server.addHook('preHandler', async (request, reply) => {
-    // Skip auth for root health check
-    if (request.url === '/') {
+    // Skip auth for root health check, the OpenAPI document and the public gateway, whatever their query strings
+    const route = request.routeOptions.url
+    if (route === '/' || route === '/openapi.json' || route?.startsWith('/ipfs/') === true) {
       return
     }
 
     const authHeader = request.headers.authorization
     if (authHeader?.startsWith('Bearer ') !== true) {
-      await reply.code(401).send({ error: 'Missing or invalid authorization header' })
+      await reply.code(401).send(failure(401, 'Missing or invalid authorization header'))
       return
     }
 
-    const token = authHeader.slice(7) // Remove 'Bearer ' prefix
-    if (token.trim().length === 0) {
-      await reply.code(401).send({ error: 'Invalid access token' })
+    const token = authHeader.slice(7).trim() // Remove 'Bearer ' prefix
+    const user = token.length > 0 ? tokenStore.authenticate(token) : undefined
+    if (user == null) {
+      await reply.code(401).send(failure(401, 'Invalid access token'))
       return
     }
 
     // Add user to request context
-    request.user = DEFAULT_USER_INFO
+    request.user = user
+  })
+
+  // Throttle each access token; runs after authentication, so only authenticated requests are charged
+  const tokenLimits = { read: new RateLimiter(config.rateLimitReads), write: new RateLimiter(config.rateLimitWrites) }
+  server.addHook(
+    'preHandler',
+    rateLimitHook(tokenLimits, (request) => request.user?.tokenId)
+  )
+
+  const metrics = new PinningMetrics({ pinStore: filecoinPinStore, synapseService, logger })
+
+  // Prometheus metrics (admin only); scrape with an admin token as the bearer credential
+  server.get('/metrics', async (request, reply) => {
+    if (request.user?.admin !== true) {
+      await reply.code(403).send(failure(403, 'Admin access required'))
+      return
+    }
+
+    try {
+      await reply.type(METRICS_CONTENT_TYPE).send(await metrics.render())
+    } catch (error) {
+      logger.error({ error }, 'Failed to render metrics')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+    }
+  })
+
+  server.addHook('onClose', async () => {
+    await filecoinPinStore.stop()
+    database.close()
   })
 
   // Add our custom pin store to the Fastify context
@@ -144,9 +308,30 @@ export async function createFilecoinPinningServer(
   // Register custom routes that use our pin store
   await server.register(async (fastify) => {
     // Override the default routes with our custom implementations
-    await registerCustomPinRoutes(fastify, filecoinPinStore, logger)
+    await registerCustomPinRoutes(fastify, filecoinPinStore, config, logger)
+  })
+
+  await server.register(async (fastify) => {
+    await registerUploadRoutes(fastify, filecoinPinStore, config, logger)
+  })
+
+  await server.register(async (fastify) => {
+    await registerGatewayRoutes(fastify, filecoinPinStore, synapseService, logger)
   })
 
+  // Operator routes, all of them admin only
+  await server.register(
+    async (fastify) => {
+      fastify.addHook('preHandler', async (request, reply) => {
+        if (request.user?.admin !== true) {
+          await reply.code(403).send(failure(403, 'Admin access required'))
+        }
+      })
+      await registerAdminRoutes(fastify, filecoinPinStore, synapseService, logger)
+    },
+    { prefix: '/admin' }
+  )
+
   await filecoinPinStore.start()
 
   // Start listening
@@ -160,109 +345,197 @@ export async function createFilecoinPinningServer(
   return {
     server,
     pinStore: filecoinPinStore,
+    tokenStore,
+  }
+}
+
+/**
+ * Check a pin's `meta.webhook_url`, if it sets one
+ *
+ * @returns An error message for the client, or undefined if the metadata is fine
+ */
+async function checkWebhookMeta(meta: Record<string, string> | undefined, config: Config): Promise<string | undefined> {
+  const url = meta?.[WEBHOOK_URL_META_KEY]
+  if (url != null && url !== '' && !(await isPublicWebhookUrl(url, config.webhookAllowedHosts))) {
+    return `Invalid ${WEBHOOK_URL_META_KEY}: expected an http or https URL on a public host`
   }
+  return undefined
+}
+
+/**
+ * Body of the routes that create and replace pins, as validated by their schema
+ */
+interface PinBody {
+  cid: string
+  name?: string
+  origins?: string[]
+  meta?: Record<string, string>
 }
 
 async function registerCustomPinRoutes(
   fastify: FastifyInstance,
   pinStore: FilecoinPinStore,
+  config: Config,
   logger: Logger
 ): Promise<void> {
   // POST /pins - Create a new pin
-  fastify.post(
-    '/pins',
-    async (
-      request: FastifyRequest<{
-        Body: { cid?: string; name?: string; origins?: string[]; meta?: Record<string, string> }
-      }>,
-      reply
-    ) => {
+  fastify.post('/pins', { schema: addPinSchema }, async (request: FastifyRequest<{ Body: PinBody }>, reply) => {
+    try {
+      const { cid, name, origins, meta } = request.body
+      // The schema has checked the CID's format
+      const cidObject = CID.parse(cid)
+
+      const webhookError = await checkWebhookMeta(meta, config)
+      if (webhookError != null) {
+        await reply.code(400).send(failure(400, webhookError))
+        return
+      }
+
+      const pinOptions: PinOptions = {}
+      if (name != null) pinOptions.name = name
+      if (origins != null) pinOptions.origins = origins
+      if (meta != null) pinOptions.meta = meta
+      if (request.user == null) {
+        await reply.code(401).send(failure(401, 'Unauthorized'))
+        return
+      }
+      let result: FilecoinStoredPinStatus
       try {
-        const { cid, name, origins, meta } = request.body
-        if (cid == null) {
-          await reply.code(400).send({ error: 'Missing required field: cid' })
+        result = await pinStore.pin(request.user, cidObject, pinOptions)
+      } catch (error) {
+        if (error instanceof CarStorageFullError) {
+          await reply.code(507).send(failure(507, error.message))
           return
         }
-
-        // Parse the CID string to CID object
-        let cidObject: CID
-        try {
-          cidObject = CID.parse(cid)
-        } catch (_error) {
-          await reply.code(400).send({ error: `Invalid CID format: ${cid}` })
+        if (error instanceof PinStoreDrainingError) {
+          await reply.code(503).send(failure(503, error.message))
           return
         }
+        throw error
+      }
 
-        const pinOptions: PinOptions = {}
-        if (name != null) pinOptions.name = name
-        if (origins != null) pinOptions.origins = origins
-        if (meta != null) pinOptions.meta = meta
+      await reply.code(202).send({
+        requestid: result.id,
+        status: result.status,
+        created: new Date(result.created).toISOString(),
+        pin: result.pin,
+        delegates: pinStore.getDelegates(),
+        info: result.info,
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to create pin')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+    }
+  })
+
+  // GET /pins/:requestId - Get pin status
+  fastify.get(
+    '/pins/:requestId',
+    { schema: getPinSchema },
+    async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
+      try {
         if (request.user == null) {
-          await reply.code(401).send({ error: 'Unauthorized' })
+          await reply.code(401).send(failure(401, 'Unauthorized'))
+          return
+        }
+        const result = await pinStore.get(request.user, request.params.requestId)
+        if (result == null) {
+          await reply.code(404).send(failure(404, 'Pin not found'))
           return
         }
-        const result = await pinStore.pin(request.user, cidObject, pinOptions)
 
-        await reply.code(202).send({
+        await reply.send({
           requestid: result.id,
           status: result.status,
           created: new Date(result.created).toISOString(),
           pin: result.pin,
-          delegates: [],
+          delegates: pinStore.getDelegates(),
           info: result.info,
         })
       } catch (error) {
-        logger.error({ error }, 'Failed to create pin')
-        await reply.code(500).send({ error: 'Internal server error' })
+        logger.error({ error }, 'Failed to get pin status')
+        await reply.code(500).send(failure(500, 'Internal server error'))
       }
     }
   )
 
-  // GET /pins/:requestId - Get pin status
-  fastify.get('/pins/:requestId', async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
+  // Open event streams, ended when the server closes so they don't hold it open
+  const eventStreams = new Set<() => void>()
+  fastify.addHook('preClose', async () => {
+    for (const end of eventStreams) {
+      end()
+    }
+  })
+
+  // GET /pins/:requestId/events - Stream a pin's progress as server-sent events
+  fastify.get('/pins/:requestId/events', async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
     try {
       if (request.user == null) {
-        await reply.code(401).send({ error: 'Unauthorized' })
+        await reply.code(401).send(failure(401, 'Unauthorized'))
         return
       }
       const result = await pinStore.get(request.user, request.params.requestId)
       if (result == null) {
-        await reply.code(404).send({ error: 'Pin not found' })
+        await reply.code(404).send(failure(404, 'Pin not found'))
         return
       }
 
-      await reply.send({
-        requestid: result.id,
-        status: result.status,
-        created: new Date(result.created).toISOString(),
-        pin: result.pin,
-        delegates: [],
-        info: result.info,
+      reply.hijack()
+      const stream = reply.raw
+      stream.writeHead(200, {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache',
+        connection: 'keep-alive',
+        // Stop reverse proxies from buffering the stream
+        'x-accel-buffering': 'no',
+      })
+      stream.write(formatServerSentEvent(pinStatusEvent(result)))
+      if (isFinalPinStatus(result.status)) {
+        stream.end()
+        return
+      }
+
+      const heartbeat = setInterval(() => stream.write(': keep-alive\n\n'), EVENT_STREAM_HEARTBEAT_INTERVAL)
+      heartbeat.unref()
+      const end = (): void => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        eventStreams.delete(end)
+        stream.end()
+      }
+      const unsubscribe = subscribeToPinProgress(pinStore, result.id, {
+        onEvent: (event) => stream.write(formatServerSentEvent(event)),
+        onEnd: end,
       })
+      eventStreams.add(end)
+      stream.on('close', end)
     } catch (error) {
-      logger.error({ error }, 'Failed to get pin status')
-      await reply.code(500).send({ error: 'Internal server error' })
+      logger.error({ error }, 'Failed to stream pin events')
+      if (!reply.sent) {
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
     }
   })
 
   // GET /pins - List pins
   fastify.get(
     '/pins',
-    async (
-      request: FastifyRequest<{ Querystring: { cid?: string; name?: string; status?: string; limit?: string } }>,
-      reply
-    ) => {
+    { schema: listPinsSchema },
+    async (request: FastifyRequest<{ Querystring: PinListQuerystring }>, reply) => {
       try {
-        const { cid, name, status, limit } = request.query
-        const limitNum = limit != null ? parseInt(limit, 10) : undefined
-        const listQuery: Parameters<typeof pinStore.list>[1] = {}
-        if (cid != null) listQuery.cid = cid
-        if (name != null) listQuery.name = name
-        if (status != null) listQuery.status = status
-        if (limitNum != null && !Number.isNaN(limitNum)) listQuery.limit = limitNum
+        let listQuery: ReturnType<typeof parsePinListQuery>
+        try {
+          listQuery = { status: [...DEFAULT_LIST_STATUS], ...parsePinListQuery(request.query) }
+        } catch (error) {
+          if (error instanceof InvalidPinListQueryError) {
+            await reply.code(400).send(failure(400, error.message))
+            return
+          }
+          throw error
+        }
 
         if (request.user == null) {
-          await reply.code(401).send({ error: 'Unauthorized' })
+          await reply.code(401).send(failure(401, 'Unauthorized'))
           return
         }
         const result = await pinStore.list(request.user, listQuery)
@@ -272,7 +545,7 @@ async function registerCustomPinRoutes(
           status: pin.status,
           created: new Date(pin.created).toISOString(),
           pin: pin.pin,
-          delegates: [],
+          delegates: pinStore.getDelegates(),
           info: pin.info,
         }))
 
@@ -282,44 +555,704 @@ async function registerCustomPinRoutes(
         })
       } catch (error) {
         logger.error({ error }, 'Failed to list pins')
-        await reply.code(500).send({ error: 'Internal server error' })
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
+    }
+  )
+
+  // POST /pins/:requestId - Replace a pin with a pin of another CID, keeping its request ID
+  fastify.post(
+    '/pins/:requestId',
+    { schema: replacePinSchema },
+    async (request: FastifyRequest<{ Params: { requestId: string }; Body: PinBody }>, reply) => {
+      try {
+        const { cid, name, origins, meta } = request.body
+        // The schema has checked the CID's format
+        const cidObject = CID.parse(cid)
+
+        const webhookError = await checkWebhookMeta(meta, config)
+        if (webhookError != null) {
+          await reply.code(400).send(failure(400, webhookError))
+          return
+        }
+
+        const pinOptions: PinOptions = {}
+        if (name != null) pinOptions.name = name
+        if (origins != null) pinOptions.origins = origins
+        if (meta != null) pinOptions.meta = meta
+        if (request.user == null) {
+          await reply.code(401).send(failure(401, 'Unauthorized'))
+          return
+        }
+        let result: FilecoinStoredPinStatus | undefined
+        try {
+          result = await pinStore.replace(request.user, request.params.requestId, cidObject, pinOptions)
+        } catch (error) {
+          if (error instanceof CarStorageFullError) {
+            await reply.code(507).send(failure(507, error.message))
+            return
+          }
+          if (error instanceof PinStoreDrainingError) {
+            await reply.code(503).send(failure(503, error.message))
+            return
+          }
+          throw error
+        }
+        if (result == null) {
+          await reply.code(404).send(failure(404, 'Pin not found'))
+          return
+        }
+
+        await reply.code(202).send({
+          requestid: result.id,
+          status: result.status,
+          created: new Date(result.created).toISOString(),
+          pin: result.pin,
+          delegates: pinStore.getDelegates(),
+          info: result.info,
+        })
+      } catch (error) {
+        logger.error({ error }, 'Failed to replace pin')
+        await reply.code(500).send(failure(500, 'Internal server error'))
       }
     }
   )
 
-  // POST /pins/:requestId - Update pin (not commonly used)
-  fastify.post('/pins/:requestId', async (request: any, reply: any) => {
+  // DELETE /pins/:requestId - Cancel/delete pin and clean up CAR file
+  fastify.delete(
+    '/pins/:requestId',
+    { schema: removePinSchema },
+    async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
+      try {
+        if (request.user == null) {
+          await reply.code(401).send(failure(401, 'Unauthorized'))
+          return
+        }
+        const cancelled = await pinStore.cancel(request.user, request.params.requestId)
+        if (!cancelled) {
+          await reply.code(404).send(failure(404, 'Pin not found'))
+          return
+        }
+        await reply.code(202).send()
+      } catch (error) {
+        logger.error({ error }, 'Failed to cancel pin')
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
+    }
+  )
+
+  // POST /pins/:requestId/retry - Admin: re-queue a failed pin belonging to any user
+  fastify.post('/pins/:requestId/retry', async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
     try {
-      const { name, origins, meta } = request.body
-      const result = await pinStore.update(request.user, request.params.requestId, { name, origins, meta })
+      if (request.user?.admin !== true) {
+        await reply.code(403).send(failure(403, 'Admin access required'))
+        return
+      }
 
+      let result: FilecoinStoredPinStatus | undefined
+      try {
+        result = await pinStore.retry(request.params.requestId)
+      } catch (error) {
+        if (error instanceof PinNotRetryableError) {
+          await reply.code(409).send(failure(409, error.message))
+          return
+        }
+        throw error
+      }
       if (result == null) {
-        await reply.code(404).send({ error: 'Pin not found' })
+        await reply.code(404).send(failure(404, 'Pin not found'))
+        return
+      }
+
+      await reply.code(202).send({
+        requestid: result.id,
+        status: result.status,
+        created: new Date(result.created).toISOString(),
+        pin: result.pin,
+        delegates: pinStore.getDelegates(),
+        info: result.info,
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to retry pin')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+    }
+  })
+
+  // GET /usage - What the caller's pins hold, and the limits they are held to
+  fastify.get('/usage', { schema: usageRouteSchema }, async (request, reply) => {
+    try {
+      if (request.user == null) {
+        await reply.code(401).send(failure(401, 'Unauthorized'))
         return
       }
 
+      const usage = pinStore.getUsage(request.user)
+      const limit = (value: number) => (value > 0 ? value : null)
       await reply.send({
+        pins: usage.pins,
+        total_size: usage.bytes,
+        blocks: usage.blocks,
+        limits: {
+          pin_max_bytes: limit(config.pinMaxBytes),
+          pin_max_blocks: limit(config.pinMaxBlocks),
+          user_max_bytes: limit(config.userMaxBytes),
+          user_max_blocks: limit(config.userMaxBlocks),
+        },
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to get usage')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+    }
+  })
+}
+
+/**
+ * Query parameters of the upload routes, as validated by their schema
+ */
+interface UploadQuerystring {
+  name?: string
+  /** JSON object of strings */
+  meta?: string
+}
+
+/**
+ * Pin CARs that clients send, for clients that have the DAG but no libp2p node to serve it from
+ */
+async function registerUploadRoutes(
+  fastify: FastifyInstance,
+  pinStore: FilecoinPinStore,
+  config: Config,
+  logger: Logger
+): Promise<void> {
+  const pinUpload = async (
+    request: FastifyRequest<{ Querystring: UploadQuerystring }>,
+    reply: FastifyReply,
+    car: Uint8Array | AsyncIterable<Uint8Array> | undefined
+  ): Promise<void> => {
+    if (request.user == null) {
+      await reply.code(401).send(failure(401, 'Unauthorized'))
+      return
+    }
+    // Other content types still reach the route, parsed by Fastify's own parsers
+    const contentType = request.headers['content-type']?.split(';')[0]?.trim().toLowerCase()
+    if (contentType !== CAR_CONTENT_TYPE || car == null) {
+      await reply.code(415).send(failure(415, `Send the CAR as ${CAR_CONTENT_TYPE}`))
+      return
+    }
+
+    const pinOptions: PinOptions = {}
+    if (request.query.name != null) pinOptions.name = request.query.name
+    if (request.query.meta != null) {
+      try {
+        pinOptions.meta = parseMeta(request.query.meta)
+      } catch (error) {
+        if (error instanceof InvalidPinListQueryError) {
+          await reply.code(400).send(failure(400, error.message))
+          return
+        }
+        throw error
+      }
+      const webhookError = await checkWebhookMeta(pinOptions.meta, config)
+      if (webhookError != null) {
+        await reply.code(400).send(failure(400, webhookError))
+        return
+      }
+    }
+
+    let result: FilecoinStoredPinStatus
+    try {
+      result = await pinStore.pinCar(request.user, car, pinOptions)
+    } catch (error) {
+      if (error instanceof InvalidCarError) {
+        await reply.code(400).send(failure(400, error.message))
+        return
+      }
+      if (error instanceof PinLimitExceededError) {
+        await reply.code(413).send(failure(413, error.message))
+        return
+      }
+      if (error instanceof CarStorageFullError) {
+        await reply.code(507).send(failure(507, error.message))
+        return
+      }
+      if (error instanceof PinStoreDrainingError) {
+        await reply.code(503).send(failure(503, error.message))
+        return
+      }
+      logger.error({ error }, 'Failed to pin uploaded CAR')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+      return
+    }
+
+    await reply.code(202).send({
+      requestid: result.id,
+      status: result.status,
+      created: new Date(result.created).toISOString(),
+      pin: result.pin,
+      delegates: pinStore.getDelegates(),
+      info: result.info,
+    })
+  }
+
+  // POST /upload - Pin a CAR received in full, up to UPLOAD_MAX_BYTES
+  await fastify.register(async (buffered) => {
+    buffered.addContentTypeParser(
+      CAR_CONTENT_TYPE,
+      { parseAs: 'buffer', bodyLimit: config.uploadMaxBytes },
+      (_request, body, done) => {
+        done(null, body)
+      }
+    )
+    buffered.post(
+      '/upload',
+      { schema: uploadCarSchema },
+      async (request: FastifyRequest<{ Querystring: UploadQuerystring; Body: Buffer | undefined }>, reply) => {
+        await pinUpload(request, reply, request.body)
+      }
+    )
+  })
+
+  // POST /upload/stream - Pin a CAR of any size, written to disk as it arrives
+  await fastify.register(async (streamed) => {
+    streamed.addContentTypeParser(CAR_CONTENT_TYPE, (_request, payload, done) => {
+      done(null, payload)
+    })
+    streamed.post(
+      '/upload/stream',
+      { schema: streamCarSchema },
+      async (request: FastifyRequest<{ Querystring: UploadQuerystring; Body: Readable | undefined }>, reply) => {
+        await pinUpload(request, reply, request.body)
+      }
+    )
+  })
+}
+
+/**
+ * Serve pinned content as a trustless gateway, answering with CARs or raw blocks only
+ */
+async function registerGatewayRoutes(
+  fastify: FastifyInstance,
+  pinStore: FilecoinPinStore,
+  synapseService: SynapseService,
+  logger: Logger
+): Promise<void> {
+  // GET /ipfs/:cid - Public; clients verify every block against the CIDs they asked for
+  fastify.get(
+    '/ipfs/:cid',
+    async (
+      request: FastifyRequest<{ Params: { cid: string }; Querystring: { format?: string; 'dag-scope'?: string } }>,
+      reply
+    ) => {
+      try {
+        let cid: CID
+        try {
+          cid = CID.parse(request.params.cid)
+        } catch {
+          await reply.code(400).send(failure(400, `Invalid CID format: ${request.params.cid}`))
+          return
+        }
+
+        const format = negotiateGatewayFormat(request.query.format, request.headers.accept)
+        if (format == null) {
+          await reply
+            .code(406)
+            .send(failure(406, `Only ${CAR_CONTENT_TYPE} and ${RAW_CONTENT_TYPE} responses are served`))
+          return
+        }
+        const scope = format === 'car' ? parseDagScope(request.query['dag-scope']) : 'block'
+
+        const pin = pinStore.findPinned(cid)
+        if (pin == null) {
+          await reply.code(404).send(failure(404, 'Content not pinned'))
+          return
+        }
+
+        const etag = format === 'raw' ? `"${cid}.raw"` : `"${cid}.car.${scope}"`
+        void reply.headers({
+          etag,
+          'cache-control': 'public, max-age=29030400, immutable',
+          'x-content-type-options': 'nosniff',
+          'x-ipfs-path': `/ipfs/${cid}`,
+          'x-ipfs-roots': cid.toString(),
+          vary: 'Accept',
+        })
+        if (request.headers['if-none-match'] === etag) {
+          await reply.code(304).send()
+          return
+        }
+
+        const contentType = format === 'car' ? `${CAR_CONTENT_TYPE}; version=1; order=unk; dups=n` : RAW_CONTENT_TYPE
+        const filename = format === 'car' ? `${cid}.car` : `${cid}.bin`
+        if (request.method === 'HEAD') {
+          await reply.type(contentType).header('content-disposition', `attachment; filename="${filename}"`).send()
+          return
+        }
+
+        // Stop downloading the piece if the client goes away
+        const controller = new AbortController()
+        reply.raw.once('close', () => controller.abort())
+        const car = await openPinCar(pin, cid, synapseService.providerInfo, controller.signal)
+
+        let body: Readable | Buffer = car
+        if (scope === 'block') {
+          const block = await findCarBlock(car, cid)
+          if (block == null) {
+            await reply.code(502).send(failure(502, 'Pin content does not hold its root block'))
+            return
+          }
+          body =
+            format === 'car' ? Buffer.concat([encodeCarHeader([cid]), encodeCarBlock(cid, block)]) : Buffer.from(block)
+        }
+        await reply.type(contentType).header('content-disposition', `attachment; filename="${filename}"`).send(body)
+      } catch (error) {
+        if (error instanceof GatewayError) {
+          logger.warn({ cid: request.params.cid, error }, 'Gateway request failed')
+          await reply.code(error.statusCode).send(failure(error.statusCode, error.message))
+          return
+        }
+        logger.error({ error }, 'Failed to serve gateway request')
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
+    }
+  )
+}
+
+/**
+ * The storage context new uploads go to
+ */
+function storageStatus(synapseService: SynapseService, pinStore: FilecoinPinStore): Record<string, unknown> {
+  const { storage, providerInfo } = synapseService
+  const userDataSets = pinStore.getUserDataSets()
+  return {
+    data_set_id: storage.dataSetId ?? null,
+    provider: {
+      id: providerInfo.id,
+      name: providerInfo.name,
+      address: providerInfo.serviceProvider,
+      service_url: providerInfo.products.PDP?.data.serviceURL ?? null,
+    },
+    ...(userDataSets != null && { user_data_sets: userDataSets.map(userDataSetStatus) }),
+  }
+}
+
+const PIECE_REMOVAL_STATUSES: readonly PieceRemovalStatus[] = ['pending', 'removing', 'removed', 'skipped', 'failed']
+
+/**
+ * A piece removal as reported by the admin API
+ */
+function pieceRemovalStatus(removal: PieceRemoval): Record<string, unknown> {
+  return {
+    id: removal.id,
+    requestid: removal.pinId,
+    user: removal.userId,
+    piece_cid: removal.pieceCid,
+    piece_id: removal.pieceId ?? null,
+    data_set_id: removal.dataSetId,
+    status: removal.status,
+    attempts: removal.attempts,
+    error: removal.error ?? null,
+    tx_hash: removal.txHash ?? null,
+    created: new Date(removal.created).toISOString(),
+    updated: new Date(removal.updated).toISOString(),
+  }
+}
+
+/**
+ * A user's data set as reported by the admin API; `data_set_id` is null until the user's next upload creates it
+ */
+function userDataSetStatus(dataSet: UserDataSet): Record<string, unknown> {
+  return {
+    user: dataSet.userId,
+    data_set_id: dataSet.dataSetId ?? null,
+    created: new Date(dataSet.created).toISOString(),
+  }
+}
+
+/**
+ * Let operators inspect and steer the server: pins of every user, the work queues, the wallet and the storage context
+ */
+async function registerAdminRoutes(
+  fastify: FastifyInstance,
+  pinStore: FilecoinPinStore,
+  synapseService: SynapseService,
+  logger: Logger
+): Promise<void> {
+  // GET /admin/pins - List pins across users, optionally those of one `user`
+  fastify.get(
+    '/pins',
+    async (request: FastifyRequest<{ Querystring: PinListQuerystring & { user?: string } }>, reply) => {
+      try {
+        let listQuery: ReturnType<typeof parsePinListQuery>
+        try {
+          listQuery = parsePinListQuery(request.query)
+        } catch (error) {
+          if (error instanceof InvalidPinListQueryError) {
+            await reply.code(400).send(failure(400, error.message))
+            return
+          }
+          throw error
+        }
+
+        const { user } = request.query
+        const result = await pinStore.listAll({ ...listQuery, ...(user != null && { userId: user }) })
+        await reply.send({
+          count: result.count,
+          results: result.results.map((pin) => ({
+            requestid: pin.id,
+            user: pin.userId,
+            status: pin.status,
+            created: new Date(pin.created).toISOString(),
+            pin: pin.pin,
+            delegates: pinStore.getDelegates(),
+            info: pin.info,
+          })),
+        })
+      } catch (error) {
+        logger.error({ error }, 'Failed to list pins for admin')
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
+    }
+  )
+
+  // POST /admin/pins/:requestId/retry - Re-queue a failed pin, or restart a queued or pinning one
+  fastify.post('/pins/:requestId/retry', async (request: FastifyRequest<{ Params: { requestId: string } }>, reply) => {
+    try {
+      let result: FilecoinStoredPinStatus | undefined
+      try {
+        result = await pinStore.retry(request.params.requestId, { force: true })
+      } catch (error) {
+        if (error instanceof PinNotRetryableError) {
+          await reply.code(409).send(failure(409, error.message))
+          return
+        }
+        throw error
+      }
+      if (result == null) {
+        await reply.code(404).send(failure(404, 'Pin not found'))
+        return
+      }
+
+      await reply.code(202).send({
         requestid: result.id,
+        user: result.userId,
         status: result.status,
         created: new Date(result.created).toISOString(),
         pin: result.pin,
-        delegates: [],
+        delegates: pinStore.getDelegates(),
         info: result.info,
       })
     } catch (error) {
-      logger.error({ error }, 'Failed to update pin')
-      await reply.code(500).send({ error: 'Internal server error' })
+      logger.error({ error }, 'Failed to force-retry pin')
+      await reply.code(500).send(failure(500, 'Internal server error'))
     }
   })
 
-  // DELETE /pins/:requestId - Cancel/delete pin and clean up CAR file
-  fastify.delete('/pins/:requestId', async (request: any, reply: any) => {
+  // POST /admin/pins/:requestId/fail - Give up on a queued or pinning pin
+  fastify.post(
+    '/pins/:requestId/fail',
+    async (
+      request: FastifyRequest<{ Params: { requestId: string }; Body: { reason?: unknown } | undefined }>,
+      reply
+    ) => {
+      try {
+        const reason = request.body?.reason
+        if (reason != null && (typeof reason !== 'string' || reason === '')) {
+          await reply.code(400).send(failure(400, 'reason must be a non-empty string'))
+          return
+        }
+
+        let result: FilecoinStoredPinStatus | undefined
+        try {
+          result = await pinStore.fail(request.params.requestId, reason ?? undefined)
+        } catch (error) {
+          if (error instanceof PinNotFailableError) {
+            await reply.code(409).send(failure(409, error.message))
+            return
+          }
+          throw error
+        }
+        if (result == null) {
+          await reply.code(404).send(failure(404, 'Pin not found'))
+          return
+        }
+
+        await reply.send({
+          requestid: result.id,
+          user: result.userId,
+          status: result.status,
+          created: new Date(result.created).toISOString(),
+          pin: result.pin,
+          delegates: pinStore.getDelegates(),
+          info: result.info,
+        })
+      } catch (error) {
+        logger.error({ error }, 'Failed to force-fail pin')
+        await reply.code(500).send(failure(500, 'Internal server error'))
+      }
+    }
+  )
+
+  const queueStatus = () => ({ ...pinStore.getQueueState(), ...pinStore.getQueueStats() })
+
+  // GET /admin/queue - Queue depth and whether the queues are paused or draining
+  fastify.get('/queue', async (_request, reply) => {
+    await reply.send(queueStatus())
+  })
+
+  // POST /admin/queue/pause - Start no more fetches or uploads until resumed
+  fastify.post('/queue/pause', async (_request, reply) => {
+    pinStore.pauseQueues()
+    await reply.send(queueStatus())
+  })
+
+  // POST /admin/queue/drain - Refuse new pins until resumed, working through the queued ones
+  fastify.post('/queue/drain', async (_request, reply) => {
+    pinStore.drainQueues()
+    await reply.send(queueStatus())
+  })
+
+  // POST /admin/queue/resume - Undo pause and drain
+  fastify.post('/queue/resume', async (_request, reply) => {
+    pinStore.resumeQueues()
+    await reply.send(queueStatus())
+  })
+
+  // GET /admin/wallet - Balances and Filecoin Pay allowances of the server wallet
+  fastify.get('/wallet', async (_request, reply) => {
     try {
-      await pinStore.cancel(request.user, request.params.requestId)
-      await reply.code(202).send()
+      const status = await getPaymentStatus(synapseService.synapse)
+      const usdfc = (value: bigint) => ethers.formatUnits(value, USDFC_DECIMALS)
+      const allowances = status.currentAllowances
+      await reply.send({
+        network: status.network,
+        address: status.address,
+        fil_balance: ethers.formatEther(status.filBalance),
+        wallet_usdfc_balance: usdfc(status.walletUsdfcBalance),
+        filecoin_pay_balance: usdfc(status.filecoinPayBalance),
+        allowances: {
+          rate_allowance: usdfc(allowances.rateAllowance),
+          rate_used: usdfc(allowances.rateUsed ?? 0n),
+          lockup_allowance: usdfc(allowances.lockupAllowance),
+          lockup_used: usdfc(allowances.lockupUsed),
+          max_lockup_period: allowances.maxLockupPeriod?.toString() ?? null,
+        },
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to read payment status')
+      await reply.code(502).send(failure(502, 'Failed to read payment status'))
+    }
+  })
+
+  // GET /admin/webhooks/dead-letters - Webhook deliveries that failed every attempt
+  fastify.get('/webhooks/dead-letters', async (request: FastifyRequest<{ Querystring: { limit?: string } }>, reply) => {
+    try {
+      const limit = request.query.limit != null ? Number.parseInt(request.query.limit, 10) : undefined
+      if (limit != null && (!Number.isInteger(limit) || limit < 1)) {
+        await reply.code(400).send(failure(400, 'limit must be a positive integer'))
+        return
+      }
+
+      const results = pinStore.listWebhookDeadLetters(limit)
+      await reply.send({
+        count: results.length,
+        results: results.map((deadLetter) => ({ ...deadLetter, created: new Date(deadLetter.created).toISOString() })),
+      })
+    } catch (error) {
+      logger.error({ error }, 'Failed to list webhook dead letters')
+      await reply.code(500).send(failure(500, 'Internal server error'))
+    }
+  })
+
+  // GET /admin/piece-removals - Removals of deleted and replaced pins' pieces, optionally of some `status`es
+  fastify.get(
+    '/piece-removals',
+    async (request: FastifyRequest<{ Querystring: { status?: string; limit?: string } }>, reply) => {
+      const query: PieceRemovalQuery = { limit: DEFAULT_LIST_LIMIT }
+      if (request.query.status != null) {
+        const statuses = request.query.status.split(',').filter((status) => status !== '')
+        const invalid = statuses.find((status) => !PIECE_REMOVAL_STATUSES.includes(status as PieceRemovalStatus))
+        if (invalid != null) {
+          await reply.code(400).send(failure(400, `Invalid status: ${invalid}`))
+          return
+        }
+        query.status = statuses as PieceRemovalStatus[]
+      }
+      if (request.query.limit != null) {
+        const limit = Number(request.query.limit)
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+          await reply.code(400).send(failure(400, `Invalid limit: must be an integer between 1 and ${MAX_LIST_LIMIT}`))
+          return
+        }
+        query.limit = limit
+      }
+      await reply.send({ results: pinStore.listPieceRemovals(query).map(pieceRemovalStatus) })
+    }
+  )
+
+  // POST /admin/piece-removals/:id/retry - Try a failed or skipped piece removal again
+  fastify.post('/piece-removals/:id/retry', async (request: FastifyRequest<{ Params: { id: string } }>, reply) => {
+    let removal: PieceRemoval | undefined
+    try {
+      removal = pinStore.retryPieceRemoval(request.params.id)
     } catch (error) {
-      logger.error({ error }, 'Failed to cancel pin')
-      await reply.code(500).send({ error: 'Internal server error' })
+      if (error instanceof PieceRemovalNotRetryableError) {
+        await reply.code(409).send(failure(409, error.message))
+        return
+      }
+      throw error
+    }
+    if (removal == null) {
+      await reply.code(404).send(failure(404, 'Piece removal not found'))
+      return
+    }
+    await reply.code(202).send(pieceRemovalStatus(removal))
+  })
+
+  // GET /admin/storage - The data set and provider new uploads go to
+  fastify.get('/storage', async (_request, reply) => {
+    await reply.send(storageStatus(synapseService, pinStore))
+  })
+
+  // POST /admin/storage/rotate - Send new uploads to a fresh data set, or only those of one `user`
+  let rotating = false
+  fastify.post('/storage/rotate', async (request: FastifyRequest<{ Body: { user?: unknown } | undefined }>, reply) => {
+    const user = request.body?.user
+    if (user != null && (typeof user !== 'string' || user === '')) {
+      await reply.code(400).send(failure(400, 'user must be a non-empty string'))
+      return
+    }
+    if (rotating) {
+      await reply.code(409).send(failure(409, 'Storage context rotation already in progress'))
+      return
+    }
+
+    rotating = true
+    try {
+      if (user != null) {
+        await reply.send(userDataSetStatus(await pinStore.rotateUserDataSet(user)))
+        return
+      }
+
+      const previousDataSetId = synapseService.storage.dataSetId
+      // The gateway downloads every pin's piece from the current provider, so the provider stays the same
+      const { storage, providerInfo } = await createStorageContext(synapseService.synapse, logger, {
+        dataset: { createNew: true },
+        providerId: synapseService.providerInfo.id,
+      })
+      synapseService.storage = storage
+      synapseService.providerInfo = providerInfo
+      logger.info({ previousDataSetId, dataSetId: storage.dataSetId }, 'Rotated storage context')
+
+      await reply.send(storageStatus(synapseService, pinStore))
+    } catch (error) {
+      if (error instanceof UserDataSetsDisabledError) {
+        await reply.code(400).send(failure(400, error.message))
+        return
+      }
+      logger.error({ error }, 'Failed to rotate storage context')
+      await reply.code(502).send(failure(502, 'Failed to create a new storage context'))
+    } finally {
+      rotating = false
     }
   })
 }
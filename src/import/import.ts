@@ -8,11 +8,12 @@
 import { createReadStream } from 'node:fs'
 import { readFile, stat } from 'node:fs/promises'
 import { CarReader } from '@ipld/car'
-import { CID } from 'multiformats/cid'
+import type { CID } from 'multiformats/cid'
 import pc from 'picocolors'
 import pino from 'pino'
 import { warnAboutCDNPricingLimitations } from '../common/cdn-warning.js'
 import { displayUploadResults, performAutoFunding, performUpload, validatePaymentSetup } from '../common/upload-flow.js'
+import { resolveCarRoot } from '../core/car/car-roots.js'
 import {
   cleanupSynapseService,
   createStorageContext,
@@ -24,12 +25,6 @@ import { cancel, createSpinner, formatFileSize, intro, outro } from '../utils/cl
 import { log } from '../utils/cli-logger.js'
 import type { ImportOptions, ImportResult } from './types.js'
 
-/**
- * Zero CID used when CAR has no roots
- * This is the identity CID with empty data
- */
-const ZERO_CID = 'bafkqaaa'
-
 /**
  * Validate and extract roots from a CAR file
  *
@@ -55,45 +50,20 @@ async function validateCarFile(filePath: string): Promise<CID[]> {
  * Handles multiple cases: no roots, single root, multiple roots
  */
 function resolveRootCID(roots: CID[]): { cid: CID; cidString: string; message?: string } {
-  if (roots.length === 0) {
-    // No roots - use zero CID
-    return {
-      cid: CID.parse(ZERO_CID),
-      cidString: ZERO_CID,
-      message: `${pc.yellow('⚠')} No root CIDs found in CAR header, using zero CID: ${ZERO_CID}`,
-    }
-  }
-
-  if (roots.length === 1 && roots[0]) {
-    // Exactly one root - perfect
-    const cid = roots[0]
-    return {
-      cid,
-      cidString: cid.toString(),
-      message: `Root CID: ${cid.toString()}`,
-    }
+  const { cid, warning } = resolveCarRoot(roots)
+  if (warning == null) {
+    return { cid, cidString: cid.toString(), message: `Root CID: ${cid.toString()}` }
   }
 
-  if (roots[0]) {
-    // Multiple roots - use first, warn about others
-    const cid = roots[0]
+  let message = `${pc.yellow('⚠')} ${warning}`
+  if (roots.length > 1) {
     const otherRoots = roots
       .slice(1)
       .map((r) => r.toString())
       .join(', ')
-    return {
-      cid,
-      cidString: cid.toString(),
-      message: `${pc.yellow('⚠')} Multiple root CIDs found (${roots.length}), using first: ${cid.toString()}\n  Other roots: ${otherRoots}`,
-    }
-  }
-
-  // This shouldn't happen but handle it gracefully
-  return {
-    cid: CID.parse(ZERO_CID),
-    cidString: ZERO_CID,
-    message: `${pc.yellow('⚠')} Invalid root CID structure, using zero CID: ${ZERO_CID}`,
+    message += `\n  Other roots: ${otherRoots}`
   }
+  return { cid, cidString: cid.toString(), message }
 }
 
 /**
@@ -0,0 +1,345 @@
+/**
+ * JSON schemas of the pinning routes, following the IPFS Pinning Service API OpenAPI spec (v1.0.0).
+ *
+ * Fastify validates requests and serializes responses with them, and the
+ * server's OpenAPI document is built from them. Schemas used in several places
+ * are shared by identity, which is how the document knows to reference them as
+ * components.
+ */
+
+import { multiaddr } from '@multiformats/multiaddr'
+import { CID } from 'multiformats/cid'
+import { CAR_CONTENT_TYPE } from './gateway.js'
+import { MAX_LIST_LIMIT } from './list-query.js'
+
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * A route's schemas, along with what the OpenAPI document says about the route
+ */
+export interface RouteSchema {
+  summary?: string
+  description?: string
+  operationId?: string
+  tags?: string[]
+  params?: JsonSchema
+  querystring?: JsonSchema
+  body?: JsonSchema
+  /** Content types of a body that is not JSON, and so has no schema */
+  consumes?: string[]
+  /** Keyed by status code, or by a range such as `4xx` */
+  response?: Record<string, JsonSchema>
+}
+
+/**
+ * Error body of every failed request, as the spec defines it
+ */
+export interface Failure {
+  error: {
+    /** Mandatory string identifying the type of error */
+    reason: string
+    /** Optional, longer description of the error */
+    details?: string
+  }
+}
+
+const FAILURE_REASONS: Record<number, string> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  406: 'NOT_ACCEPTABLE',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'UNSUPPORTED_MEDIA_TYPE',
+  429: 'TOO_MANY_REQUESTS',
+  500: 'INTERNAL_SERVER_ERROR',
+  502: 'BAD_GATEWAY',
+  503: 'SERVICE_UNAVAILABLE',
+  507: 'INSUFFICIENT_STORAGE',
+}
+
+/**
+ * Build the body of a failed request, its reason named after the HTTP status
+ */
+export function failure(statusCode: number, details?: string): Failure {
+  const reason = FAILURE_REASONS[statusCode] ?? (statusCode >= 500 ? 'INTERNAL_SERVER_ERROR' : 'BAD_REQUEST')
+  return { error: { reason, ...(details != null && { details }) } }
+}
+
+function isCid(value: string): boolean {
+  try {
+    CID.parse(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isMultiaddr(value: string): boolean {
+  try {
+    multiaddr(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * String formats the schemas use beyond JSON Schema's own, for the server's Ajv instance
+ */
+export const API_FORMATS: Record<string, (value: string) => boolean> = {
+  cid: isCid,
+  multiaddr: isMultiaddr,
+}
+
+export const PIN_NAME_MAX_LENGTH = 255
+export const MAX_ORIGINS = 20
+export const MAX_META_PROPERTIES = 1000
+export const MAX_META_VALUE_LENGTH = 65536
+
+export const statusSchema: JsonSchema = {
+  description: 'Status a pin object can have at a pinning service',
+  type: 'string',
+  enum: ['queued', 'pinning', 'pinned', 'failed'],
+}
+
+export const originsSchema: JsonSchema = {
+  description: 'Optional list of multiaddrs known to provide the data',
+  type: 'array',
+  uniqueItems: true,
+  maxItems: MAX_ORIGINS,
+  items: { type: 'string', format: 'multiaddr' },
+}
+
+export const pinMetaSchema: JsonSchema = {
+  description: 'Optional metadata for pin object',
+  type: 'object',
+  maxProperties: MAX_META_PROPERTIES,
+  additionalProperties: { type: 'string', maxLength: MAX_META_VALUE_LENGTH },
+}
+
+export const statusInfoSchema: JsonSchema = {
+  description: 'Optional info for PinStatus response',
+  type: 'object',
+  additionalProperties: { type: 'string' },
+}
+
+export const delegatesSchema: JsonSchema = {
+  description: 'List of multiaddrs designated by pinning service that will receive the pin data',
+  type: 'array',
+  uniqueItems: true,
+  maxItems: 20,
+  items: { type: 'string' },
+}
+
+export const pinSchema: JsonSchema = {
+  description: 'Pin object',
+  type: 'object',
+  required: ['cid'],
+  properties: {
+    cid: { description: 'Content Identifier (CID) to be pinned recursively', type: 'string', format: 'cid' },
+    name: { description: 'Optional name for pinned data', type: 'string', maxLength: PIN_NAME_MAX_LENGTH },
+    origins: originsSchema,
+    meta: pinMetaSchema,
+  },
+}
+
+export const pinStatusSchema: JsonSchema = {
+  description: 'Pin object with status',
+  type: 'object',
+  required: ['requestid', 'status', 'created', 'pin', 'delegates'],
+  properties: {
+    requestid: { description: 'Globally unique identifier of the pin request', type: 'string' },
+    status: statusSchema,
+    created: {
+      description: 'Immutable timestamp indicating when a pin request entered a pinning service',
+      type: 'string',
+      format: 'date-time',
+    },
+    pin: pinSchema,
+    delegates: delegatesSchema,
+    info: statusInfoSchema,
+  },
+}
+
+export const pinResultsSchema: JsonSchema = {
+  description: 'Response used for listing pin objects matching request',
+  type: 'object',
+  required: ['count', 'results'],
+  properties: {
+    count: { description: 'The total number of pin objects that exist for passed query filters', type: 'integer' },
+    results: {
+      description: 'An array of PinStatus results',
+      type: 'array',
+      uniqueItems: true,
+      maxItems: MAX_LIST_LIMIT,
+      items: pinStatusSchema,
+    },
+  },
+}
+
+export const failureSchema: JsonSchema = {
+  description: 'Response for a failed request',
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: {
+      type: 'object',
+      required: ['reason'],
+      properties: {
+        reason: { description: 'Mandatory string identifying the type of error', type: 'string' },
+        details: { description: 'Optional, longer description of the error', type: 'string' },
+      },
+    },
+  },
+}
+
+export const usageSchema: JsonSchema = {
+  description: "What the caller's pins that have not failed hold, and the limits they are held to",
+  type: 'object',
+  required: ['pins', 'total_size', 'blocks', 'limits'],
+  properties: {
+    pins: { type: 'integer' },
+    total_size: { description: 'Bytes of block data', type: 'integer' },
+    blocks: { type: 'integer' },
+    limits: {
+      description: 'Limits that apply, null where there is none',
+      type: 'object',
+      properties: {
+        pin_max_bytes: { type: 'integer', nullable: true },
+        pin_max_blocks: { type: 'integer', nullable: true },
+        user_max_bytes: { type: 'integer', nullable: true },
+        user_max_blocks: { type: 'integer', nullable: true },
+      },
+    },
+  },
+}
+
+/**
+ * Schemas the OpenAPI document lists as components, by name
+ */
+export const API_COMPONENTS: Record<string, JsonSchema> = {
+  Status: statusSchema,
+  Origins: originsSchema,
+  PinMeta: pinMetaSchema,
+  StatusInfo: statusInfoSchema,
+  Delegates: delegatesSchema,
+  Pin: pinSchema,
+  PinStatus: pinStatusSchema,
+  PinResults: pinResultsSchema,
+  Failure: failureSchema,
+  Usage: usageSchema,
+}
+
+const failures = { '4xx': failureSchema, '5xx': failureSchema }
+
+const requestIdParams: JsonSchema = {
+  type: 'object',
+  required: ['requestId'],
+  properties: { requestId: { type: 'string' } },
+}
+
+export const listPinsSchema: RouteSchema = {
+  summary: 'List pin objects',
+  description:
+    'List all the pin objects, matching optional filters; when no filter is provided, only successful pins are returned',
+  operationId: 'getPins',
+  tags: ['pins'],
+  querystring: {
+    type: 'object',
+    properties: {
+      cid: { description: 'Return pin objects for the specified CIDs, separated by commas (max 10)', type: 'string' },
+      name: { description: 'Return pin objects with specified name', type: 'string', maxLength: PIN_NAME_MAX_LENGTH },
+      match: {
+        description: 'Customize the text matching strategy applied when the name filter is present',
+        type: 'string',
+        enum: ['exact', 'iexact', 'partial', 'ipartial'],
+      },
+      status: {
+        description: 'Return pin objects for pins with the specified statuses, separated by commas',
+        type: 'string',
+      },
+      before: { description: 'Return results created before provided timestamp', type: 'string', format: 'date-time' },
+      after: { description: 'Return results created after provided timestamp', type: 'string', format: 'date-time' },
+      limit: {
+        description: 'Max records to return',
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_LIST_LIMIT,
+      },
+      meta: { description: 'Return pin objects that match specified metadata, as a JSON object', type: 'string' },
+    },
+  },
+  response: { 200: pinResultsSchema, ...failures },
+}
+
+export const addPinSchema: RouteSchema = {
+  summary: 'Add pin object',
+  description: 'Add a new pin object for the current access token',
+  operationId: 'addPin',
+  tags: ['pins'],
+  body: pinSchema,
+  response: { 202: pinStatusSchema, ...failures },
+}
+
+export const getPinSchema: RouteSchema = {
+  summary: 'Get pin object',
+  description: 'Get a pin object and its status',
+  operationId: 'getPinByRequestId',
+  tags: ['pins'],
+  params: requestIdParams,
+  response: { 200: pinStatusSchema, ...failures },
+}
+
+export const replacePinSchema: RouteSchema = {
+  summary: 'Replace pin object',
+  description: 'Replace an existing pin object, removing the old pin once the new one is stored',
+  operationId: 'replacePinByRequestId',
+  tags: ['pins'],
+  params: requestIdParams,
+  body: pinSchema,
+  response: { 202: pinStatusSchema, ...failures },
+}
+
+export const removePinSchema: RouteSchema = {
+  summary: 'Remove pin object',
+  description: 'Remove a pin object',
+  operationId: 'deletePinByRequestId',
+  tags: ['pins'],
+  params: requestIdParams,
+  response: { 202: { description: 'Successful response (no body, pin removed)' }, ...failures },
+}
+
+export const usageRouteSchema: RouteSchema = {
+  summary: 'Get usage',
+  description: "What the caller's pins hold, and the limits they are held to",
+  operationId: 'getUsage',
+  tags: ['usage'],
+  response: { 200: usageSchema, ...failures },
+}
+
+const uploadQuerystring: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { description: 'Optional name for pinned data', type: 'string', maxLength: PIN_NAME_MAX_LENGTH },
+    meta: { description: 'Optional metadata for pin object, as a JSON object of strings', type: 'string' },
+  },
+}
+
+export const uploadCarSchema: RouteSchema = {
+  summary: 'Upload CAR',
+  description: "Pin the DAG in a CAR, rooted at the first of the CAR's roots, instead of fetching it from the network",
+  operationId: 'uploadCar',
+  tags: ['uploads'],
+  querystring: uploadQuerystring,
+  consumes: [CAR_CONTENT_TYPE],
+  response: { 202: pinStatusSchema, ...failures },
+}
+
+export const streamCarSchema: RouteSchema = {
+  ...uploadCarSchema,
+  summary: 'Stream CAR',
+  description: 'Pin the DAG in a CAR like uploadCar, writing it to disk as it arrives so that it may be of any size',
+  operationId: 'streamCar',
+}
@@ -0,0 +1,123 @@
+/**
+ * Lets one long-lived Helia node write each pin's blocks into that pin's own blockstore.
+ */
+
+import type { Blockstore, InputPair, Pair } from 'interface-blockstore'
+import type { AbortOptions, AwaitIterable } from 'interface-store'
+import type { CID } from 'multiformats/cid'
+
+/**
+ * Options key naming the session a blockstore call belongs to
+ *
+ * Helia hands the options given to `helia.blockstore.get()` down to its own
+ * blockstore unchanged, which is how fetched blocks find their way to the
+ * session that asked for them.
+ */
+export const SESSION_OPTION = 'blockstoreSession'
+
+export interface BlockstoreSessionOptions extends AbortOptions {
+  [SESSION_OPTION]: string
+}
+
+export interface BlockstoreSession {
+  id: string
+  /** Options to pass with every Helia blockstore call made on behalf of this session */
+  options: BlockstoreSessionOptions
+  /** Stop routing to the session's blockstore; later calls for it behave as if no session was given */
+  close(): void
+}
+
+function notFound(cid: CID): Error {
+  const error: Error & { code?: string } = new Error(`Block not found: ${cid.toString()}`)
+  error.name = 'NotFoundError'
+  error.code = 'ERR_NOT_FOUND'
+  return error
+}
+
+/**
+ * Blockstore that forwards each call to the blockstore of the session named in its options
+ *
+ * Calls without an open session see an empty, read-only blockstore, so the
+ * shared node never serves or keeps blocks outside a pin.
+ */
+export class BlockstoreRouter implements Blockstore {
+  private readonly sessions = new Map<string, Blockstore>()
+  private sessionCounter = 0
+
+  /**
+   * Route calls made with the returned session's options to `blockstore`
+   */
+  open(blockstore: Blockstore, signal?: AbortSignal): BlockstoreSession {
+    const id = `session-${++this.sessionCounter}`
+    this.sessions.set(id, blockstore)
+    return {
+      id,
+      options: { [SESSION_OPTION]: id, ...(signal != null && { signal }) },
+      close: () => {
+        this.sessions.delete(id)
+      },
+    }
+  }
+
+  /**
+   * Number of sessions currently open
+   */
+  get size(): number {
+    return this.sessions.size
+  }
+
+  private route(options?: AbortOptions): Blockstore | undefined {
+    const id = (options as Partial<BlockstoreSessionOptions> | undefined)?.[SESSION_OPTION]
+    return id != null ? this.sessions.get(id) : undefined
+  }
+
+  async has(cid: CID, options?: AbortOptions): Promise<boolean> {
+    return (await this.route(options)?.has(cid, options)) ?? false
+  }
+
+  async put(cid: CID, block: Uint8Array, options?: AbortOptions): Promise<CID> {
+    const blockstore = this.route(options)
+    if (blockstore == null) {
+      throw new Error(`No open blockstore session to store ${cid.toString()} in`)
+    }
+    return await blockstore.put(cid, block, options)
+  }
+
+  async *get(cid: CID, options?: AbortOptions): AsyncGenerator<Uint8Array> {
+    const blockstore = this.route(options)
+    if (blockstore == null) {
+      throw notFound(cid)
+    }
+    yield* blockstore.get(cid, options)
+  }
+
+  async delete(_cid: CID, _options?: AbortOptions): Promise<void> {
+    throw new Error('Delete operation not supported on the blockstore router')
+  }
+
+  async *putMany(source: AwaitIterable<InputPair>, options?: AbortOptions): AsyncGenerator<CID> {
+    const blockstore = this.route(options)
+    if (blockstore == null) {
+      throw new Error('No open blockstore session to store blocks in')
+    }
+    yield* blockstore.putMany(source, options)
+  }
+
+  async *getMany(source: AwaitIterable<CID>, options?: AbortOptions): AsyncGenerator<Pair> {
+    for await (const cid of source) {
+      yield { cid, bytes: this.get(cid, options) }
+    }
+  }
+
+  // biome-ignore lint/correctness/useYield: This method throws immediately and intentionally never yields
+  async *deleteMany(_source: AwaitIterable<CID>, _options?: AbortOptions): AsyncGenerator<CID> {
+    throw new Error('DeleteMany operation not supported on the blockstore router')
+  }
+
+  async *getAll(options?: AbortOptions): AsyncGenerator<Pair> {
+    const blockstore = this.route(options)
+    if (blockstore != null) {
+      yield* blockstore.getAll(options)
+    }
+  }
+}
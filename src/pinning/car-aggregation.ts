@@ -0,0 +1,106 @@
+/**
+ * Combining several single-pin CAR files into one multi-root CAR.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs'
+import { open, stat } from 'node:fs/promises'
+import { pipeline } from 'node:stream/promises'
+import * as CarBufferWriter from '@ipld/car/buffer-writer'
+import { varint } from 'multiformats'
+import type { CID } from 'multiformats/cid'
+
+export interface AggregateCarSource {
+  /** Identifies the source in the returned entries, e.g. a pin ID */
+  id: string
+  root: CID
+  carFilePath: string
+}
+
+export interface AggregateCarEntry {
+  id: string
+  /** Byte offset of the source's first block section within the aggregate CAR */
+  offset: number
+  /** Number of bytes the source's block sections occupy */
+  length: number
+}
+
+export interface AggregateCarResult {
+  size: number
+  entries: AggregateCarEntry[]
+}
+
+/**
+ * Encode a CARv1 header naming the given roots
+ */
+export function encodeCarHeader(roots: CID[]): Uint8Array {
+  // @ipld/car resolves its own copy of multiformats, so its CID type differs nominally from ours
+  const writerRoots = roots as unknown as Parameters<typeof CarBufferWriter.headerLength>[0]['roots']
+  const writer = CarBufferWriter.createWriter(new ArrayBuffer(CarBufferWriter.headerLength({ roots: writerRoots })), {
+    roots: writerRoots,
+  })
+  return CarBufferWriter.close(writer)
+}
+
+/**
+ * Read the length of a CARv1 file's header, including its varint prefix
+ */
+export async function readCarHeaderLength(carFilePath: string): Promise<number> {
+  const file = await open(carFilePath, 'r')
+  try {
+    const prefix = new Uint8Array(10)
+    const { bytesRead } = await file.read(prefix, 0, prefix.length, 0)
+    const [headerLength, prefixLength] = varint.decode(prefix.subarray(0, bytesRead))
+    return prefixLength + headerLength
+  } finally {
+    await file.close()
+  }
+}
+
+/**
+ * Write a multi-root CAR holding the roots and blocks of every source, in order
+ *
+ * Each source's block sections are copied verbatim, so they stay contiguous and
+ * the returned offsets locate every source inside the aggregate.
+ */
+export async function writeAggregateCar(
+  sources: AggregateCarSource[],
+  outputPath: string
+): Promise<AggregateCarResult> {
+  const roots: CID[] = []
+  const seenRoots = new Set<string>()
+  for (const { root } of sources) {
+    if (!seenRoots.has(root.toString())) {
+      seenRoots.add(root.toString())
+      roots.push(root)
+    }
+  }
+
+  const header = encodeCarHeader(roots)
+  const entries: AggregateCarEntry[] = []
+  let offset = header.byteLength
+
+  const out = createWriteStream(outputPath)
+  try {
+    await new Promise<void>((resolve, reject) => {
+      out.write(header, (error) => (error == null ? resolve() : reject(error)))
+    })
+
+    for (const source of sources) {
+      const headerLength = await readCarHeaderLength(source.carFilePath)
+      const { size } = await stat(source.carFilePath)
+      const length = size - headerLength
+
+      if (length > 0) {
+        await pipeline(createReadStream(source.carFilePath, { start: headerLength }), out, { end: false })
+      }
+      entries.push({ id: source.id, offset, length })
+      offset += length
+    }
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      out.end((error?: Error | null) => (error == null ? resolve() : reject(error)))
+    })
+  }
+
+  return { size: offset, entries }
+}
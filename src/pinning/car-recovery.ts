@@ -0,0 +1,73 @@
+/**
+ * Helpers for salvaging CAR files left behind by an interrupted pin.
+ */
+
+import { createReadStream } from 'node:fs'
+import { access, rename } from 'node:fs/promises'
+import { CarBlockIterator } from '@ipld/car'
+import type { CID } from 'multiformats/cid'
+import type { Logger } from 'pino'
+
+/**
+ * Check whether a file exists on disk
+ */
+export async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Move a CAR file out of the way so a fresh one can be written in its place
+ *
+ * @returns Path of the moved file, or undefined if there was nothing to move
+ */
+export async function movePartialCar(carFilePath: string): Promise<string | undefined> {
+  const partialPath = `${carFilePath}.partial`
+  try {
+    await rename(carFilePath, partialPath)
+    return partialPath
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error
+    }
+  }
+  return (await fileExists(partialPath)) ? partialPath : undefined
+}
+
+/**
+ * Copy every complete block from a possibly truncated CAR file into a blockstore
+ *
+ * Reading stops quietly at the first incomplete section, which is where the
+ * previous writer was interrupted.
+ *
+ * @returns Number of blocks copied
+ */
+export async function copyBlocksFromPartialCar(
+  partialPath: string,
+  blockstore: { put(cid: CID, block: Uint8Array): Promise<CID> },
+  logger?: Logger
+): Promise<number> {
+  const inStream = createReadStream(partialPath)
+  let copied = 0
+
+  try {
+    const iterator = await CarBlockIterator.fromIterable(inStream as any)
+    for await (const { cid, bytes } of iterator) {
+      await blockstore.put(cid, bytes)
+      copied++
+    }
+  } catch (error) {
+    logger?.debug(
+      { partialPath, copied, error: error instanceof Error ? error.message : String(error) },
+      'Stopped reading partial CAR file'
+    )
+  } finally {
+    inStream.close()
+  }
+
+  return copied
+}
@@ -0,0 +1,167 @@
+/**
+ * Retention of the CAR files kept in the pinning server's storage directory.
+ *
+ * A sweep is planned from a listing of the directory and the pins that
+ * reference its files, so the decisions can be made without touching the disk.
+ */
+
+import { readdir, stat, utimes } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { CarRetentionPolicy } from '../core/synapse/index.js'
+import type { StoredPinStatus } from '../filecoin-pin-store.js'
+
+const DAY = 24 * 60 * 60 * 1000
+const PARTIAL_SUFFIX = '.partial'
+
+/**
+ * Unreferenced files younger than this (ms) are left alone, as they may belong to work not yet recorded
+ */
+export const ORPHAN_GRACE_PERIOD = 60 * 60 * 1000
+
+export interface CarFile {
+  path: string
+  size: number
+  /** Last time the file was written or served (ms since epoch) */
+  lastUsed: number
+}
+
+/**
+ * A pin's claim on a CAR file, either its own CAR or the aggregate its blocks were uploaded in
+ */
+export interface CarFileReference {
+  pinId: string
+  status: StoredPinStatus['status']
+  path: string
+  /** When the pin was pinned (ms since epoch) */
+  pinCompleted?: number | undefined
+}
+
+export interface CarSweepOptions {
+  policy: CarRetentionPolicy
+  retentionDays: number
+  /** 0 for no quota */
+  maxBytes: number
+  now: number
+  /** Files being written or uploaded that no pin references yet */
+  inUse?: Set<string>
+}
+
+export interface CarSweepPlan {
+  /** Files no pin references */
+  orphaned: CarFile[]
+  /** CARs of pinned pins that the retention policy no longer keeps */
+  expired: CarFile[]
+  /** CARs of pinned pins evicted, least recently used first, to bring the directory under its quota */
+  evicted: CarFile[]
+  /** Bytes left in the directory once the plan is carried out */
+  remainingBytes: number
+}
+
+/**
+ * List the CAR files in the storage directory and its `aggregates` directory, including partial CARs
+ */
+export async function listCarFiles(directory: string): Promise<CarFile[]> {
+  const files: CarFile[] = []
+  for (const dir of [directory, join(directory, 'aggregates')]) {
+    let names: string[]
+    try {
+      names = await readdir(dir)
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        continue
+      }
+      throw error
+    }
+
+    for (const name of names) {
+      if (!name.endsWith('.car') && !name.endsWith(`.car${PARTIAL_SUFFIX}`)) {
+        continue
+      }
+      const path = join(dir, name)
+      try {
+        const stats = await stat(path)
+        if (stats.isFile()) {
+          files.push({ path, size: stats.size, lastUsed: Math.max(stats.atimeMs, stats.mtimeMs) })
+        }
+      } catch (error: any) {
+        // Deleted since the directory was read
+        if (error?.code !== 'ENOENT') {
+          throw error
+        }
+      }
+    }
+  }
+  return files
+}
+
+/**
+ * Record that a CAR file was just read, for least-recently-used eviction
+ *
+ * Access times are set explicitly since many file systems do not keep them up to date.
+ */
+export async function touchCarFile(path: string): Promise<void> {
+  try {
+    const { mtime } = await stat(path)
+    await utimes(path, new Date(), mtime)
+  } catch {
+    // Eviction order is best effort
+  }
+}
+
+/**
+ * Decide which CAR files a sweep deletes
+ *
+ * Files referenced by a pin that is not pinned yet are always kept, and so are
+ * their partial CARs; a failed pin keeps its CAR so that it can be retried.
+ */
+export function planCarSweep(files: CarFile[], references: CarFileReference[], options: CarSweepOptions): CarSweepPlan {
+  // For each referenced path: whether an unfinished pin still needs it, and when its last pin was pinned
+  const claims = new Map<string, { held: boolean; pinnedAt: number }>()
+  for (const reference of references) {
+    const claim = claims.get(reference.path) ?? { held: false, pinnedAt: 0 }
+    if (reference.status === 'pinned') {
+      claim.pinnedAt = Math.max(claim.pinnedAt, reference.pinCompleted ?? options.now)
+    } else {
+      claim.held = true
+    }
+    claims.set(reference.path, claim)
+  }
+
+  const plan: CarSweepPlan = { orphaned: [], expired: [], evicted: [], remainingBytes: 0 }
+  const evictable: CarFile[] = []
+  const expiresBefore = options.now - options.retentionDays * DAY
+
+  for (const file of files) {
+    const path = file.path.endsWith(PARTIAL_SUFFIX) ? file.path.slice(0, -PARTIAL_SUFFIX.length) : file.path
+    const claim = claims.get(path)
+
+    if (claim == null) {
+      if (options.inUse?.has(file.path) !== true && file.lastUsed <= options.now - ORPHAN_GRACE_PERIOD) {
+        plan.orphaned.push(file)
+        continue
+      }
+    } else if (!claim.held) {
+      if (options.policy === 'delete' || (options.policy === 'days' && claim.pinnedAt <= expiresBefore)) {
+        plan.expired.push(file)
+        continue
+      }
+      if (options.policy === 'lru') {
+        evictable.push(file)
+      }
+    }
+    plan.remainingBytes += file.size
+  }
+
+  if (options.maxBytes > 0) {
+    evictable.sort((a, b) => a.lastUsed - b.lastUsed)
+    for (const file of evictable) {
+      if (plan.remainingBytes < options.maxBytes) {
+        break
+      }
+      plan.evicted.push(file)
+      plan.remainingBytes -= file.size
+    }
+  }
+
+  return plan
+}
@@ -0,0 +1,65 @@
+/**
+ * Walking a DAG through Helia without recording a pin in the node's datastore.
+ *
+ * `helia.pins.add` keeps pin records on the node, which a node shared between
+ * pins (and users pinning the same CID) cannot use.
+ */
+
+import type { Helia } from 'helia'
+import type { AbortOptions } from 'interface-store'
+import toBuffer from 'it-to-buffer'
+import { createUnsafe } from 'multiformats/block'
+import type { CID } from 'multiformats/cid'
+import type { BlockCodec } from 'multiformats/codecs/interface'
+
+/** Blocks fetched at once within one level of the DAG */
+const DEFAULT_CONCURRENCY = 8
+
+export interface WalkDagOptions extends AbortOptions {
+  concurrency?: number
+}
+
+/**
+ * Fetch every block reachable from `root`, level by level
+ *
+ * `options` are passed to every `helia.blockstore.get()` call, so they can
+ * carry a blockstore session as well as an abort signal.
+ *
+ * @returns The CID of each block once it has been fetched
+ */
+export async function* walkDag(
+  helia: Pick<Helia, 'blockstore' | 'getCodec'>,
+  root: CID,
+  options: WalkDagOptions = {}
+): AsyncGenerator<CID> {
+  const { concurrency = DEFAULT_CONCURRENCY, ...getOptions } = options
+  const seen = new Set<string>([root.toString()])
+  let level: CID[] = [root]
+
+  while (level.length > 0) {
+    const nextLevel: CID[] = []
+
+    for (let start = 0; start < level.length; start += concurrency) {
+      const fetched = await Promise.all(
+        level.slice(start, start + concurrency).map(async (cid) => ({
+          cid,
+          bytes: await toBuffer(helia.blockstore.get(cid, getOptions)),
+        }))
+      )
+
+      for (const { cid, bytes } of fetched) {
+        // Helia resolves its own copy of multiformats, so its codec type differs nominally from ours
+        const codec = (await helia.getCodec(cid.code)) as unknown as BlockCodec<number, unknown>
+        for (const [, link] of createUnsafe({ bytes, cid, codec }).links()) {
+          if (!seen.has(link.toString())) {
+            seen.add(link.toString())
+            nextLevel.push(link)
+          }
+        }
+        yield cid
+      }
+    }
+
+    level = nextLevel
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * SQLite database used by the pinning server for durable state.
+ */
+
+import { mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { DatabaseSync } from 'node:sqlite'
+import type { Logger } from 'pino'
+import { runMigrations } from './migrations.js'
+
+export const IN_MEMORY_DATABASE = ':memory:'
+
+/**
+ * Open the pinning server database and bring its schema up to date
+ *
+ * @param databasePath - Path to the SQLite file, or `:memory:` for a throwaway database
+ * @param logger - Logger for migration progress
+ * @returns Open database handle; the caller is responsible for closing it
+ */
+export async function openDatabase(databasePath: string, logger?: Logger): Promise<DatabaseSync> {
+  // Loaded lazily so CLI commands that never touch the database don't trigger Node's SQLite experimental warning
+  const { DatabaseSync } = await import('node:sqlite')
+
+  if (databasePath !== IN_MEMORY_DATABASE) {
+    await mkdir(dirname(databasePath), { recursive: true })
+  }
+
+  const db = new DatabaseSync(databasePath)
+  try {
+    db.exec('PRAGMA journal_mode = WAL')
+    db.exec('PRAGMA synchronous = NORMAL')
+    db.exec('PRAGMA busy_timeout = 5000')
+    db.exec('PRAGMA foreign_keys = ON')
+
+    const schemaVersion = runMigrations(db, logger)
+    logger?.debug({ databasePath, schemaVersion }, 'Database opened')
+  } catch (error) {
+    db.close()
+    throw error
+  }
+
+  return db
+}
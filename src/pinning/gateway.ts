@@ -0,0 +1,225 @@
+/**
+ * Trustless gateway responses for pinned content.
+ *
+ * Only verifiable responses are served: `application/vnd.ipld.car` and
+ * `application/vnd.ipld.raw`, as described by the IPFS trustless gateway spec.
+ * A pin's blocks come from its local CAR while that is kept, and otherwise from
+ * its piece, downloaded from the storage provider.
+ */
+
+import { createReadStream } from 'node:fs'
+import { Readable } from 'node:stream'
+import type { ReadableStream } from 'node:stream/web'
+import type { ProviderInfo } from '@filoz/synapse-sdk'
+import { CarBlockIterator } from '@ipld/car'
+import { varint } from 'multiformats'
+import type { CID } from 'multiformats/cid'
+import { getDownloadURL } from '../core/upload/index.js'
+import type { FilecoinStoredPinStatus } from '../filecoin-pin-store.js'
+import { encodeCarHeader } from './car-aggregation.js'
+import { fileExists } from './car-recovery.js'
+import { touchCarFile } from './car-retention.js'
+
+export const CAR_CONTENT_TYPE = 'application/vnd.ipld.car'
+export const RAW_CONTENT_TYPE = 'application/vnd.ipld.raw'
+
+export type GatewayFormat = 'car' | 'raw'
+
+/**
+ * How much of the DAG a CAR response carries: every block, or the root block alone
+ */
+export type DagScope = 'all' | 'block'
+
+/**
+ * Thrown for gateway requests that cannot be answered, carrying the HTTP status to respond with
+ */
+export class GatewayError extends Error {
+  readonly statusCode: number
+
+  constructor(statusCode: number, message: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'GatewayError'
+    this.statusCode = statusCode
+  }
+}
+
+/**
+ * Pick the response format from the `format` query parameter, which wins, or the `Accept` header
+ *
+ * @returns undefined when neither asks for a format this gateway serves
+ */
+export function negotiateGatewayFormat(
+  format: string | undefined,
+  accept: string | undefined
+): GatewayFormat | undefined {
+  if (format != null) {
+    return format === 'car' || format === 'raw' ? format : undefined
+  }
+
+  const ranges = (accept ?? '')
+    .split(',')
+    .map((range, index) => {
+      const [type = '', ...params] = range.split(';').map((part) => part.trim().toLowerCase())
+      const q = params.find((param) => param.startsWith('q='))
+      return { type, params, q: q != null ? Number.parseFloat(q.slice(2)) : 1, index }
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+
+  for (const { type, params } of ranges) {
+    if (type === RAW_CONTENT_TYPE) {
+      return 'raw'
+    }
+    // CARv2 is not served
+    if (type === CAR_CONTENT_TYPE && !params.some((param) => param.startsWith('version=') && param !== 'version=1')) {
+      return 'car'
+    }
+  }
+  return undefined
+}
+
+/**
+ * Parse the `dag-scope` query parameter; `entity` is not supported
+ */
+export function parseDagScope(scope: string | undefined): DagScope {
+  if (scope == null || scope === 'all' || scope === 'block') {
+    return scope ?? 'all'
+  }
+  throw new GatewayError(400, `Unsupported dag-scope: ${scope}`)
+}
+
+/**
+ * Encode one CAR block section: a varint length, the CID and the block bytes
+ */
+export function encodeCarBlock(cid: CID, bytes: Uint8Array): Uint8Array {
+  const length = cid.bytes.byteLength + bytes.byteLength
+  const prefix = varint.encodeTo(length, new Uint8Array(varint.encodingLength(length)))
+  const section = new Uint8Array(prefix.byteLength + length)
+  section.set(prefix, 0)
+  section.set(cid.bytes, prefix.byteLength)
+  section.set(bytes, prefix.byteLength + cid.bytes.byteLength)
+  return section
+}
+
+/**
+ * Yield `length` bytes of `source` starting at `offset`
+ */
+async function* sliceBytes(
+  source: AsyncIterable<Uint8Array>,
+  offset: number,
+  length: number
+): AsyncGenerator<Uint8Array> {
+  let position = 0
+  const end = offset + length
+  for await (const chunk of source) {
+    const start = Math.max(offset - position, 0)
+    const stop = Math.min(end - position, chunk.byteLength)
+    if (stop > start) {
+      yield chunk.subarray(start, stop)
+    }
+    position += chunk.byteLength
+    if (position >= end) {
+      return
+    }
+  }
+  if (position < end) {
+    throw new GatewayError(502, 'Piece ended before the pin data')
+  }
+}
+
+async function* concat(header: Uint8Array, body: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array> {
+  yield header
+  yield* body
+}
+
+/**
+ * Download the bytes of a pin's piece that hold its blocks, or the whole piece when it is the pin's own CAR
+ */
+async function downloadPieceBytes(
+  filecoin: NonNullable<FilecoinStoredPinStatus['filecoin']>,
+  providerInfo: ProviderInfo,
+  signal?: AbortSignal
+): Promise<Readable> {
+  const pieceCid = filecoin.synapsePieceCid
+  const url = pieceCid != null ? getDownloadURL(providerInfo, pieceCid) : ''
+  if (pieceCid == null || url === '') {
+    throw new GatewayError(404, 'Pin content is not available')
+  }
+
+  const aggregate = filecoin.aggregate
+  const headers: Record<string, string> =
+    aggregate != null ? { range: `bytes=${aggregate.offset}-${aggregate.offset + aggregate.length - 1}` } : {}
+
+  let response: Response
+  try {
+    response = await fetch(url, { headers, ...(signal != null && { signal }) })
+  } catch (error) {
+    throw new GatewayError(502, `Could not download piece ${pieceCid}`, { cause: error })
+  }
+  if (!response.ok || response.body == null) {
+    await response.body?.cancel()
+    throw new GatewayError(502, `Provider responded with HTTP ${response.status} for piece ${pieceCid}`)
+  }
+
+  const body = Readable.fromWeb(response.body as ReadableStream<Uint8Array>)
+  // Providers that ignore the range send the whole aggregate
+  if (aggregate != null && response.status !== 206) {
+    return Readable.from(sliceBytes(body, aggregate.offset, aggregate.length))
+  }
+  return body
+}
+
+/**
+ * Open a CARv1 stream rooted at the pin's CID, holding every block of the pin
+ *
+ * Destroy the stream to stop reading early.
+ */
+export async function openPinCar(
+  pin: FilecoinStoredPinStatus,
+  root: CID,
+  providerInfo: ProviderInfo,
+  signal?: AbortSignal
+): Promise<Readable> {
+  const filecoin = pin.filecoin
+  if (filecoin == null) {
+    throw new GatewayError(404, 'Pin content is not available')
+  }
+
+  if (filecoin.carStats.finalized && (await fileExists(filecoin.carFilePath))) {
+    await touchCarFile(filecoin.carFilePath)
+    return createReadStream(filecoin.carFilePath)
+  }
+
+  const aggregate = filecoin.aggregate
+  if (aggregate != null && (await fileExists(aggregate.carFilePath))) {
+    await touchCarFile(aggregate.carFilePath)
+    const blocks = createReadStream(aggregate.carFilePath, {
+      start: aggregate.offset,
+      end: aggregate.offset + aggregate.length - 1,
+    })
+    return Readable.from(concat(encodeCarHeader([root]), blocks))
+  }
+
+  const piece = await downloadPieceBytes(filecoin, providerInfo, signal)
+  // A pin's own piece is its CAR; an aggregate slice is bare block sections
+  return aggregate != null ? Readable.from(concat(encodeCarHeader([root]), piece)) : piece
+}
+
+/**
+ * Read one block out of a CAR stream, then close the stream
+ *
+ * @returns undefined if the CAR does not hold the block
+ */
+export async function findCarBlock(car: Readable, cid: CID): Promise<Uint8Array | undefined> {
+  try {
+    const iterator = await CarBlockIterator.fromIterable(car)
+    for await (const block of iterator) {
+      if (block.cid.toString() === cid.toString()) {
+        return block.bytes
+      }
+    }
+    return undefined
+  } finally {
+    car.destroy()
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Parsing of `GET /pins` query parameters as defined by the IPFS Pinning Service API.
+ */
+
+import { CID } from 'multiformats/cid'
+import type { StoredPinStatus } from '../filecoin-pin-store.js'
+import type { PinListQuery, TextMatchingStrategy } from './pin-repository.js'
+
+export const DEFAULT_LIST_LIMIT = 10
+export const MAX_LIST_LIMIT = 1000
+/** Statuses `GET /pins` lists when the client names none, as the spec requires */
+export const DEFAULT_LIST_STATUS: ReadonlyArray<StoredPinStatus['status']> = ['pinned']
+const MAX_CIDS = 10
+const MAX_NAME_LENGTH = 255
+
+const PIN_STATUSES: ReadonlyArray<StoredPinStatus['status']> = ['queued', 'pinning', 'pinned', 'failed']
+const MATCH_STRATEGIES: readonly TextMatchingStrategy[] = ['exact', 'iexact', 'partial', 'ipartial']
+
+export interface PinListQuerystring {
+  cid?: string
+  name?: string
+  match?: string
+  status?: string
+  before?: string
+  after?: string
+  /** A string, or a number once the route's schema has coerced it */
+  limit?: string | number
+  meta?: string
+}
+
+/**
+ * Thrown when a list query parameter is malformed; the message is safe to return to the client
+ */
+export class InvalidPinListQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InvalidPinListQueryError'
+  }
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+function parseTimestamp(param: string, value: string): number {
+  const timestamp = Date.parse(value)
+  if (Number.isNaN(timestamp)) {
+    throw new InvalidPinListQueryError(`Invalid ${param} timestamp: ${value}`)
+  }
+  return timestamp
+}
+
+/**
+ * Parse a `meta` query parameter, a JSON object of strings
+ *
+ * @throws {InvalidPinListQueryError} if it is anything else
+ */
+export function parseMeta(value: string): Record<string, string> {
+  let meta: unknown
+  try {
+    meta = JSON.parse(value)
+  } catch {
+    throw new InvalidPinListQueryError('Invalid meta: must be a JSON object')
+  }
+  if (meta == null || typeof meta !== 'object' || Array.isArray(meta)) {
+    throw new InvalidPinListQueryError('Invalid meta: must be a JSON object')
+  }
+  for (const [key, entry] of Object.entries(meta)) {
+    if (typeof entry !== 'string') {
+      throw new InvalidPinListQueryError(`Invalid meta: value for "${key}" must be a string`)
+    }
+  }
+  return meta as Record<string, string>
+}
+
+/**
+ * Convert `GET /pins` query parameters into a repository query
+ *
+ * Omitted parameters apply no filter, except `limit` which defaults to
+ * {@link DEFAULT_LIST_LIMIT} as the spec requires.
+ *
+ * @throws {InvalidPinListQueryError} if a parameter is malformed
+ */
+export function parsePinListQuery(querystring: PinListQuerystring): Omit<PinListQuery, 'userId'> {
+  const query: Omit<PinListQuery, 'userId'> = { limit: DEFAULT_LIST_LIMIT }
+
+  if (querystring.cid != null) {
+    const cids = splitList(querystring.cid)
+    if (cids.length > MAX_CIDS) {
+      throw new InvalidPinListQueryError(`Too many CIDs: at most ${MAX_CIDS} may be given`)
+    }
+    for (const cid of cids) {
+      try {
+        CID.parse(cid)
+      } catch {
+        throw new InvalidPinListQueryError(`Invalid CID: ${cid}`)
+      }
+    }
+    if (cids.length > 0) {
+      query.cid = cids
+    }
+  }
+
+  if (querystring.name != null && querystring.name.length > 0) {
+    if (querystring.name.length > MAX_NAME_LENGTH) {
+      throw new InvalidPinListQueryError(`Invalid name: at most ${MAX_NAME_LENGTH} characters`)
+    }
+    query.name = querystring.name
+  }
+
+  if (querystring.match != null) {
+    const match = querystring.match as TextMatchingStrategy
+    if (!MATCH_STRATEGIES.includes(match)) {
+      throw new InvalidPinListQueryError(`Invalid match: must be one of ${MATCH_STRATEGIES.join(', ')}`)
+    }
+    query.match = match
+  }
+
+  if (querystring.status != null) {
+    const statuses = splitList(querystring.status)
+    for (const status of statuses) {
+      if (!PIN_STATUSES.includes(status as StoredPinStatus['status'])) {
+        throw new InvalidPinListQueryError(`Invalid status: ${status}`)
+      }
+    }
+    if (statuses.length > 0) {
+      query.status = statuses as Array<StoredPinStatus['status']>
+    }
+  }
+
+  if (querystring.before != null) {
+    query.before = parseTimestamp('before', querystring.before)
+  }
+  if (querystring.after != null) {
+    query.after = parseTimestamp('after', querystring.after)
+  }
+
+  if (querystring.limit != null) {
+    const limit = Number(querystring.limit)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      throw new InvalidPinListQueryError(`Invalid limit: must be an integer between 1 and ${MAX_LIST_LIMIT}`)
+    }
+    query.limit = limit
+  }
+
+  if (querystring.meta != null) {
+    query.meta = parseMeta(querystring.meta)
+  }
+
+  return query
+}
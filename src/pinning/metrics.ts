@@ -0,0 +1,309 @@
+/**
+ * Prometheus metrics for the pinning server.
+ *
+ * Metrics are rendered in the Prometheus text exposition format (version
+ * 0.0.4). Event-driven counters and histograms accumulate for the life of the
+ * process; pin counts, queue depth and balances are read at scrape time.
+ */
+
+import { ethers } from 'ethers'
+import type { Logger } from 'pino'
+import { getPaymentStatus, USDFC_DECIMALS } from '../core/payments/index.js'
+import type { SynapseService } from '../core/synapse/index.js'
+import type { FilecoinPinStore } from '../filecoin-pin-store.js'
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/** Bucket upper bounds (seconds) for fetch and upload durations, which run from seconds to tens of minutes */
+const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600]
+
+/** How long wallet balances are reused between scrapes (ms), to keep scrapes off the RPC endpoint */
+const BALANCE_REFRESH_INTERVAL = 60_000
+
+type Labels = Record<string, string>
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN'
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf'
+  }
+  return value.toString()
+}
+
+/** Label sets are keyed by their values in a fixed name order */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+abstract class Metric {
+  readonly name: string
+  readonly help: string
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  protected abstract samples(): string[]
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n')
+  }
+}
+
+/**
+ * Value per label set, shared by counters and gauges
+ */
+abstract class ValueMetric extends Metric {
+  private readonly values = new Map<string, { labels: Labels; value: number }>()
+
+  protected add(labels: Labels, delta: number): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key)
+    if (entry == null) {
+      this.values.set(key, { labels, value: delta })
+    } else {
+      entry.value += delta
+    }
+  }
+
+  protected put(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value })
+  }
+
+  protected samples(): string[] {
+    return Array.from(
+      this.values.values(),
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    )
+  }
+}
+
+export class Counter extends ValueMetric {
+  readonly type = 'counter'
+
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`)
+    }
+    this.add(labels, value)
+  }
+}
+
+export class Gauge extends ValueMetric {
+  readonly type = 'gauge'
+
+  set(labels: Labels, value: number): void {
+    this.put(labels, value)
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram'
+  private readonly buckets: number[]
+  private readonly series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  constructor(name: string, help: string, buckets: number[]) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (entry == null) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, entry)
+    }
+    for (const [index, bound] of this.buckets.entries()) {
+      if (value <= bound) {
+        entry.counts[index] = (entry.counts[index] ?? 0) + 1
+      }
+    }
+    entry.sum += value
+    entry.count++
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = []
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      for (const [index, bound] of this.buckets.entries()) {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index] ?? 0}`)
+      }
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+    return lines
+  }
+}
+
+/**
+ * Metrics rendered together, after running any collectors that refresh them
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = []
+  private readonly collectors: Array<() => void | Promise<void>> = []
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  /**
+   * Run `collect` before each render, to set gauges read at scrape time
+   */
+  addCollector(collect: () => void | Promise<void>): void {
+    this.collectors.push(collect)
+  }
+
+  async render(): Promise<string> {
+    for (const collect of this.collectors) {
+      await collect()
+    }
+    return `${this.metrics.map((metric) => metric.render()).join('\n')}\n`
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(({ name }) => name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`)
+    }
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+export interface PinningMetricsInit {
+  pinStore: FilecoinPinStore
+  /** Source of the wallet balance gauges; omit to leave them out */
+  synapseService?: SynapseService
+  logger: Logger
+}
+
+/**
+ * The pinning server's metrics, fed by the pin store's events
+ */
+export class PinningMetrics {
+  readonly registry = new MetricsRegistry()
+  private balancesFetched = 0
+
+  constructor(init: PinningMetricsInit) {
+    const { pinStore, synapseService, logger } = init
+    const registry = this.registry
+
+    const pins = registry.gauge('filecoin_pin_pins', 'Pins by status, across all users')
+    const queueActive = registry.gauge('filecoin_pin_queue_active', 'Pins being worked on, by queue')
+    const queueWaiting = registry.gauge('filecoin_pin_queue_waiting', 'Pins waiting for a free slot, by queue')
+    const fetchDuration = registry.histogram(
+      'filecoin_pin_dag_fetch_duration_seconds',
+      'Time taken to fetch a pin DAG into its CAR file, by outcome',
+      DURATION_BUCKETS
+    )
+    const carBytes = registry.counter('filecoin_pin_car_bytes_written_total', 'Block bytes written to CAR files')
+    const uploadDuration = registry.histogram(
+      'filecoin_pin_upload_duration_seconds',
+      'Time taken by Synapse uploads until the piece is confirmed, by outcome',
+      DURATION_BUCKETS
+    )
+    const uploadFailures = registry.counter(
+      'filecoin_pin_upload_failures_total',
+      'Failed Synapse uploads, by error category'
+    )
+    const deduplicatedPins = registry.counter(
+      'filecoin_pin_deduplicated_pins_total',
+      'Pins that share the piece of a pin of the same CID instead of uploading their own'
+    )
+    const deduplicatedBytes = registry.counter(
+      'filecoin_pin_deduplicated_bytes_total',
+      'Block bytes of deduplicated pins, which were neither fetched nor uploaded again'
+    )
+    const ipniValidations = registry.counter(
+      'filecoin_pin_ipni_validations_total',
+      'IPNI advertisement validations of pinned root CIDs, by result'
+    )
+
+    pinStore.on('pin:fetch:completed', (data) => {
+      fetchDuration.observe({ outcome: data.outcome }, data.duration / 1000)
+    })
+    pinStore.on('pin:block:stored', (data) => {
+      carBytes.inc({}, data.size)
+    })
+    pinStore.on('synapse:upload:completed', (data) => {
+      uploadDuration.observe({ outcome: 'success' }, data.duration / 1000)
+    })
+    pinStore.on('synapse:upload:failed', (data) => {
+      uploadDuration.observe({ outcome: 'failure' }, data.duration / 1000)
+      uploadFailures.inc({ category: data.category })
+    })
+    pinStore.on('pin:deduplicated', (data) => {
+      deduplicatedPins.inc()
+      deduplicatedBytes.inc({}, data.size)
+    })
+    pinStore.on('pin:ipni:validated', (data) => {
+      ipniValidations.inc({ result: data.validated === true ? 'success' : 'failure' })
+    })
+
+    registry.addCollector(() => {
+      for (const [status, count] of Object.entries(pinStore.getPinCounts())) {
+        pins.set({ status }, count)
+      }
+      const { fetch, upload, aggregation } = pinStore.getQueueStats()
+      for (const [queue, stats] of Object.entries({ fetch, upload })) {
+        queueActive.set({ queue }, stats.active)
+        queueWaiting.set({ queue }, stats.queued)
+      }
+      if (aggregation != null) {
+        queueActive.set({ queue: 'aggregation' }, aggregation.flushing)
+        queueWaiting.set({ queue: 'aggregation' }, aggregation.stagedPins)
+      }
+    })
+
+    if (synapseService != null) {
+      const filBalance = registry.gauge('filecoin_pin_wallet_fil_balance', 'FIL held by the server wallet')
+      const usdfcBalance = registry.gauge('filecoin_pin_wallet_usdfc_balance', 'USDFC held by the server wallet')
+      const payBalance = registry.gauge(
+        'filecoin_pin_filecoin_pay_balance',
+        'USDFC deposited in Filecoin Pay by the server wallet'
+      )
+
+      registry.addCollector(async () => {
+        if (Date.now() - this.balancesFetched < BALANCE_REFRESH_INTERVAL) {
+          return
+        }
+        try {
+          const status = await getPaymentStatus(synapseService.synapse)
+          filBalance.set({}, Number(ethers.formatEther(status.filBalance)))
+          usdfcBalance.set({}, Number(ethers.formatUnits(status.walletUsdfcBalance, USDFC_DECIMALS)))
+          payBalance.set({}, Number(ethers.formatUnits(status.filecoinPayBalance, USDFC_DECIMALS)))
+          this.balancesFetched = Date.now()
+        } catch (error) {
+          // Keep serving the last known balances rather than failing the scrape
+          logger.warn({ error }, 'Failed to read wallet balances for metrics')
+        }
+      })
+    }
+  }
+
+  async render(): Promise<string> {
+    return await this.registry.render()
+  }
+}
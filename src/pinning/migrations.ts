@@ -0,0 +1,163 @@
+/**
+ * Schema migrations for the pinning server database.
+ *
+ * Migrations are applied in order and tracked with SQLite's `user_version`
+ * pragma. Never edit a migration that has shipped; append a new one instead.
+ */
+
+import type { DatabaseSync } from 'node:sqlite'
+import type { Logger } from 'pino'
+
+export interface Migration {
+  version: number
+  name: string
+  sql: string
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create-pins',
+    sql: `
+      CREATE TABLE pins (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        cid TEXT NOT NULL,
+        name TEXT,
+        status TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        origins TEXT,
+        meta TEXT,
+        info TEXT,
+        filecoin TEXT
+      );
+      CREATE INDEX pins_user_created ON pins (user_id, created DESC);
+      CREATE INDEX pins_cid ON pins (cid);
+      CREATE INDEX pins_status ON pins (status);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create-access-tokens',
+    sql: `
+      CREATE TABLE access_tokens (
+        id TEXT PRIMARY KEY,
+        token_hash TEXT NOT NULL UNIQUE,
+        user_id TEXT NOT NULL,
+        user_name TEXT NOT NULL,
+        created INTEGER NOT NULL,
+        last_used INTEGER,
+        revoked INTEGER
+      );
+      CREATE INDEX access_tokens_user ON access_tokens (user_id);
+    `,
+  },
+  {
+    version: 3,
+    name: 'add-access-token-admin',
+    sql: `
+      ALTER TABLE access_tokens ADD COLUMN admin INTEGER NOT NULL DEFAULT 0;
+    `,
+  },
+  {
+    version: 4,
+    name: 'create-settings',
+    sql: `
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value BLOB NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'create-webhooks',
+    sql: `
+      ALTER TABLE access_tokens ADD COLUMN webhook_url TEXT;
+      ALTER TABLE access_tokens ADD COLUMN webhook_secret TEXT;
+      UPDATE access_tokens SET webhook_secret = 'whsec_' || lower(hex(randomblob(32)));
+      ALTER TABLE pins ADD COLUMN webhook TEXT;
+      CREATE TABLE webhook_dead_letters (
+        id TEXT PRIMARY KEY,
+        pin_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        error TEXT NOT NULL,
+        created INTEGER NOT NULL
+      );
+      CREATE INDEX webhook_dead_letters_created ON webhook_dead_letters (created DESC);
+    `,
+  },
+  {
+    version: 6,
+    name: 'create-user-data-sets',
+    sql: `
+      CREATE TABLE user_data_sets (
+        user_id TEXT PRIMARY KEY,
+        data_set_id INTEGER,
+        created INTEGER NOT NULL
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: 'create-piece-removals',
+    sql: `
+      CREATE TABLE piece_removals (
+        id TEXT PRIMARY KEY,
+        pin_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        piece_cid TEXT NOT NULL,
+        piece_id INTEGER,
+        data_set_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        tx_hash TEXT,
+        created INTEGER NOT NULL,
+        updated INTEGER NOT NULL
+      );
+      CREATE INDEX piece_removals_status ON piece_removals (status);
+      CREATE INDEX piece_removals_created ON piece_removals (created DESC);
+    `,
+  },
+]
+
+/**
+ * Apply any migrations newer than the database's current schema version
+ *
+ * @returns The schema version after migrating
+ */
+export function runMigrations(db: DatabaseSync, logger?: Logger): number {
+  const { user_version: currentVersion } = db.prepare('PRAGMA user_version').get() as { user_version: number }
+  const latestVersion = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this version of filecoin-pin supports (${latestVersion})`
+    )
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) {
+      continue
+    }
+
+    db.exec('BEGIN IMMEDIATE')
+    try {
+      db.exec(migration.sql)
+      db.exec(`PRAGMA user_version = ${migration.version}`)
+      db.exec('COMMIT')
+    } catch (error) {
+      db.exec('ROLLBACK')
+      throw new Error(`Database migration ${migration.version} (${migration.name}) failed`, { cause: error })
+    }
+
+    logger?.info({ version: migration.version, name: migration.name }, 'Applied database migration')
+  }
+
+  return latestVersion
+}
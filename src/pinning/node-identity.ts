@@ -0,0 +1,31 @@
+/**
+ * Persisted libp2p identity for the pinning server's Helia node.
+ */
+
+import type { DatabaseSync } from 'node:sqlite'
+import { generateKeyPair, privateKeyFromProtobuf, privateKeyToProtobuf } from '@libp2p/crypto/keys'
+import type { PrivateKey } from '@libp2p/interface'
+
+const PRIVATE_KEY_SETTING = 'libp2p-private-key'
+
+/**
+ * Load the node's private key, generating and storing one on first use
+ *
+ * Keeping the key means the node's peer ID, and so the `delegates` handed to
+ * clients, stay the same across restarts.
+ */
+export async function loadPeerPrivateKey(db: DatabaseSync): Promise<PrivateKey> {
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(PRIVATE_KEY_SETTING) as
+    | { value: Uint8Array }
+    | undefined
+  if (row != null) {
+    return privateKeyFromProtobuf(row.value)
+  }
+
+  const privateKey = await generateKeyPair('Ed25519')
+  db.prepare('INSERT INTO settings (key, value) VALUES (?, ?)').run(
+    PRIVATE_KEY_SETTING,
+    privateKeyToProtobuf(privateKey)
+  )
+  return privateKey
+}
@@ -0,0 +1,114 @@
+/**
+ * OpenAPI document of the pinning routes, built from the JSON schemas they are validated with.
+ */
+
+import { API_COMPONENTS, type JsonSchema, type RouteSchema } from './api-schemas.js'
+
+/**
+ * A route as registered with Fastify
+ */
+export interface DocumentedRoute {
+  method: string
+  /** Fastify path, with `:name` parameters */
+  url: string
+  schema: RouteSchema
+}
+
+export interface OpenApiDocument {
+  openapi: string
+  info: { title: string; version: string }
+  paths: Record<string, Record<string, unknown>>
+  components: { schemas: Record<string, unknown>; securitySchemes: Record<string, unknown> }
+  security: Array<Record<string, string[]>>
+}
+
+/**
+ * Replace shared schemas with references to their components, except `self`, the component being defined
+ */
+function withRefs(value: unknown, refs: Map<unknown, string>, self?: unknown): unknown {
+  if (value !== self && refs.has(value)) {
+    return { $ref: refs.get(value) }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => withRefs(item, refs))
+  }
+  if (value != null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, withRefs(item, refs)]))
+  }
+  return value
+}
+
+function parameters(schema: JsonSchema | undefined, location: 'path' | 'query', refs: Map<unknown, string>): unknown[] {
+  const properties = (schema?.properties ?? {}) as Record<string, JsonSchema>
+  const required = (schema?.required ?? []) as string[]
+  return Object.entries(properties).map(([name, { description, ...property }]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(description != null && { description }),
+    schema: withRefs(property, refs),
+  }))
+}
+
+function operation(schema: RouteSchema, refs: Map<unknown, string>): Record<string, unknown> {
+  const { summary, description, operationId, tags } = schema
+  const params = [...parameters(schema.params, 'path', refs), ...parameters(schema.querystring, 'query', refs)]
+  const responses = Object.entries(schema.response ?? {}).map(([status, response]) => [
+    status.toUpperCase(),
+    {
+      description: response.description ?? status,
+      ...(response.type != null && { content: { 'application/json': { schema: withRefs(response, refs) } } }),
+    },
+  ])
+
+  return {
+    ...(summary != null && { summary }),
+    ...(description != null && { description }),
+    ...(operationId != null && { operationId }),
+    ...(tags != null && { tags }),
+    ...(params.length > 0 && { parameters: params }),
+    ...(schema.body != null && {
+      requestBody: { required: true, content: { 'application/json': { schema: withRefs(schema.body, refs) } } },
+    }),
+    ...(schema.consumes != null && {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          schema.consumes.map((type) => [type, { schema: { type: 'string', format: 'binary' } }])
+        ),
+      },
+    }),
+    responses: Object.fromEntries(responses),
+  }
+}
+
+/**
+ * Describe routes as an OpenAPI 3.0 document, every one of them taking a bearer access token
+ */
+export function createOpenApiDocument(
+  info: { title: string; version: string },
+  routes: DocumentedRoute[]
+): OpenApiDocument {
+  const refs = new Map<unknown, string>(
+    Object.entries(API_COMPONENTS).map(([name, schema]) => [schema, `#/components/schemas/${name}`])
+  )
+
+  const paths: OpenApiDocument['paths'] = {}
+  for (const route of routes) {
+    const path = route.url.replace(/:(\w+)/g, '{$1}')
+    paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(route.schema, refs) }
+  }
+
+  return {
+    openapi: '3.0.0',
+    info,
+    paths,
+    components: {
+      schemas: Object.fromEntries(
+        Object.entries(API_COMPONENTS).map(([name, schema]) => [name, withRefs(schema, refs, schema)])
+      ),
+      securitySchemes: { accessToken: { type: 'http', scheme: 'bearer' } },
+    },
+    security: [{ accessToken: [] }],
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Background removal of the pieces that deleted and replaced pins leave in their data sets.
+ *
+ * Each removal is a job in the `piece_removals` table, retried with backoff and
+ * picked up again after a restart. A piece that another pin still uses is
+ * skipped instead of removed.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite'
+import { setTimeout as sleep } from 'node:timers/promises'
+import type { Logger } from 'pino'
+
+/**
+ * - `pending`: waiting for its first attempt or for a retry
+ * - `removing`: the provider has been asked to delete the piece
+ * - `removed`: the piece's deletion was submitted on chain
+ * - `skipped`: another pin still uses the piece
+ * - `failed`: every attempt failed
+ */
+export type PieceRemovalStatus = 'pending' | 'removing' | 'removed' | 'skipped' | 'failed'
+
+/**
+ * A piece to remove, and the pin that let go of it
+ */
+export interface PieceRemovalRequest {
+  pinId: string
+  userId: string
+  pieceCid: string
+  pieceId?: number
+  dataSetId: string
+}
+
+export interface PieceRemoval extends PieceRemovalRequest {
+  id: string
+  status: PieceRemovalStatus
+  attempts: number
+  /** Why the last attempt failed, or why the piece was skipped */
+  error?: string
+  /** Transaction that scheduled the piece's deletion */
+  txHash?: string
+  created: number
+  updated: number
+}
+
+export interface PieceRemovalQuery {
+  /** Match any of these statuses */
+  status?: PieceRemovalStatus[]
+  limit?: number
+}
+
+interface PieceRemovalRow {
+  id: string
+  pin_id: string
+  user_id: string
+  piece_cid: string
+  piece_id: number | null
+  data_set_id: string
+  status: string
+  attempts: number
+  error: string | null
+  tx_hash: string | null
+  created: number
+  updated: number
+}
+
+export interface PieceRemoverInit {
+  database: DatabaseSync
+  logger: Logger
+  /** Attempts per removal before it is marked failed */
+  maxAttempts: number
+  /** Delay before the first retry (ms), doubled for each further retry */
+  retryDelay: number
+  /** Delete the piece from its data set, resolving to the transaction hash */
+  remove: (removal: PieceRemoval) => Promise<string>
+  /** Whether a pin still uses the piece */
+  isReferenced: (removal: PieceRemoval) => boolean
+}
+
+/**
+ * Thrown by retry() for removals that have not failed or been skipped
+ */
+export class PieceRemovalNotRetryableError extends Error {
+  constructor(id: string, status: PieceRemovalStatus) {
+    super(`Piece removal ${id} is ${status}; only failed or skipped removals can be retried`)
+    this.name = 'PieceRemovalNotRetryableError'
+  }
+}
+
+function rowToPieceRemoval(row: PieceRemovalRow): PieceRemoval {
+  return {
+    id: row.id,
+    pinId: row.pin_id,
+    userId: row.user_id,
+    pieceCid: row.piece_cid,
+    ...(row.piece_id != null && { pieceId: row.piece_id }),
+    dataSetId: row.data_set_id,
+    status: row.status as PieceRemovalStatus,
+    attempts: row.attempts,
+    ...(row.error != null && { error: row.error }),
+    ...(row.tx_hash != null && { txHash: row.tx_hash }),
+    created: row.created,
+    updated: row.updated,
+  }
+}
+
+/**
+ * Removes pieces in the background, retrying with backoff
+ */
+export class PieceRemover {
+  private readonly init: PieceRemoverInit
+  private readonly controller = new AbortController()
+  /** IDs of removals being worked on, so a job is never run twice at once */
+  private readonly running = new Set<string>()
+
+  constructor(init: PieceRemoverInit) {
+    this.init = init
+  }
+
+  /**
+   * Record a removal and start working on it; never throws
+   */
+  schedule(request: PieceRemovalRequest): PieceRemoval {
+    const now = Date.now()
+    const removal: PieceRemoval = {
+      ...request,
+      id: randomUUID(),
+      status: 'pending',
+      attempts: 0,
+      created: now,
+      updated: now,
+    }
+    this.init.database
+      .prepare(
+        `INSERT INTO piece_removals (id, pin_id, user_id, piece_cid, piece_id, data_set_id, status, attempts, created, updated)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        removal.id,
+        removal.pinId,
+        removal.userId,
+        removal.pieceCid,
+        removal.pieceId ?? null,
+        removal.dataSetId,
+        removal.status,
+        removal.attempts,
+        removal.created,
+        removal.updated
+      )
+    this.init.logger.info({ removalId: removal.id, ...request }, 'Scheduled piece removal')
+    this._start({ ...removal })
+    return removal
+  }
+
+  /**
+   * Pick up removals that were unfinished when the server last stopped
+   *
+   * @returns The number of removals resumed
+   */
+  resume(): number {
+    const unfinished = this.list({ status: ['pending', 'removing'] })
+    for (const removal of unfinished.reverse()) {
+      this._start(removal)
+    }
+    if (unfinished.length > 0) {
+      this.init.logger.info({ count: unfinished.length }, 'Resumed piece removals')
+    }
+    return unfinished.length
+  }
+
+  /**
+   * Try a failed or skipped removal again, with a fresh set of attempts
+   *
+   * @returns undefined if there is no removal with this ID
+   * @throws PieceRemovalNotRetryableError if the removal has not failed or been skipped
+   */
+  retry(id: string): PieceRemoval | undefined {
+    const removal = this.get(id)
+    if (removal == null) {
+      return undefined
+    }
+    if (removal.status !== 'failed' && removal.status !== 'skipped') {
+      throw new PieceRemovalNotRetryableError(id, removal.status)
+    }
+    this._update(removal, { status: 'pending', attempts: 0, error: undefined })
+    this._start({ ...removal })
+    return removal
+  }
+
+  /**
+   * Stop starting attempts; unfinished removals stay in the table for resume()
+   */
+  stop(): void {
+    this.controller.abort()
+  }
+
+  get(id: string): PieceRemoval | undefined {
+    const row = this.init.database.prepare('SELECT * FROM piece_removals WHERE id = ?').get(id) as
+      | PieceRemovalRow
+      | undefined
+    return row != null ? rowToPieceRemoval(row) : undefined
+  }
+
+  /**
+   * Removals, newest first
+   */
+  list(query: PieceRemovalQuery = {}): PieceRemoval[] {
+    const params: SQLInputValue[] = []
+    let sql = 'SELECT * FROM piece_removals'
+    if (query.status != null && query.status.length > 0) {
+      sql += ` WHERE status IN (${query.status.map(() => '?').join(', ')})`
+      params.push(...query.status)
+    }
+    sql += ' ORDER BY created DESC, rowid DESC'
+    if (query.limit != null) {
+      sql += ' LIMIT ?'
+      params.push(query.limit)
+    }
+    const rows = this.init.database.prepare(sql).all(...params) as unknown as PieceRemovalRow[]
+    return rows.map(rowToPieceRemoval)
+  }
+
+  private _start(removal: PieceRemoval): void {
+    if (this.controller.signal.aborted || this.running.has(removal.id)) {
+      return
+    }
+    this.running.add(removal.id)
+    this._run(removal)
+      .catch((error) => {
+        this.init.logger.error({ removalId: removal.id, error }, 'Piece removal crashed')
+      })
+      .finally(() => {
+        this.running.delete(removal.id)
+      })
+  }
+
+  private async _run(removal: PieceRemoval): Promise<void> {
+    const { logger, maxAttempts, retryDelay } = this.init
+    const signal = this.controller.signal
+    const context = { removalId: removal.id, pinId: removal.pinId, pieceCid: removal.pieceCid }
+
+    while (!signal.aborted) {
+      if (this.init.isReferenced(removal)) {
+        this._update(removal, { status: 'skipped', error: 'Piece is still used by another pin' })
+        logger.info(context, 'Kept piece that another pin still uses')
+        return
+      }
+
+      this._update(removal, { status: 'removing', attempts: removal.attempts + 1 })
+      let error: string
+      try {
+        const txHash = await this.init.remove(removal)
+        // A removal cut short by stop() is tried again on the next start
+        if (signal.aborted) {
+          return
+        }
+        this._update(removal, { status: 'removed', txHash, error: undefined })
+        logger.info({ ...context, txHash }, 'Removed piece from its data set')
+        return
+      } catch (removalError) {
+        if (signal.aborted) {
+          return
+        }
+        error = removalError instanceof Error ? removalError.message : String(removalError)
+      }
+
+      if (removal.attempts >= maxAttempts) {
+        this._update(removal, { status: 'failed', error })
+        logger.error({ ...context, attempts: removal.attempts, error }, 'Piece removal failed')
+        return
+      }
+      const delay = retryDelay * 2 ** (removal.attempts - 1)
+      this._update(removal, { status: 'pending', error })
+      logger.warn({ ...context, attempts: removal.attempts, delay, error }, 'Piece removal failed, retrying')
+      try {
+        await sleep(delay, undefined, { signal, ref: false })
+      } catch {
+        return
+      }
+    }
+  }
+
+  /**
+   * Apply changes to a removal and persist it; an `error` of undefined clears the previous one
+   */
+  private _update(
+    removal: PieceRemoval,
+    changes: { status: PieceRemovalStatus; attempts?: number; error?: string | undefined; txHash?: string }
+  ): void {
+    Object.assign(removal, changes, { updated: Date.now() })
+    if ('error' in changes && changes.error == null) {
+      delete removal.error
+    }
+    this.init.database
+      .prepare('UPDATE piece_removals SET status = ?, attempts = ?, error = ?, tx_hash = ?, updated = ? WHERE id = ?')
+      .run(removal.status, removal.attempts, removal.error ?? null, removal.txHash ?? null, removal.updated, removal.id)
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Staging area that batches finished pin CARs into shared Filecoin pieces.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { mkdir, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { CID } from 'multiformats/cid'
+import type { Logger } from 'pino'
+import { type AggregateCarSource, writeAggregateCar } from './car-aggregation.js'
+
+export interface AggregateUploadResult {
+  pieceCid: string
+  pieceId?: number | undefined
+  dataSetId: string
+}
+
+/**
+ * Where a pin's blocks ended up once its batch was uploaded
+ */
+export interface AggregatePlacement extends AggregateUploadResult {
+  /** Path of the multi-root CAR that was uploaded as the piece */
+  aggregateCarPath: string
+  /** Byte offset of the pin's blocks within the aggregate CAR */
+  offset: number
+  /** Number of bytes the pin's blocks occupy */
+  length: number
+}
+
+export interface StagedCar extends AggregateCarSource {
+  /** Size of the CAR file in bytes */
+  size: number
+}
+
+export interface PinAggregatorInit {
+  /** Upload once this many bytes of CAR data are staged */
+  sizeThreshold: number
+  /** Upload whatever is staged once the oldest staged CAR has waited this long (ms) */
+  maxDelay: number
+  /** Never build an aggregate larger than this, if it can be avoided */
+  maxSize: number
+  /** Directory the aggregate CARs are written to */
+  outputDir: string
+  logger: Logger
+  /** `roots` and `pinIds` list the batch's pins in the same order */
+  upload: (aggregateCarPath: string, roots: CID[], batchId: string, pinIds: string[]) => Promise<AggregateUploadResult>
+}
+
+interface StagedEntry {
+  car: StagedCar
+  resolve: (placement: AggregatePlacement) => void
+  reject: (error: Error) => void
+}
+
+export interface PinAggregatorStats {
+  stagedPins: number
+  stagedBytes: number
+  /** Batches being built or uploaded */
+  flushing: number
+}
+
+/**
+ * Collects finished CARs until a size or time threshold is reached, then
+ * uploads them together as one multi-root CAR
+ */
+export class PinAggregator {
+  private readonly init: PinAggregatorInit
+  private staged: StagedEntry[] = []
+  private stagedBytes = 0
+  private timer: NodeJS.Timeout | undefined
+  private flushing = 0
+
+  constructor(init: PinAggregatorInit) {
+    this.init = init
+  }
+
+  /**
+   * Add a CAR to the current batch
+   *
+   * @returns Resolves with the CAR's placement once its batch is uploaded
+   */
+  stage(car: StagedCar): Promise<AggregatePlacement> {
+    // Start a new batch rather than grow the current one past the upload limit
+    if (this.staged.length > 0 && this.stagedBytes + car.size > this.init.maxSize) {
+      this._flushBatch()
+    }
+
+    const placement = new Promise<AggregatePlacement>((resolve, reject) => {
+      this.staged.push({ car, resolve, reject })
+    })
+    this.stagedBytes += car.size
+
+    if (this.stagedBytes >= this.init.sizeThreshold) {
+      this._flushBatch()
+    } else if (this.timer == null) {
+      this.timer = setTimeout(() => this._flushBatch(), this.init.maxDelay)
+    }
+
+    return placement
+  }
+
+  /**
+   * Upload whatever is currently staged without waiting for a threshold
+   */
+  flush(): void {
+    this._flushBatch()
+  }
+
+  /**
+   * Drop staged CARs without uploading them
+   *
+   * @returns Number of CARs dropped
+   */
+  clear(reason: Error): number {
+    const { entries } = this._takeBatch()
+    for (const entry of entries) {
+      entry.reject(reason)
+    }
+    return entries.length
+  }
+
+  getStats(): PinAggregatorStats {
+    return { stagedPins: this.staged.length, stagedBytes: this.stagedBytes, flushing: this.flushing }
+  }
+
+  private _takeBatch(): { entries: StagedEntry[]; bytes: number } {
+    if (this.timer != null) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    const batch = { entries: this.staged, bytes: this.stagedBytes }
+    this.staged = []
+    this.stagedBytes = 0
+    return batch
+  }
+
+  private _flushBatch(): void {
+    const { entries, bytes } = this._takeBatch()
+    if (entries.length === 0) {
+      return
+    }
+
+    this.flushing++
+    void this._uploadBatch(entries, bytes).finally(() => {
+      this.flushing--
+    })
+  }
+
+  private async _uploadBatch(entries: StagedEntry[], bytes: number): Promise<void> {
+    const batchId = randomUUID()
+    const aggregateCarPath = join(this.init.outputDir, `aggregate-${batchId}.car`)
+    const { logger } = this.init
+
+    try {
+      logger.info({ batchId, pins: entries.length, bytes }, 'Building aggregate CAR')
+      await mkdir(this.init.outputDir, { recursive: true })
+      const { size, entries: placements } = await writeAggregateCar(
+        entries.map(({ car }) => car),
+        aggregateCarPath
+      )
+
+      const roots = entries.map(({ car }) => car.root)
+      const pinIds = entries.map(({ car }) => car.id)
+      const result = await this.init.upload(aggregateCarPath, roots, batchId, pinIds)
+      logger.info({ batchId, pieceCid: result.pieceCid, size }, 'Uploaded aggregate CAR')
+
+      entries.forEach((entry, index) => {
+        const placement = placements[index]
+        if (placement == null) {
+          entry.reject(new Error(`Aggregate ${batchId} is missing ${entry.car.id}`))
+          return
+        }
+        entry.resolve({ ...result, aggregateCarPath, offset: placement.offset, length: placement.length })
+      })
+    } catch (error) {
+      logger.error({ batchId, error }, 'Aggregate upload failed')
+      try {
+        await unlink(aggregateCarPath)
+      } catch {
+        // The aggregate may not have been written
+      }
+
+      const reason = error instanceof Error ? error : new Error(String(error))
+      for (const entry of entries) {
+        entry.reject(reason)
+      }
+    }
+  }
+}
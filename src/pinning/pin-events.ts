@@ -0,0 +1,181 @@
+/**
+ * Live progress of a single pin, as streamed by `GET /pins/:requestId/events`.
+ */
+
+import type { CARBlockstoreStats } from '../core/car/index.js'
+import type { UploadProgressEvents } from '../core/upload/index.js'
+import type { ValidateIPNIProgressEvents } from '../core/utils/validate-ipni-advertisement.js'
+import type { FilecoinPinStore, StoredPinStatus } from '../filecoin-pin-store.js'
+import type { WebhookEvent } from './webhooks.js'
+
+/** Block progress is sent at most this often (ms); a large DAG stores thousands of blocks a second */
+const BLOCK_PROGRESS_INTERVAL = 250
+
+/**
+ * - `status`: the pin's status, sent first and whenever it changes or the pin is replaced
+ * - `blocks`: blocks written to the pin's CAR so far
+ * - `car`: the CAR was finalized
+ * - `upload`: a step of the Synapse upload (`onUploadComplete`, `onPieceAdded`, `onPieceConfirmed`)
+ * - `ipni`: progress validating the IPNI advertisement of the pin's root CID
+ * - `deleted`: the pin was removed
+ */
+export type PinProgressEventName = 'status' | 'blocks' | 'car' | 'upload' | 'ipni' | 'deleted'
+
+export interface PinProgressEvent {
+  event: PinProgressEventName
+  data: Record<string, unknown>
+}
+
+export interface PinProgressHandlers {
+  onEvent: (event: PinProgressEvent) => void
+  /** Called once the pin is pinned, failed or deleted; no events follow */
+  onEnd: () => void
+}
+
+/**
+ * Whether a pin has reached a status it does not leave on its own
+ */
+export function isFinalPinStatus(status: StoredPinStatus['status']): boolean {
+  return status === 'pinned' || status === 'failed'
+}
+
+/**
+ * The `status` event for a pin
+ */
+export function pinStatusEvent(pin: StoredPinStatus): PinProgressEvent {
+  return {
+    event: 'status',
+    data: {
+      requestid: pin.id,
+      status: pin.status,
+      created: new Date(pin.created).toISOString(),
+      pin: pin.pin,
+      info: pin.info ?? {},
+    },
+  }
+}
+
+/**
+ * Encode an event for a `text/event-stream` response
+ */
+export function formatServerSentEvent({ event, data }: PinProgressEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function carStatsData(stats: CARBlockstoreStats): Record<string, unknown> {
+  return {
+    blocks_written: stats.blocksWritten,
+    total_size: stats.totalSize,
+    missing_blocks: stats.missingBlocks.size,
+  }
+}
+
+function uploadData(event: UploadProgressEvents): Record<string, unknown> {
+  switch (event.type) {
+    case 'onUploadComplete':
+      return { type: event.type, piece_cid: event.data.pieceCid.toString() }
+    case 'onPieceAdded':
+      return { type: event.type, ...(event.data.txHash != null && { tx_hash: event.data.txHash }) }
+    case 'onPieceConfirmed':
+      return { type: event.type, piece_ids: event.data.pieceIds }
+  }
+}
+
+function ipniData(event: ValidateIPNIProgressEvents): Record<string, unknown> {
+  switch (event.type) {
+    case 'ipniAdvertisement.retryUpdate':
+      return { type: 'retry', retry_count: event.data.retryCount }
+    case 'ipniAdvertisement.complete':
+      return { type: 'complete', result: event.data.result, retry_count: event.data.retryCount }
+    case 'ipniAdvertisement.failed':
+      return { type: 'failed', error: event.data.error.message }
+  }
+}
+
+/**
+ * Follow one pin's progress through the pin store's events
+ *
+ * @returns Stops following the pin
+ */
+export function subscribeToPinProgress(
+  pinStore: FilecoinPinStore,
+  pinId: string,
+  handlers: PinProgressHandlers
+): () => void {
+  let pendingBlocks: CARBlockstoreStats | undefined
+  let blockTimer: NodeJS.Timeout | undefined
+
+  const flushBlocks = (): void => {
+    clearTimeout(blockTimer)
+    blockTimer = undefined
+    if (pendingBlocks != null) {
+      handlers.onEvent({ event: 'blocks', data: carStatsData(pendingBlocks) })
+      pendingBlocks = undefined
+    }
+  }
+
+  const listeners = {
+    'pin:block:stored': (data: { pinId: string; stats: CARBlockstoreStats }) => {
+      if (data.pinId !== pinId) {
+        return
+      }
+      pendingBlocks = data.stats
+      blockTimer ??= setTimeout(flushBlocks, BLOCK_PROGRESS_INTERVAL)
+    },
+    'pin:car:finalized': (data: { pinId: string; stats: CARBlockstoreStats; partial: boolean }) => {
+      if (data.pinId !== pinId) {
+        return
+      }
+      flushBlocks()
+      handlers.onEvent({ event: 'car', data: { ...carStatsData(data.stats), partial: data.partial } })
+    },
+    'synapse:upload:progress': (data: { pinIds: string[]; event: UploadProgressEvents }) => {
+      if (data.pinIds.includes(pinId)) {
+        handlers.onEvent({ event: 'upload', data: uploadData(data.event) })
+      }
+    },
+    'pin:ipni:progress': (data: { pinId: string; event: ValidateIPNIProgressEvents }) => {
+      if (data.pinId === pinId) {
+        handlers.onEvent({ event: 'ipni', data: ipniData(data.event) })
+      }
+    },
+    'pin:lifecycle': (data: { pinId: string; event: WebhookEvent; pin: StoredPinStatus }) => {
+      // Piece confirmation already arrives as an upload event
+      if (data.pinId !== pinId || data.event === 'piece.confirmed') {
+        return
+      }
+      flushBlocks()
+      handlers.onEvent(pinStatusEvent(data.pin))
+      if (isFinalPinStatus(data.pin.status)) {
+        unsubscribe()
+        handlers.onEnd()
+      }
+    },
+    'pin:replaced': (data: { pinId: string; pin: StoredPinStatus }) => {
+      if (data.pinId === pinId) {
+        flushBlocks()
+        handlers.onEvent(pinStatusEvent(data.pin))
+      }
+    },
+    'pin:cancelled': (data: { pinId: string }) => {
+      if (data.pinId !== pinId) {
+        return
+      }
+      unsubscribe()
+      handlers.onEvent({ event: 'deleted', data: { requestid: pinId } })
+      handlers.onEnd()
+    },
+  }
+
+  const unsubscribe = (): void => {
+    clearTimeout(blockTimer)
+    for (const [name, listener] of Object.entries(listeners)) {
+      pinStore.off(name, listener)
+    }
+  }
+
+  for (const [name, listener] of Object.entries(listeners)) {
+    pinStore.on(name, listener)
+  }
+  return unsubscribe
+}
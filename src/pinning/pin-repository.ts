@@ -0,0 +1,377 @@
+/**
+ * Durable storage for pin records backed by the pinning server's SQLite database.
+ */
+
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite'
+import type { FilecoinPinMetadata, FilecoinStoredPinStatus, StoredPinStatus } from '../filecoin-pin-store.js'
+import type { CarFileReference } from './car-retention.js'
+
+/**
+ * How `name` is compared, as defined by the IPFS Pinning Service API
+ */
+export type TextMatchingStrategy = 'exact' | 'iexact' | 'partial' | 'ipartial'
+
+export interface PinListQuery {
+  userId?: string
+  /** Match any of these CIDs */
+  cid?: string[]
+  name?: string
+  /** Defaults to `exact` */
+  match?: TextMatchingStrategy
+  /** Match any of these statuses */
+  status?: Array<StoredPinStatus['status']>
+  /** Only pins created before this time (ms since epoch) */
+  before?: number
+  /** Only pins created after this time (ms since epoch) */
+  after?: number
+  /** Only pins whose metadata contains every one of these key/value pairs */
+  meta?: Record<string, string>
+  limit?: number
+}
+
+/**
+ * What a user's pins hold, failed pins aside
+ */
+export interface PinUsage {
+  pins: number
+  /** Bytes of block data written to the pins' CARs */
+  bytes: number
+  blocks: number
+}
+
+/**
+ * Fields of a pin record that can be changed after creation
+ */
+export type PinRecordChanges = {
+  [K in 'status' | 'pin' | 'info' | 'filecoin' | 'webhook']?: FilecoinStoredPinStatus[K] | undefined
+}
+
+interface PinRow {
+  id: string
+  user_id: string
+  cid: string
+  name: string | null
+  status: string
+  created: number
+  origins: string | null
+  meta: string | null
+  info: string | null
+  filecoin: string | null
+  webhook: string | null
+}
+
+/**
+ * JSON shape of {@link FilecoinPinMetadata}, with the missing block set stored as an array
+ */
+type SerializedFilecoinPinMetadata = Omit<FilecoinPinMetadata, 'carStats'> & {
+  carStats: Omit<FilecoinPinMetadata['carStats'], 'missingBlocks'> & { missingBlocks: string[] }
+}
+
+function toJSON(value: unknown): string | null {
+  return value == null ? null : JSON.stringify(value)
+}
+
+function serializeFilecoin(filecoin: FilecoinPinMetadata | undefined): string | null {
+  if (filecoin == null) {
+    return null
+  }
+  const serialized: SerializedFilecoinPinMetadata = {
+    ...filecoin,
+    carStats: {
+      ...filecoin.carStats,
+      missingBlocks: Array.from(filecoin.carStats.missingBlocks),
+    },
+  }
+  return JSON.stringify(serialized)
+}
+
+function deserializeFilecoin(json: string): FilecoinPinMetadata {
+  const serialized = JSON.parse(json) as SerializedFilecoinPinMetadata
+  return {
+    ...serialized,
+    carStats: {
+      ...serialized.carStats,
+      missingBlocks: new Set(serialized.carStats.missingBlocks),
+    },
+  }
+}
+
+function rowToPin(row: PinRow): FilecoinStoredPinStatus {
+  const pin: FilecoinStoredPinStatus = {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status as StoredPinStatus['status'],
+    created: row.created,
+    pin: {
+      cid: row.cid,
+      ...(row.name != null && { name: row.name }),
+      ...(row.origins != null && { origins: JSON.parse(row.origins) }),
+      ...(row.meta != null && { meta: JSON.parse(row.meta) }),
+    },
+  }
+  if (row.info != null) {
+    pin.info = JSON.parse(row.info)
+  }
+  if (row.filecoin != null) {
+    pin.filecoin = deserializeFilecoin(row.filecoin)
+  }
+  if (row.webhook != null) {
+    pin.webhook = JSON.parse(row.webhook)
+  }
+  return pin
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ')
+}
+
+function buildWhere(query: PinListQuery): { where: string; params: SQLInputValue[] } {
+  const conditions: string[] = []
+  const params: SQLInputValue[] = []
+
+  if (query.userId != null) {
+    conditions.push('user_id = ?')
+    params.push(query.userId)
+  }
+  if (query.cid != null && query.cid.length > 0) {
+    conditions.push(`cid IN (${placeholders(query.cid)})`)
+    params.push(...query.cid)
+  }
+  if (query.name != null && query.name.length > 0) {
+    switch (query.match ?? 'exact') {
+      case 'exact':
+        conditions.push('name = ?')
+        break
+      case 'iexact':
+        conditions.push('lower(name) = lower(?)')
+        break
+      case 'partial':
+        conditions.push('instr(name, ?) > 0')
+        break
+      case 'ipartial':
+        conditions.push('instr(lower(name), lower(?)) > 0')
+        break
+    }
+    params.push(query.name)
+  }
+  if (query.status != null && query.status.length > 0) {
+    conditions.push(`status IN (${placeholders(query.status)})`)
+    params.push(...query.status)
+  }
+  if (query.before != null) {
+    conditions.push('created < ?')
+    params.push(query.before)
+  }
+  if (query.after != null) {
+    conditions.push('created > ?')
+    params.push(query.after)
+  }
+  for (const [key, value] of Object.entries(query.meta ?? {})) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(pins.meta) WHERE json_each.key = ? AND json_each.value = ?)')
+    params.push(key, value)
+  }
+
+  return { where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '', params }
+}
+
+/**
+ * Repository for pin records
+ *
+ * Each call reads from or writes to the database directly, so records returned
+ * here are snapshots: mutate them freely, then persist with {@link update}.
+ */
+export class PinRepository {
+  private readonly db: DatabaseSync
+
+  constructor(db: DatabaseSync) {
+    this.db = db
+  }
+
+  create(pin: FilecoinStoredPinStatus): void {
+    this.db
+      .prepare(
+        `INSERT INTO pins (id, user_id, cid, name, status, created, origins, meta, info, filecoin, webhook)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        pin.id,
+        pin.userId,
+        pin.pin.cid,
+        pin.pin.name ?? null,
+        pin.status,
+        pin.created,
+        toJSON(pin.pin.origins),
+        toJSON(pin.pin.meta),
+        toJSON(pin.info),
+        serializeFilecoin(pin.filecoin),
+        toJSON(pin.webhook)
+      )
+  }
+
+  get(id: string): FilecoinStoredPinStatus | undefined {
+    const row = this.db.prepare('SELECT * FROM pins WHERE id = ?').get(id) as PinRow | undefined
+    return row == null ? undefined : rowToPin(row)
+  }
+
+  /**
+   * Persist changes to an existing pin, touching only the provided fields
+   *
+   * Background processing and API updates write disjoint fields, so neither
+   * overwrites the other's changes with a stale copy.
+   *
+   * @returns false if the pin no longer exists
+   */
+  update(id: string, changes: PinRecordChanges): boolean {
+    const assignments: string[] = []
+    const params: SQLInputValue[] = []
+
+    if (changes.status !== undefined) {
+      assignments.push('status = ?')
+      params.push(changes.status)
+    }
+    if (changes.pin !== undefined) {
+      assignments.push('cid = ?', 'name = ?', 'origins = ?', 'meta = ?')
+      params.push(changes.pin.cid, changes.pin.name ?? null, toJSON(changes.pin.origins), toJSON(changes.pin.meta))
+    }
+    if (changes.info !== undefined) {
+      assignments.push('info = ?')
+      params.push(toJSON(changes.info))
+    }
+    if (changes.filecoin !== undefined) {
+      assignments.push('filecoin = ?')
+      params.push(serializeFilecoin(changes.filecoin))
+    }
+    if ('webhook' in changes) {
+      assignments.push('webhook = ?')
+      params.push(toJSON(changes.webhook))
+    }
+
+    if (assignments.length === 0) {
+      return this.get(id) != null
+    }
+
+    const result = this.db.prepare(`UPDATE pins SET ${assignments.join(', ')} WHERE id = ?`).run(...params, id)
+    return Number(result.changes) > 0
+  }
+
+  /**
+   * @returns false if the pin did not exist
+   */
+  delete(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM pins WHERE id = ?').run(id)
+    return Number(result.changes) > 0
+  }
+
+  /**
+   * List pins, newest first
+   */
+  list(query: PinListQuery = {}): FilecoinStoredPinStatus[] {
+    const { where, params } = buildWhere(query)
+    let sql = `SELECT * FROM pins${where} ORDER BY created DESC, rowid DESC`
+    if (query.limit != null && query.limit > 0) {
+      sql += ' LIMIT ?'
+      params.push(query.limit)
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as unknown as PinRow[]
+    return rows.map(rowToPin)
+  }
+
+  /**
+   * Count pins matching a query, ignoring its limit
+   */
+  count(query: PinListQuery = {}): number {
+    const { where, params } = buildWhere(query)
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM pins${where}`).get(...params) as { count: number }
+    return row.count
+  }
+
+  /**
+   * Count every user's pins in each status
+   */
+  countByStatus(): Record<StoredPinStatus['status'], number> {
+    const counts: Record<StoredPinStatus['status'], number> = { queued: 0, pinning: 0, pinned: 0, failed: 0 }
+    const rows = this.db
+      .prepare('SELECT status, COUNT(*) AS count FROM pins GROUP BY status')
+      .all() as unknown as Array<{
+      status: StoredPinStatus['status']
+      count: number
+    }>
+    for (const row of rows) {
+      counts[row.status] = row.count
+    }
+    return counts
+  }
+
+  /**
+   * Sum what a user's pins that have not failed hold
+   *
+   * @param excludePinIds - Leave out these pins, e.g. those whose usage is tracked live
+   */
+  usage(userId: string, excludePinIds: string[] = []): PinUsage {
+    const excluded = excludePinIds.length > 0 ? ` AND id NOT IN (${placeholders(excludePinIds)})` : ''
+    return this.db
+      .prepare(
+        `SELECT COUNT(*) AS pins,
+           COALESCE(SUM(json_extract(filecoin, '$.carStats.totalSize')), 0) AS bytes,
+           COALESCE(SUM(json_extract(filecoin, '$.carStats.blocksWritten')), 0) AS blocks
+         FROM pins WHERE user_id = ? AND status != 'failed'${excluded}`
+      )
+      .get(userId, ...excludePinIds) as unknown as PinUsage
+  }
+
+  /**
+   * Count the pins whose blocks are stored in a piece
+   */
+  pieceReferences(pieceCid: string, dataSetId: string): number {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS count FROM pins
+         WHERE json_extract(filecoin, '$.synapsePieceCid') = ? AND json_extract(filecoin, '$.synapseDataSetId') = ?`
+      )
+      .get(pieceCid, dataSetId) as { count: number }
+    return row.count
+  }
+
+  /**
+   * Count the pins whose own CAR file is at this path, which duplicates of a CID share
+   */
+  carReferences(carFilePath: string): number {
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM pins WHERE json_extract(filecoin, '$.carFilePath') = ?`)
+      .get(carFilePath) as { count: number }
+    return row.count
+  }
+
+  /**
+   * Every pin's claim on its own CAR file and on the aggregate CAR its blocks were uploaded in
+   */
+  carFileReferences(): CarFileReference[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, status,
+           json_extract(filecoin, '$.carFilePath') AS car_file_path,
+           json_extract(filecoin, '$.aggregate.carFilePath') AS aggregate_car_path,
+           json_extract(filecoin, '$.pinCompleted') AS pin_completed
+         FROM pins WHERE filecoin IS NOT NULL`
+      )
+      .all() as unknown as Array<{
+      id: string
+      status: StoredPinStatus['status']
+      car_file_path: string | null
+      aggregate_car_path: string | null
+      pin_completed: number | null
+    }>
+
+    return rows.flatMap((row) =>
+      [row.car_file_path, row.aggregate_car_path]
+        .filter((path) => path != null)
+        .map((path) => ({
+          pinId: row.id,
+          status: row.status,
+          path,
+          ...(row.pin_completed != null && { pinCompleted: row.pin_completed }),
+        }))
+    )
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Token-bucket rate limiting for the pinning API.
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { failure } from './api-schemas.js'
+
+export interface RateLimitResult {
+  allowed: boolean
+  /** Seconds until the next request would be allowed; 0 when allowed */
+  retryAfter: number
+}
+
+interface Bucket {
+  tokens: number
+  updated: number
+}
+
+/** How often (ms) buckets that have refilled are dropped, to bound memory */
+const PRUNE_INTERVAL = 60_000
+
+/**
+ * Token buckets keyed by client, each holding up to a minute's worth of requests
+ * and refilling continuously
+ */
+export class RateLimiter {
+  private readonly capacity: number
+  /** Tokens added per millisecond */
+  private readonly refillRate: number
+  private readonly buckets = new Map<string, Bucket>()
+  private lastPruned = 0
+
+  /**
+   * @param perMinute - Requests allowed per minute, which is also the burst size; 0 disables the limit
+   */
+  constructor(perMinute: number) {
+    this.capacity = perMinute
+    this.refillRate = perMinute / 60_000
+  }
+
+  get enabled(): boolean {
+    return this.capacity > 0
+  }
+
+  /**
+   * Take a token from the client's bucket if one is available
+   */
+  take(key: string, now = Date.now()): RateLimitResult {
+    if (!this.enabled) {
+      return { allowed: true, retryAfter: 0 }
+    }
+    this._prune(now)
+
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updated: now }
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updated) * this.refillRate)
+    bucket.updated = now
+    this.buckets.set(key, bucket)
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1
+      return { allowed: true, retryAfter: 0 }
+    }
+    return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / this.refillRate / 1000) }
+  }
+
+  /**
+   * Drop buckets that have refilled completely, which behave the same as missing ones
+   */
+  private _prune(now: number): void {
+    if (now - this.lastPruned < PRUNE_INTERVAL) {
+      return
+    }
+    this.lastPruned = now
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updated) * this.refillRate >= this.capacity) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Separate buckets for requests that only read and for those that create or change pins
+ */
+export interface RateLimiters {
+  read: RateLimiter
+  write: RateLimiter
+}
+
+export function isReadRequest(method: string): boolean {
+  return method === 'GET' || method === 'HEAD' || method === 'OPTIONS'
+}
+
+/**
+ * Fastify hook that answers 429 once a client runs out of requests
+ *
+ * @param key - The client to charge for the request, or undefined to let it through uncounted
+ */
+export function rateLimitHook(
+  limiters: RateLimiters,
+  key: (request: FastifyRequest) => string | undefined
+): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+  return async (request, reply) => {
+    const client = key(request)
+    if (client == null) {
+      return
+    }
+
+    const limiter = isReadRequest(request.method) ? limiters.read : limiters.write
+    const { allowed, retryAfter } = limiter.take(client)
+    if (!allowed) {
+      await reply.code(429).header('retry-after', retryAfter.toString()).send(failure(429, 'Too many requests'))
+    }
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Access tokens for the pinning service API.
+ *
+ * Only a SHA-256 hash of each token is stored; the token itself is shown once
+ * when issued and cannot be recovered afterwards.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'node:crypto'
+import type { DatabaseSync } from 'node:sqlite'
+import type { PinningServiceUser } from '../filecoin-pin-store.js'
+import { generateWebhookSecret } from './webhooks.js'
+
+const TOKEN_PREFIX = 'fpin_'
+
+export interface AccessTokenRecord {
+  id: string
+  user: PinningServiceUser
+  created: number
+  lastUsed?: number
+  revoked?: number
+}
+
+export interface IssuedAccessToken {
+  /** The bearer token to hand to the user; it is not stored anywhere */
+  token: string
+  record: AccessTokenRecord
+}
+
+interface AccessTokenRow {
+  id: string
+  token_hash: string
+  user_id: string
+  user_name: string
+  created: number
+  last_used: number | null
+  revoked: number | null
+  admin: number
+  webhook_url: string | null
+  webhook_secret: string | null
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function rowToUser(row: AccessTokenRow): PinningServiceUser {
+  return {
+    id: row.user_id,
+    name: row.user_name,
+    ...(row.admin === 1 && { admin: true }),
+    ...(row.webhook_secret != null && {
+      webhook: { secret: row.webhook_secret, ...(row.webhook_url != null && { url: row.webhook_url }) },
+    }),
+  }
+}
+
+function rowToRecord(row: AccessTokenRow): AccessTokenRecord {
+  const record: AccessTokenRecord = {
+    id: row.id,
+    user: rowToUser(row),
+    created: row.created,
+  }
+  if (row.last_used != null) {
+    record.lastUsed = row.last_used
+  }
+  if (row.revoked != null) {
+    record.revoked = row.revoked
+  }
+  return record
+}
+
+/**
+ * Issues, verifies and revokes access tokens mapped to pinning service users
+ */
+export class TokenStore {
+  private readonly db: DatabaseSync
+
+  constructor(db: DatabaseSync) {
+    this.db = db
+  }
+
+  /**
+   * Issue a new token for a user; a user may hold several tokens at once
+   *
+   * Admin rights and webhooks belong to the token, so set `user.admin` to issue
+   * an admin token and `options.webhookUrl` to notify a URL about its pins.
+   * Every token gets its own webhook signing secret.
+   */
+  issue(user: PinningServiceUser, options: { webhookUrl?: string } = {}): IssuedAccessToken {
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+    const { webhookUrl } = options
+    const record: AccessTokenRecord = {
+      id: randomUUID(),
+      user: {
+        id: user.id,
+        name: user.name,
+        ...(user.admin === true && { admin: true }),
+        webhook: { secret: generateWebhookSecret(), ...(webhookUrl != null && { url: webhookUrl }) },
+      },
+      created: Date.now(),
+    }
+
+    this.db
+      .prepare(
+        `INSERT INTO access_tokens (id, token_hash, user_id, user_name, created, admin, webhook_url, webhook_secret)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.id,
+        hashToken(token),
+        record.user.id,
+        record.user.name,
+        record.created,
+        user.admin === true ? 1 : 0,
+        webhookUrl ?? null,
+        record.user.webhook?.secret ?? null
+      )
+
+    return { token, record }
+  }
+
+  /**
+   * Set or clear the URL notified about pins made with a token
+   *
+   * @returns The updated token, or undefined if there is no active token with that ID
+   */
+  setWebhookUrl(id: string, url: string | undefined): AccessTokenRecord | undefined {
+    const result = this.db
+      .prepare('UPDATE access_tokens SET webhook_url = ? WHERE id = ? AND revoked IS NULL')
+      .run(url ?? null, id)
+    if (Number(result.changes) === 0) {
+      return undefined
+    }
+    const row = this.db.prepare('SELECT * FROM access_tokens WHERE id = ?').get(id) as unknown as AccessTokenRow
+    return rowToRecord(row)
+  }
+
+  /**
+   * Resolve a bearer token to its user
+   *
+   * @returns undefined if the token is unknown or revoked
+   */
+  authenticate(token: string): PinningServiceUser | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM access_tokens WHERE token_hash = ? AND revoked IS NULL')
+      .get(hashToken(token)) as AccessTokenRow | undefined
+    if (row == null) {
+      return undefined
+    }
+
+    this.db.prepare('UPDATE access_tokens SET last_used = ? WHERE id = ?').run(Date.now(), row.id)
+    return { ...rowToUser(row), tokenId: row.id }
+  }
+
+  /**
+   * Revoke a token by ID
+   *
+   * @returns false if there is no active token with that ID
+   */
+  revoke(id: string): boolean {
+    const result = this.db
+      .prepare('UPDATE access_tokens SET revoked = ? WHERE id = ? AND revoked IS NULL')
+      .run(Date.now(), id)
+    return Number(result.changes) > 0
+  }
+
+  /**
+   * Revoke every active token belonging to a user
+   *
+   * @returns Number of tokens revoked
+   */
+  revokeUser(userId: string): number {
+    const result = this.db
+      .prepare('UPDATE access_tokens SET revoked = ? WHERE user_id = ? AND revoked IS NULL')
+      .run(Date.now(), userId)
+    return Number(result.changes)
+  }
+
+  list(options: { includeRevoked?: boolean } = {}): AccessTokenRecord[] {
+    const sql =
+      options.includeRevoked === true
+        ? 'SELECT * FROM access_tokens ORDER BY created'
+        : 'SELECT * FROM access_tokens WHERE revoked IS NULL ORDER BY created'
+    const rows = this.db.prepare(sql).all() as unknown as AccessTokenRow[]
+    return rows.map(rowToRecord)
+  }
+
+  /**
+   * Count active tokens, used to warn when the server cannot accept any requests
+   */
+  countActive(): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM access_tokens WHERE revoked IS NULL').get() as {
+      count: number
+    }
+    return row.count
+  }
+}
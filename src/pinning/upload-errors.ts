@@ -0,0 +1,78 @@
+/**
+ * Classifying Synapse upload failures so transient ones can be retried.
+ */
+
+/**
+ * - `payment`: the wallet cannot pay for storage; needs operator action before a retry can succeed
+ * - `network`: the provider or RPC endpoint could not be reached
+ * - `provider`: the storage provider reported an error of its own
+ * - `unknown`: anything else
+ */
+export type UploadErrorCategory = 'payment' | 'network' | 'provider' | 'unknown'
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+  'NETWORK_ERROR',
+  'TIMEOUT',
+])
+
+const PAYMENT_PATTERN = /insufficient|allowance|lockup|balance|funds|payment|usdfc|deposit/i
+const NETWORK_PATTERN = /fetch failed|network|socket|timed? ?out|connection (refused|reset|closed)/i
+const PROVIDER_PATTERN = /\b5\d\d\b|provider|pdp server|service unavailable|bad gateway|internal server error/i
+
+/**
+ * Walk an error and its causes, outermost first
+ */
+function* errorChain(error: unknown): Generator<unknown> {
+  const seen = new Set<unknown>()
+  let current = error
+  while (current != null && !seen.has(current)) {
+    seen.add(current)
+    yield current
+    current = current instanceof Error ? current.cause : undefined
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  const code = (error as { code?: unknown } | null)?.code
+  return typeof code === 'string' ? code : undefined
+}
+
+/**
+ * Work out why an upload failed from the error and its causes
+ */
+export function classifyUploadError(error: unknown): UploadErrorCategory {
+  const chain = [...errorChain(error)]
+  const messages = chain.map((entry) => (entry instanceof Error ? entry.message : String(entry))).join('\n')
+
+  // Payment problems are checked first: a provider rejecting an unfunded upload is still a payment problem
+  if (PAYMENT_PATTERN.test(messages)) {
+    return 'payment'
+  }
+  if (chain.some((entry) => NETWORK_ERROR_CODES.has(errorCode(entry) ?? ''))) {
+    return 'network'
+  }
+  if (NETWORK_PATTERN.test(messages)) {
+    return 'network'
+  }
+  if (PROVIDER_PATTERN.test(messages)) {
+    return 'provider'
+  }
+  return 'unknown'
+}
+
+/**
+ * Whether retrying an upload that failed this way can succeed without anyone intervening
+ */
+export function isRetryableUploadError(category: UploadErrorCategory): boolean {
+  return category === 'network' || category === 'provider'
+}
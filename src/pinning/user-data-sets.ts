@@ -0,0 +1,138 @@
+/**
+ * A data set of its own for each pinning service user.
+ *
+ * Synapse creates a data set along with its first piece, so a user's data set
+ * comes into being with their first upload. It is tagged with the user's ID and
+ * recorded in the `user_data_sets` table, to be reused after a restart.
+ */
+
+import type { DatabaseSync } from 'node:sqlite'
+import type { StorageContext } from '@filoz/synapse-sdk'
+import type { Logger } from 'pino'
+import { createStorageContext, type DatasetOptions, type SynapseService } from '../core/synapse/index.js'
+
+/** Data set metadata key holding the ID of the user the data set belongs to */
+export const USER_METADATA_KEY = 'filecoinPinUser'
+
+export interface UserDataSet {
+  userId: string
+  /** Undefined from a rotation until the next upload creates the new data set */
+  dataSetId: number | undefined
+  /** When the data set was recorded or rotated (ms since epoch) */
+  created: number
+}
+
+interface UserDataSetRow {
+  user_id: string
+  data_set_id: number | null
+  created: number
+}
+
+export interface UserDataSetsInit {
+  database: DatabaseSync
+  synapseService: SynapseService
+  logger: Logger
+}
+
+/**
+ * Storage contexts for each user's data set, shared by all of the user's uploads
+ */
+export class UserDataSets {
+  private readonly db: DatabaseSync
+  private readonly synapseService: SynapseService
+  private readonly logger: Logger
+  /** Contexts being created or ready, per user; a failed creation is dropped so the next upload tries again */
+  private readonly contexts = new Map<string, Promise<StorageContext>>()
+
+  constructor(init: UserDataSetsInit) {
+    this.db = init.database
+    this.synapseService = init.synapseService
+    this.logger = init.logger
+  }
+
+  /**
+   * The storage context for the user's data set
+   *
+   * Without a recorded data set, one tagged with the user's ID is looked up,
+   * and failing that the user's first upload creates it.
+   */
+  async storageFor(userId: string): Promise<StorageContext> {
+    let context = this.contexts.get(userId)
+    if (context == null) {
+      const recorded = this.get(userId)
+      context = this._open(
+        userId,
+        recorded == null ? {} : recorded.dataSetId != null ? { useExisting: recorded.dataSetId } : { createNew: true }
+      )
+      this.contexts.set(userId, context)
+    }
+    return await context
+  }
+
+  /**
+   * Record the data set a context uploaded to, once its first upload has created it
+   */
+  remember(userId: string, storage: StorageContext): void {
+    const dataSetId = storage.dataSetId
+    if (dataSetId == null || dataSetId === this.get(userId)?.dataSetId) {
+      return
+    }
+    this._record(userId, dataSetId)
+    this.logger.info({ userId, dataSetId }, 'Recorded data set for user')
+  }
+
+  /**
+   * Send the user's future uploads to a new data set, created by the next upload
+   */
+  async rotate(userId: string): Promise<UserDataSet> {
+    const previousDataSetId = this.get(userId)?.dataSetId
+    this._record(userId, null)
+    const context = this._open(userId, { createNew: true })
+    this.contexts.set(userId, context)
+    await context
+    this.logger.info({ userId, previousDataSetId }, 'Rotated data set for user')
+    return this.get(userId) as UserDataSet
+  }
+
+  get(userId: string): UserDataSet | undefined {
+    const row = this.db.prepare('SELECT * FROM user_data_sets WHERE user_id = ?').get(userId) as
+      | UserDataSetRow
+      | undefined
+    return row != null ? rowToUserDataSet(row) : undefined
+  }
+
+  list(): UserDataSet[] {
+    const rows = this.db
+      .prepare('SELECT * FROM user_data_sets ORDER BY created DESC')
+      .all() as unknown as UserDataSetRow[]
+    return rows.map(rowToUserDataSet)
+  }
+
+  private _record(userId: string, dataSetId: number | null): void {
+    this.db
+      .prepare(
+        `INSERT INTO user_data_sets (user_id, data_set_id, created) VALUES (?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET data_set_id = excluded.data_set_id, created = excluded.created`
+      )
+      .run(userId, dataSetId, Date.now())
+  }
+
+  private async _open(userId: string, dataset: DatasetOptions): Promise<StorageContext> {
+    try {
+      // The gateway downloads every pin's piece from the server's provider, so user data sets live there too
+      const { storage } = await createStorageContext(this.synapseService.synapse, this.logger, {
+        dataset: { ...dataset, metadata: { [USER_METADATA_KEY]: userId } },
+        providerId: this.synapseService.providerInfo.id,
+      })
+      this.remember(userId, storage)
+      return storage
+    } catch (error) {
+      this.contexts.delete(userId)
+      throw error
+    }
+  }
+}
+
+function rowToUserDataSet(row: UserDataSetRow): UserDataSet {
+  return { userId: row.user_id, dataSetId: row.data_set_id ?? undefined, created: row.created }
+}
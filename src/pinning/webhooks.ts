@@ -0,0 +1,345 @@
+/**
+ * Signed webhook notifications for pin lifecycle changes.
+ *
+ * Each delivery is a JSON POST signed with HMAC-SHA256 over
+ * `<timestamp>.<body>` using the token's webhook secret. Deliveries that still
+ * fail after every retry are kept in the `webhook_dead_letters` table.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'node:crypto'
+import { lookup } from 'node:dns/promises'
+import { BlockList, isIP } from 'node:net'
+import type { DatabaseSync } from 'node:sqlite'
+import { setTimeout as sleep } from 'node:timers/promises'
+import type { Logger } from 'pino'
+import type { StoredPinStatus } from '../filecoin-pin-store.js'
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_'
+
+export const SIGNATURE_HEADER = 'x-filecoin-pin-signature'
+export const TIMESTAMP_HEADER = 'x-filecoin-pin-timestamp'
+export const EVENT_HEADER = 'x-filecoin-pin-event'
+export const DELIVERY_HEADER = 'x-filecoin-pin-delivery'
+
+/**
+ * Addresses a pin's own webhook URL may not reach: this host, its networks,
+ * link-local cloud metadata services, multicast and reserved ranges
+ */
+const PRIVATE_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  // The unspecified and loopback addresses; IPv4-mapped addresses are checked against the IPv4 ranges
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * - `pin.pinning`: the pin left the queue and its DAG is being fetched
+ * - `pin.pinned`: the pin finished
+ * - `pin.failed`: the pin failed
+ * - `piece.confirmed`: the pin's piece was added to the data set on chain
+ */
+export type WebhookEvent = 'pin.pinning' | 'pin.pinned' | 'pin.failed' | 'piece.confirmed'
+
+/**
+ * Where a pin's notifications go and the secret they are signed with
+ */
+export interface WebhookTarget {
+  url: string
+  secret: string
+  /** Set for a pin's own `meta.webhook_url`, which is only delivered to if it resolves to public addresses */
+  publicOnly?: boolean
+}
+
+export interface WebhookPayload {
+  /** Delivery ID, the same across retries so receivers can drop duplicates */
+  id: string
+  event: WebhookEvent
+  /** ISO 8601 time of the event */
+  created: string
+  pin: {
+    requestid: string
+    status: StoredPinStatus['status']
+    created: string
+    pin: StoredPinStatus['pin']
+    info: Record<string, string>
+  }
+}
+
+export interface WebhookDeadLetter {
+  id: string
+  pinId: string
+  userId: string
+  event: WebhookEvent
+  url: string
+  payload: WebhookPayload
+  attempts: number
+  /** Why the last attempt failed */
+  error: string
+  created: number
+}
+
+interface DeadLetterRow {
+  id: string
+  pin_id: string
+  user_id: string
+  event: string
+  url: string
+  payload: string
+  attempts: number
+  error: string
+  created: number
+}
+
+export interface WebhookNotifierInit {
+  database: DatabaseSync
+  logger: Logger
+  /** Attempts per delivery before it is dead-lettered */
+  maxAttempts: number
+  /** Delay before the first retry (ms), doubled for each further retry */
+  retryDelay: number
+  /** Timeout for each request (ms) */
+  timeout: number
+  /** Hosts that `publicOnly` targets may use even if they resolve to private addresses */
+  allowedHosts: string[]
+}
+
+/**
+ * Generate a secret for signing a token's webhook deliveries
+ */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString('hex')}`
+}
+
+/**
+ * Whether a URL can receive webhooks
+ */
+export function isWebhookUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether an IP address is outside the loopback, link-local, private and reserved ranges
+ */
+export function isPublicAddress(address: string): boolean {
+  return !PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * Whether a URL can receive webhooks and its host only resolves to public
+ * addresses, so a client cannot point deliveries at the server's own network
+ *
+ * @param allowedHosts - Hosts the operator trusts whatever they resolve to
+ */
+export async function isPublicWebhookUrl(url: string, allowedHosts: string[] = []): Promise<boolean> {
+  if (!isWebhookUrl(url)) {
+    return false
+  }
+  // IPv6 hosts keep their brackets in URLs
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1')
+  if (allowedHosts.some((allowed) => allowed.toLowerCase() === host)) {
+    return true
+  }
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true })
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compute the signature header value for a delivery, as receivers should to verify it
+ *
+ * @param timestamp - Value of the timestamp header, in seconds since the epoch
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/**
+ * Build the body delivered for a pin event
+ */
+export function createWebhookPayload(event: WebhookEvent, pin: StoredPinStatus): WebhookPayload {
+  return {
+    id: randomUUID(),
+    event,
+    created: new Date().toISOString(),
+    pin: {
+      requestid: pin.id,
+      status: pin.status,
+      created: new Date(pin.created).toISOString(),
+      pin: pin.pin,
+      info: pin.info ?? {},
+    },
+  }
+}
+
+function rowToDeadLetter(row: DeadLetterRow): WebhookDeadLetter {
+  return {
+    id: row.id,
+    pinId: row.pin_id,
+    userId: row.user_id,
+    event: row.event as WebhookEvent,
+    url: row.url,
+    payload: JSON.parse(row.payload),
+    attempts: row.attempts,
+    error: row.error,
+    created: row.created,
+  }
+}
+
+/**
+ * Delivers webhooks in the background, retrying with backoff
+ */
+export class WebhookNotifier {
+  private readonly init: WebhookNotifierInit
+  private readonly controller = new AbortController()
+  private readonly inFlight = new Set<Promise<void>>()
+
+  constructor(init: WebhookNotifierInit) {
+    this.init = init
+  }
+
+  /**
+   * Queue a delivery of `event` for `pin`; never throws
+   */
+  notify(target: WebhookTarget, event: WebhookEvent, pin: StoredPinStatus): void {
+    if (this.controller.signal.aborted) {
+      return
+    }
+    const payload = createWebhookPayload(event, pin)
+    const delivery = this._deliver(target, payload, pin)
+      .catch((error: unknown) => {
+        this.init.logger.error(
+          { pinId: pin.id, event, delivery: payload.id, error },
+          'Webhook delivery could not be kept'
+        )
+      })
+      .finally(() => {
+        this.inFlight.delete(delivery)
+      })
+    this.inFlight.add(delivery)
+  }
+
+  /**
+   * Let requests in flight finish, dead-lettering deliveries that were waiting to be retried
+   */
+  async stop(): Promise<void> {
+    this.controller.abort()
+    await Promise.allSettled(this.inFlight)
+  }
+
+  /**
+   * Failed deliveries, newest first
+   */
+  listDeadLetters(limit = 100): WebhookDeadLetter[] {
+    const rows = this.init.database
+      .prepare('SELECT * FROM webhook_dead_letters ORDER BY created DESC, rowid DESC LIMIT ?')
+      .all(limit) as unknown as DeadLetterRow[]
+    return rows.map(rowToDeadLetter)
+  }
+
+  private async _deliver(target: WebhookTarget, payload: WebhookPayload, pin: StoredPinStatus): Promise<void> {
+    const { logger, maxAttempts, retryDelay, timeout } = this.init
+    const body = JSON.stringify(payload)
+    let attempts = 0
+    let lastError = ''
+
+    // Checked on each delivery, as the host may resolve elsewhere since the pin was made
+    const refused = target.publicOnly === true && !(await isPublicWebhookUrl(target.url, this.init.allowedHosts))
+    if (refused) {
+      lastError = 'Webhook URL does not resolve to public addresses'
+    }
+
+    while (!refused && attempts < maxAttempts) {
+      attempts++
+      try {
+        await this._post(target, payload, body, AbortSignal.timeout(timeout))
+        logger.debug({ pinId: pin.id, event: payload.event, delivery: payload.id, attempts }, 'Webhook delivered')
+        return
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+      }
+
+      if (attempts >= maxAttempts) {
+        break
+      }
+      if (this.controller.signal.aborted) {
+        lastError = 'Delivery abandoned at shutdown'
+        break
+      }
+      const delay = retryDelay * 2 ** (attempts - 1)
+      logger.warn(
+        { pinId: pin.id, event: payload.event, delivery: payload.id, attempts, delay, error: lastError },
+        'Webhook delivery failed, retrying'
+      )
+      try {
+        await sleep(delay, undefined, { signal: this.controller.signal, ref: false })
+      } catch {
+        lastError = 'Delivery abandoned at shutdown'
+        break
+      }
+    }
+
+    logger.error(
+      { pinId: pin.id, event: payload.event, delivery: payload.id, attempts, error: lastError },
+      'Webhook delivery failed, keeping it in the dead-letter log'
+    )
+    this.init.database
+      .prepare(
+        `INSERT INTO webhook_dead_letters (id, pin_id, user_id, event, url, payload, attempts, error, created)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(payload.id, pin.id, pin.userId, payload.event, target.url, body, attempts, lastError, Date.now())
+  }
+
+  private async _post(
+    target: WebhookTarget,
+    payload: WebhookPayload,
+    body: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        [EVENT_HEADER]: payload.event,
+        [DELIVERY_HEADER]: payload.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signWebhookPayload(target.secret, timestamp, body),
+      },
+      body,
+      signal,
+      redirect: 'manual',
+    })
+    // Only the status matters; release the connection
+    await response.body?.cancel()
+    if (!response.ok) {
+      throw new Error(`Webhook endpoint responded with HTTP ${response.status}`)
+    }
+  }
+}
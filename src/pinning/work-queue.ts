@@ -0,0 +1,129 @@
+/**
+ * Concurrency-limited work queue that shares slots fairly between users.
+ */
+
+export interface WorkQueueStats {
+  /** Tasks currently running */
+  active: number
+  /** Tasks waiting for a free slot */
+  queued: number
+  concurrency: number
+}
+
+interface QueuedTask {
+  run: () => Promise<void>
+  reject: (reason: Error) => void
+}
+
+/**
+ * Runs at most `concurrency` tasks at once
+ *
+ * Waiting tasks are kept in a FIFO queue per key (user), and free slots are
+ * handed to keys in round-robin order, so one user submitting a burst of work
+ * cannot starve everybody else.
+ */
+export class FairWorkQueue {
+  private readonly concurrency: number
+  private active = 0
+  private paused = false
+  /** Waiting tasks per key; Map order is the round-robin order */
+  private readonly waiting = new Map<string, QueuedTask[]>()
+
+  constructor(concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Work queue concurrency must be a positive integer, got ${concurrency}`)
+    }
+    this.concurrency = concurrency
+  }
+
+  /**
+   * Run a task once a slot is free
+   *
+   * @returns The task's result
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        run: () => Promise.resolve().then(task).then(resolve, reject),
+        reject,
+      }
+      const tasks = this.waiting.get(key)
+      if (tasks == null) {
+        this.waiting.set(key, [queued])
+      } else {
+        tasks.push(queued)
+      }
+      this._dispatch()
+    })
+  }
+
+  /**
+   * Reject every task that has not started yet
+   *
+   * @returns Number of tasks rejected
+   */
+  clear(reason: Error): number {
+    let cleared = 0
+    for (const tasks of this.waiting.values()) {
+      for (const task of tasks) {
+        task.reject(reason)
+        cleared++
+      }
+    }
+    this.waiting.clear()
+    return cleared
+  }
+
+  /**
+   * Stop starting tasks; running tasks carry on and waiting ones wait for resume()
+   */
+  pause(): void {
+    this.paused = true
+  }
+
+  resume(): void {
+    this.paused = false
+    this._dispatch()
+  }
+
+  get isPaused(): boolean {
+    return this.paused
+  }
+
+  getStats(): WorkQueueStats {
+    let queued = 0
+    for (const tasks of this.waiting.values()) {
+      queued += tasks.length
+    }
+    return { active: this.active, queued, concurrency: this.concurrency }
+  }
+
+  private _dispatch(): void {
+    while (!this.paused && this.active < this.concurrency) {
+      const task = this._takeNext()
+      if (task == null) {
+        return
+      }
+      this.active++
+      void task.run().finally(() => {
+        this.active--
+        this._dispatch()
+      })
+    }
+  }
+
+  private _takeNext(): QueuedTask | undefined {
+    for (const [key, tasks] of this.waiting) {
+      const task = tasks.shift()
+      // Move this key to the back of the rotation
+      this.waiting.delete(key)
+      if (tasks.length > 0) {
+        this.waiting.set(key, tasks)
+      }
+      if (task != null) {
+        return task
+      }
+    }
+    return undefined
+  }
+}
@@ -28,13 +28,12 @@ export async function startServer(): Promise<void> {
   logger.info(`Starting ${serviceInfo.service} v${serviceInfo.version} daemon...`)
 
   try {
-    const { server, pinStore } = await createFilecoinPinningServer(config, logger, serviceInfo)
+    const { server } = await createFilecoinPinningServer(config, logger, serviceInfo)
 
     process.on('SIGINT', () => {
       void (async () => {
         logger.info('Received SIGINT, shutting down gracefully...')
         await server.close()
-        await pinStore.stop()
         process.exit(0)
       })()
     })
@@ -43,7 +42,6 @@ export async function startServer(): Promise<void> {
       void (async () => {
         logger.info('Received SIGTERM, shutting down gracefully...')
         await server.close()
-        await pinStore.stop()
         process.exit(0)
       })()
     })
@@ -5,13 +5,18 @@ import * as raw from 'multiformats/codecs/raw'
 import { sha256 } from 'multiformats/hashes/sha2'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createConfig } from '../../config.js'
-import { FilecoinPinStore } from '../../filecoin-pin-store.js'
+import { FilecoinPinStore, type FilecoinStoredPinStatus } from '../../filecoin-pin-store.js'
 import { createLogger } from '../../logger.js'
 import { MockSynapse, mockProviderInfo } from '../mocks/synapse-mocks.js'
 
 // Mock the Synapse SDK - vi.mock requires async import for ES modules
 vi.mock('@filoz/synapse-sdk', async () => await import('../mocks/synapse-sdk.js'))
 
+// Skip the IPNI indexer lookups the store makes once pieces are confirmed
+vi.mock('../../core/utils/validate-ipni-advertisement.js', () => ({
+  validateIPNIAdvertisement: vi.fn().mockResolvedValue(true),
+}))
+
 describe('FilecoinPinStore', () => {
   let pinStore: FilecoinPinStore
   let contentOriginHelia: any
@@ -31,6 +36,7 @@ describe('FilecoinPinStore', () => {
     // Create test config with output directory and fake private key
     const config = {
       ...createConfig(),
+      databasePath: ':memory:',
       carStoragePath: testOutputDir,
       privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
     }
@@ -244,6 +250,94 @@ describe('FilecoinPinStore', () => {
     })
   })
 
+  describe('Aggregation', () => {
+    it('should upload small pins together as one piece', async () => {
+      const config = {
+        ...createConfig(),
+        databasePath: ':memory:',
+        carStoragePath: testOutputDir,
+        aggregationThreshold: 1024 * 1024,
+        aggregationMaxDelay: 500,
+      }
+      const mockSynapse = new MockSynapse()
+      const synapseService = {
+        synapse: mockSynapse as any,
+        storage: await mockSynapse.storage.createContext(),
+        providerInfo: mockProviderInfo,
+      }
+      const aggregatingStore = new FilecoinPinStore({ config, logger: createLogger(config), synapseService })
+      await aggregatingStore.start()
+
+      try {
+        const origins = contentOriginHelia.libp2p.getMultiaddrs().map((addr: any) => addr.toString())
+        const pins: FilecoinStoredPinStatus[] = []
+        for (const content of ['aggregate one', 'aggregate two']) {
+          const bytes = new TextEncoder().encode(content)
+          const cid = CID.create(1, raw.code, await sha256.digest(bytes))
+          await contentOriginHelia.blockstore.put(cid, bytes)
+          pins.push(await aggregatingStore.pin(testUser, cid, { origins }))
+        }
+
+        await vi.waitFor(
+          async () => {
+            for (const pin of pins) {
+              expect((await aggregatingStore.get(testUser, pin.id))?.status).toBe('pinned')
+            }
+          },
+          { timeout: 10000, interval: 200 }
+        )
+
+        const [first, second] = await Promise.all(pins.map(async (pin) => aggregatingStore.get(testUser, pin.id)))
+        expect(first?.info?.synapse_piece_cid).toBeDefined()
+        expect(first?.info?.synapse_piece_cid).toBe(second?.info?.synapse_piece_cid)
+        expect(first?.filecoin?.aggregate?.carFilePath).toBe(second?.filecoin?.aggregate?.carFilePath)
+        expect(first?.info?.piece_offset).not.toBe(second?.info?.piece_offset)
+        expect(first?.pin.cid).not.toBe(second?.pin.cid)
+      } finally {
+        await aggregatingStore.stop()
+      }
+    }, 20000)
+  })
+
+  describe('Content Routing', () => {
+    it('should fetch pins without origins from bootstrap peers', async () => {
+      const bytes = new TextEncoder().encode('Bootstrap routed block')
+      const cid = CID.create(1, raw.code, await sha256.digest(bytes))
+      await contentOriginHelia.blockstore.put(cid, bytes)
+
+      const config = {
+        ...createConfig(),
+        databasePath: ':memory:',
+        carStoragePath: testOutputDir,
+        bootstrapPeers: contentOriginHelia.libp2p
+          .getMultiaddrs()
+          .map((addr: any) => addr.toString())
+          .filter((addr: string) => addr.startsWith('/ip4/127.0.0.1/tcp/')),
+      }
+      const mockSynapse = new MockSynapse()
+      const synapseService = {
+        synapse: mockSynapse as any,
+        storage: await mockSynapse.storage.createContext(),
+        providerInfo: mockProviderInfo,
+      }
+      const routedStore = new FilecoinPinStore({ config, logger: createLogger(config), synapseService })
+      await routedStore.start()
+
+      try {
+        const pin = await routedStore.pin(testUser, cid)
+        await vi.waitFor(
+          async () => {
+            expect((await routedStore.get(testUser, pin.id))?.status).toBe('pinned')
+          },
+          { timeout: 10000, interval: 200 }
+        )
+        expect((await routedStore.get(testUser, pin.id))?.info?.blocks_written).toBe('1')
+      } finally {
+        await routedStore.stop()
+      }
+    }, 20000)
+  })
+
   describe('Error Handling', () => {
     it('should handle pin processing failures gracefully', async () => {
       // Create a CID for non-existent content
@@ -294,6 +388,7 @@ describe('FilecoinPinStore', () => {
 
       const config = {
         ...createConfig(),
+        databasePath: ':memory:',
         privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
       }
 
@@ -315,6 +410,7 @@ describe('FilecoinPinStore', () => {
 
       const config = {
         ...createConfig(),
+        databasePath: ':memory:',
         privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
       }
 
@@ -3,7 +3,7 @@ import { noise } from '@chainsafe/libp2p-noise'
 import { yamux } from '@chainsafe/libp2p-yamux'
 import { SIZE_CONSTANTS } from '@filoz/synapse-sdk'
 import { unixfs } from '@helia/unixfs'
-import { CarReader } from '@ipld/car'
+import { CarReader, CarWriter } from '@ipld/car'
 import * as dagCbor from '@ipld/dag-cbor'
 import { identify } from '@libp2p/identify'
 import { tcp } from '@libp2p/tcp'
@@ -18,6 +18,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createConfig } from '../../config.js'
 import { createFilecoinPinningServer } from '../../filecoin-pinning-server.js'
 import { createLogger } from '../../logger.js'
+import type { TokenStore } from '../../pinning/token-store.js'
 
 // Mock the Synapse SDK - vi.mock requires async import for ES modules
 vi.mock('@filoz/synapse-sdk', async (importOriginal) => {
@@ -30,6 +31,24 @@ vi.mock('@filoz/synapse-sdk', async (importOriginal) => {
   }
 })
 
+// Skip the IPNI indexer lookups the store makes once pieces are confirmed
+vi.mock('../../core/utils/validate-ipni-advertisement.js', () => ({
+  validateIPNIAdvertisement: vi.fn().mockResolvedValue(true),
+}))
+
+// The mocked SDK has no payments API, so the wallet status comes from here
+vi.mock('../../core/payments/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../core/payments/index.js')>()),
+  getPaymentStatus: vi.fn().mockResolvedValue({
+    network: 'calibration',
+    address: '0x1234567890123456789012345678901234567890',
+    filBalance: 2n * 10n ** 18n,
+    walletUsdfcBalance: 5n * 10n ** 18n,
+    filecoinPayBalance: 10n ** 18n,
+    currentAllowances: { rateAllowance: 0n, lockupAllowance: 0n, lockupUsed: 0n },
+  }),
+}))
+
 // Type for API responses
 interface PinResponse {
   requestid: string
@@ -38,6 +57,7 @@ interface PinResponse {
     cid: string
     name?: string
   }
+  delegates: string[]
   info?: any
 }
 
@@ -50,6 +70,8 @@ describe('End-to-End Pinning Service', () => {
   let clientHelia: any
   let pinningServer: any
   let pinStore: any
+  let tokenStore: TokenStore
+  let accessToken: string
   let serverAddress: string
   const testOutputDir = './test-e2e-cars'
 
@@ -57,6 +79,7 @@ describe('End-to-End Pinning Service', () => {
     // Create test config with test private key
     const config = {
       ...createConfig(),
+      databasePath: ':memory:',
       carStoragePath: testOutputDir,
       port: 0, // Use random port
       privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
@@ -87,6 +110,8 @@ describe('End-to-End Pinning Service', () => {
     const serverResult = await createFilecoinPinningServer(config, logger, serviceInfo)
     pinningServer = serverResult.server
     pinStore = serverResult.pinStore
+    tokenStore = serverResult.tokenStore
+    accessToken = tokenStore.issue({ id: 'test-user', name: 'Test User' }).token
 
     // Get the actual server address
     const address = pinningServer.server.address()
@@ -133,7 +158,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: testCID.toString(),
@@ -150,6 +175,9 @@ describe('End-to-End Pinning Service', () => {
       expect(pinResult.requestid).toBeDefined()
       expect(pinResult.pin.cid).toBe(testCID.toString())
       expect(pinResult.pin.name).toBe('E2E Test Pin')
+      // Delegates are the shared node's addresses, so clients can connect to it directly
+      expect(pinResult.delegates.length).toBeGreaterThan(0)
+      expect(pinResult.delegates[0]).toContain('/p2p/')
 
       // 3. Wait for processing and check status
       let pinStatus: PinResponse | undefined
@@ -157,7 +185,7 @@ describe('End-to-End Pinning Service', () => {
       do {
         await new Promise((resolve) => setTimeout(resolve, 1000))
         const statusResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
-          headers: { Authorization: 'Bearer test-token' },
+          headers: { Authorization: `Bearer ${accessToken}` },
         })
         pinStatus = (await statusResponse.json()) as PinResponse
         attempts++
@@ -192,6 +220,91 @@ describe('End-to-End Pinning Service', () => {
       }
     }, 30000)
 
+    it('should stream pin progress as server-sent events', async () => {
+      const testData = new TextEncoder().encode('Hello, event stream!')
+      const testCID = CID.create(1, raw.code, await sha256.digest(testData))
+      await clientHelia.blockstore.put(testCID, testData)
+      const origins = clientHelia.libp2p.getMultiaddrs().map((addr: any) => addr.toString())
+
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), origins }),
+      })
+      const pinResult = (await pinResponse.json()) as PinResponse
+
+      const eventsResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}/events`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        signal: AbortSignal.timeout(20000),
+      })
+      expect(eventsResponse.status).toBe(200)
+      expect(eventsResponse.headers.get('content-type')).toBe('text/event-stream')
+
+      // The stream ends by itself once the pin is pinned
+      const events = (await eventsResponse.text())
+        .split('\n\n')
+        .filter((message) => message.startsWith('event: '))
+        .map((message) => {
+          const [eventLine, dataLine] = message.split('\n')
+          return { event: eventLine?.slice('event: '.length), data: JSON.parse(dataLine?.slice('data: '.length) ?? '') }
+        })
+
+      expect(events[0]).toMatchObject({ event: 'status', data: { requestid: pinResult.requestid } })
+      expect(events).toContainEqual({
+        event: 'car',
+        data: { blocks_written: 1, total_size: testData.length, missing_blocks: 0, partial: false },
+      })
+      expect(events).toContainEqual({ event: 'upload', data: expect.objectContaining({ type: 'onUploadComplete' }) })
+      expect(events.at(-1)).toMatchObject({ event: 'status', data: { status: 'pinned' } })
+
+      // Settled pins get their status and nothing more
+      const settledResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}/events`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(await settledResponse.text()).toMatch(/^event: status\ndata: .*"status":"pinned".*\n\n$/)
+    }, 30000)
+
+    it('should serve pinned content over the trustless gateway without a token', async () => {
+      const testData = new TextEncoder().encode('Hello, gateway!')
+      const testCID = CID.create(1, raw.code, await sha256.digest(testData))
+      await clientHelia.blockstore.put(testCID, testData)
+      const origins = clientHelia.libp2p.getMultiaddrs().map((addr: any) => addr.toString())
+
+      const notPinned = await fetch(`${serverAddress}/ipfs/${testCID}?format=raw`)
+      expect(notPinned.status).toBe(404)
+
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), origins }),
+      })
+      const pinResult = (await pinResponse.json()) as PinResponse
+      // Reading the event stream to its end waits for the pin to settle
+      await (
+        await fetch(`${serverAddress}/pins/${pinResult.requestid}/events`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          signal: AbortSignal.timeout(20000),
+        })
+      ).text()
+
+      const rawResponse = await fetch(`${serverAddress}/ipfs/${testCID}`, {
+        headers: { Accept: 'application/vnd.ipld.raw' },
+      })
+      expect(rawResponse.status).toBe(200)
+      expect(rawResponse.headers.get('content-type')).toBe('application/vnd.ipld.raw')
+      expect(new Uint8Array(await rawResponse.arrayBuffer())).toEqual(testData)
+
+      const carResponse = await fetch(`${serverAddress}/ipfs/${testCID}?format=car`)
+      expect(carResponse.status).toBe(200)
+      expect(carResponse.headers.get('content-type')).toContain('application/vnd.ipld.car; version=1')
+      const reader = await CarReader.fromBytes(new Uint8Array(await carResponse.arrayBuffer()))
+      expect((await reader.getRoots()).map(String)).toEqual([testCID.toString()])
+      expect((await reader.get(testCID as any))?.bytes).toEqual(testData)
+
+      const htmlResponse = await fetch(`${serverAddress}/ipfs/${testCID}`, { headers: { Accept: 'text/html' } })
+      expect(htmlResponse.status).toBe(406)
+    }, 30000)
+
     it('should handle DAG-CBOR multi-block structures', async () => {
       // 1. Create a multi-block DAG using DAG-CBOR
       const leaf1Data = { type: 'leaf', content: 'This is leaf 1', data: new Uint8Array(1024).fill(1) }
@@ -245,7 +358,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: rootCID.toString(),
@@ -264,7 +377,7 @@ describe('End-to-End Pinning Service', () => {
       do {
         await new Promise((resolve) => setTimeout(resolve, 1000))
         const statusResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
-          headers: { Authorization: 'Bearer test-token' },
+          headers: { Authorization: `Bearer ${accessToken}` },
         })
         pinStatus = (await statusResponse.json()) as PinResponse
         attempts++
@@ -324,7 +437,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: fileCID.toString(),
@@ -343,7 +456,7 @@ describe('End-to-End Pinning Service', () => {
       do {
         await new Promise((resolve) => setTimeout(resolve, 2000))
         const statusResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
-          headers: { Authorization: 'Bearer test-token' },
+          headers: { Authorization: `Bearer ${accessToken}` },
         })
         pinStatus = (await statusResponse.json()) as PinResponse
         attempts++
@@ -403,7 +516,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: fileCID.toString(),
@@ -422,7 +535,7 @@ describe('End-to-End Pinning Service', () => {
       do {
         await new Promise((resolve) => setTimeout(resolve, 2000))
         const statusResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
-          headers: { Authorization: 'Bearer test-token' },
+          headers: { Authorization: `Bearer ${accessToken}` },
         })
         pinStatus = (await statusResponse.json()) as PinResponse
         attempts++
@@ -495,7 +608,7 @@ describe('End-to-End Pinning Service', () => {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            Authorization: 'Bearer test-token',
+            Authorization: `Bearer ${accessToken}`,
           },
           body: JSON.stringify({
             cid: content.cid.toString(),
@@ -518,7 +631,7 @@ describe('End-to-End Pinning Service', () => {
         do {
           await new Promise((resolve) => setTimeout(resolve, 1000))
           const statusResponse = await fetch(`${serverAddress}/pins/${(pinResult as PinResponse).requestid}`, {
-            headers: { Authorization: 'Bearer test-token' },
+            headers: { Authorization: `Bearer ${accessToken}` },
           })
           pinStatus = (await statusResponse.json()) as PinResponse
           attempts++
@@ -569,7 +682,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: testCID.toString(),
@@ -580,9 +693,9 @@ describe('End-to-End Pinning Service', () => {
 
       const pinResult = (await pinResponse.json()) as PinResponse
 
-      // 2. List pins
-      const listResponse = await fetch(`${serverAddress}/pins`, {
-        headers: { Authorization: 'Bearer test-token' },
+      // 2. List pins, which only shows pinned ones unless asked for others
+      const listResponse = await fetch(`${serverAddress}/pins?status=queued,pinning,pinned,failed`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
       })
 
       expect(listResponse.status).toBe(200)
@@ -597,6 +710,45 @@ describe('End-to-End Pinning Service', () => {
       expect(ourPin?.pin.name).toBe('List Test Pin')
     }, 20000)
 
+    it('should filter and paginate pin listings via HTTP API', async () => {
+      const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` }
+      const created: PinResponse[] = []
+      for (const name of ['Alpha Photos', 'alpha notes', 'Beta Photos']) {
+        const cid = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode(name)))
+        const response = await fetch(`${serverAddress}/pins`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ cid: cid.toString(), name, meta: { album: name.split(' ')[1] ?? '' } }),
+        })
+        created.push((await response.json()) as PinResponse)
+        await new Promise((resolve) => setTimeout(resolve, 5))
+      }
+
+      // None of these pins gets pinned, so every status is asked for
+      const list = async (params: Record<string, string>): Promise<ListResponse> => {
+        const query = new URLSearchParams({ status: 'queued,pinning,pinned,failed', ...params })
+        const response = await fetch(`${serverAddress}/pins?${query.toString()}`, { headers })
+        expect(response.status).toBe(200)
+        return (await response.json()) as ListResponse
+      }
+
+      const page = await list({ limit: '1' })
+      expect(page.count).toBe(3)
+      expect(page.results).toHaveLength(1)
+
+      expect((await list({ name: 'alpha', match: 'ipartial' })).count).toBe(2)
+      expect((await list({ name: 'alpha notes' })).count).toBe(1)
+      expect((await list({ meta: JSON.stringify({ album: 'Photos' }) })).count).toBe(2)
+      expect((await list({ cid: `${created[0]?.pin.cid},${created[2]?.pin.cid}` })).count).toBe(2)
+
+      // Without a status only pinned pins are listed
+      const pinnedResponse = await fetch(`${serverAddress}/pins?name=alpha&match=ipartial`, { headers })
+      expect(((await pinnedResponse.json()) as ListResponse).count).toBe(0)
+
+      const badResponse = await fetch(`${serverAddress}/pins?status=unknown`, { headers })
+      expect(badResponse.status).toBe(400)
+    }, 20000)
+
     it('should handle pin cancellation via HTTP API', async () => {
       // 1. Create content and start pin
       const testData = new TextEncoder().encode('Cancel test content')
@@ -612,7 +764,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: testCID.toString(),
@@ -626,18 +778,405 @@ describe('End-to-End Pinning Service', () => {
       // 2. Cancel the pin
       const cancelResponse = await fetch(`${serverAddress}/pins/${String(pinResult.requestid)}`, {
         method: 'DELETE',
-        headers: { Authorization: 'Bearer test-token' },
+        headers: { Authorization: `Bearer ${accessToken}` },
       })
 
       expect(cancelResponse.status).toBe(202)
 
       // 3. Verify pin is no longer accessible
       const getResponse = await fetch(`${serverAddress}/pins/${String(pinResult.requestid)}`, {
-        headers: { Authorization: 'Bearer test-token' },
+        headers: { Authorization: `Bearer ${accessToken}` },
       })
 
       expect(getResponse.status).toBe(404)
     }, 15000)
+
+    it('should replace pins via HTTP API, keeping the request ID', async () => {
+      const cids: CID[] = []
+      for (const text of ['Original content', 'Replacement content']) {
+        const data = new TextEncoder().encode(text)
+        const cid = CID.create(1, raw.code, await sha256.digest(data))
+        await clientHelia.blockstore.put(cid, data)
+        cids.push(cid)
+      }
+      const [originalCID, replacementCID] = cids as [CID, CID]
+      const origins = clientHelia.libp2p.getMultiaddrs().map((addr: any) => addr.toString())
+      const post = async (path: string, body: unknown) =>
+        await fetch(`${serverAddress}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+          body: JSON.stringify(body),
+        })
+
+      const pinResult = (await (await post('/pins', { cid: originalCID.toString(), origins })).json()) as PinResponse
+
+      const replaceResponse = await post(`/pins/${pinResult.requestid}`, {
+        cid: replacementCID.toString(),
+        name: 'Replacement',
+        origins,
+      })
+      expect(replaceResponse.status).toBe(202)
+      expect(await replaceResponse.json()).toMatchObject({
+        requestid: pinResult.requestid,
+        status: 'queued',
+        pin: { cid: replacementCID.toString(), name: 'Replacement' },
+      })
+
+      expect((await post(`/pins/${pinResult.requestid}`, { name: 'No CID' })).status).toBe(400)
+      expect((await post('/pins/unknown-request', { cid: replacementCID.toString() })).status).toBe(404)
+    }, 15000)
+
+    it('should pin CARs uploaded over HTTP, whole or streamed', async () => {
+      const carOf = async (text: string): Promise<{ cid: CID; car: Uint8Array<ArrayBuffer> }> => {
+        const bytes = new TextEncoder().encode(text)
+        const cid = CID.create(1, raw.code, await sha256.digest(bytes))
+        // @ipld/car has its own copy of multiformats, whose CID type differs from ours
+        const { writer, out } = CarWriter.create([cid as any])
+        const chunks: Uint8Array[] = []
+        const collected = (async () => {
+          for await (const chunk of out) chunks.push(chunk)
+        })()
+        await writer.put({ cid: cid as any, bytes })
+        await writer.close()
+        await collected
+        return { cid, car: new Uint8Array(Buffer.concat(chunks)) }
+      }
+      const headers = { 'Content-Type': 'application/vnd.ipld.car', Authorization: `Bearer ${accessToken}` }
+      const waitForPinned = async (requestid: string): Promise<PinResponse> => {
+        let pinStatus: PinResponse | undefined
+        await vi.waitFor(
+          async () => {
+            const response = await fetch(`${serverAddress}/pins/${requestid}`, {
+              headers: { Authorization: `Bearer ${accessToken}` },
+            })
+            pinStatus = (await response.json()) as PinResponse
+            expect(pinStatus.status).toBe('pinned')
+          },
+          { timeout: 10000, interval: 200 }
+        )
+        return pinStatus as PinResponse
+      }
+
+      const whole = await carOf('Uploaded whole')
+      const wholeResponse = await fetch(
+        `${serverAddress}/upload?name=Whole&meta=${encodeURIComponent('{"app":"demo"}')}`,
+        {
+          method: 'POST',
+          headers,
+          body: whole.car,
+        }
+      )
+      expect(wholeResponse.status).toBe(202)
+      const wholeResult = (await wholeResponse.json()) as PinResponse
+      expect(wholeResult.pin).toEqual({ cid: whole.cid.toString(), name: 'Whole', meta: { app: 'demo' } })
+      expect((await waitForPinned(wholeResult.requestid)).info).toMatchObject({ car_uploaded: 'true' })
+
+      const streamed = await carOf('Uploaded as a stream')
+      const streamResponse = await fetch(`${serverAddress}/upload/stream`, {
+        method: 'POST',
+        headers,
+        body: new ReadableStream({
+          start(controller) {
+            controller.enqueue(streamed.car.subarray(0, 10))
+            controller.enqueue(streamed.car.subarray(10))
+            controller.close()
+          },
+        }),
+        duplex: 'half',
+      } as RequestInit)
+      expect(streamResponse.status).toBe(202)
+      const streamResult = (await streamResponse.json()) as PinResponse
+      expect(streamResult.pin.cid).toBe(streamed.cid.toString())
+      await waitForPinned(streamResult.requestid)
+
+      const invalidResponse = await fetch(`${serverAddress}/upload`, {
+        method: 'POST',
+        headers,
+        body: 'not a CAR',
+      })
+      expect(invalidResponse.status).toBe(400)
+      expect(((await invalidResponse.json()) as { error: { details: string } }).error.details).toMatch(/^Invalid CAR/)
+
+      const jsonResponse = await fetch(`${serverAddress}/upload`, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: '{}',
+      })
+      expect(jsonResponse.status).toBe(415)
+
+      const anonymousResponse = await fetch(`${serverAddress}/upload/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/vnd.ipld.car' },
+        body: streamed.car,
+      })
+      expect(anonymousResponse.status).toBe(401)
+    }, 30000)
+  })
+
+  describe('Access Control', () => {
+    it('should reject unknown and revoked tokens', async () => {
+      const unknownResponse = await fetch(`${serverAddress}/pins`, {
+        headers: { Authorization: 'Bearer not-a-real-token' },
+      })
+      expect(unknownResponse.status).toBe(401)
+
+      const { token, record } = tokenStore.issue({ id: 'revoked-user', name: 'Revoked User' })
+      const validResponse = await fetch(`${serverAddress}/pins`, { headers: { Authorization: `Bearer ${token}` } })
+      expect(validResponse.status).toBe(200)
+
+      tokenStore.revoke(record.id)
+      const revokedResponse = await fetch(`${serverAddress}/pins`, { headers: { Authorization: `Bearer ${token}` } })
+      expect(revokedResponse.status).toBe(401)
+    })
+
+    it('should hide pins from other users', async () => {
+      const testCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('Tenancy test')))
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), name: 'Private Pin' }),
+      })
+      const pinResult = (await pinResponse.json()) as PinResponse
+
+      const otherToken = tokenStore.issue({ id: 'other-user', name: 'Other User' }).token
+      const headers = { Authorization: `Bearer ${otherToken}` }
+
+      const listResponse = await fetch(`${serverAddress}/pins`, { headers })
+      expect(((await listResponse.json()) as ListResponse).count).toBe(0)
+
+      const getResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, { headers })
+      expect(getResponse.status).toBe(404)
+
+      const deleteResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, { method: 'DELETE', headers })
+      expect(deleteResponse.status).toBe(404)
+
+      const ownerResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(ownerResponse.status).toBe(200)
+    })
+
+    it('should only let admin tokens retry pins', async () => {
+      const testCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('Retry test')))
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString() }),
+      })
+      const pinResult = (await pinResponse.json()) as PinResponse
+
+      const userResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}/retry`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(userResponse.status).toBe(403)
+
+      const adminToken = tokenStore.issue({ id: 'operator', name: 'Operator', admin: true }).token
+      const headers = { Authorization: `Bearer ${adminToken}` }
+
+      // Only failed pins can be retried
+      const activeResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}/retry`, {
+        method: 'POST',
+        headers,
+      })
+      expect(activeResponse.status).toBe(409)
+
+      const missingResponse = await fetch(`${serverAddress}/pins/pin-unknown/retry`, { method: 'POST', headers })
+      expect(missingResponse.status).toBe(404)
+    })
+
+    it('should validate webhook URLs and keep dead letters admin-only', async () => {
+      const testCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('Webhook test')))
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), meta: { webhook_url: 'ftp://example.com' } }),
+      })
+      expect(pinResponse.status).toBe(400)
+
+      // The server's own network is off limits to a pin's webhook
+      const metadataResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), meta: { webhook_url: 'http://169.254.169.254/latest' } }),
+      })
+      expect(metadataResponse.status).toBe(400)
+      expect(await metadataResponse.json()).toMatchObject({
+        error: { details: 'Invalid webhook_url: expected an http or https URL on a public host' },
+      })
+
+      const userResponse = await fetch(`${serverAddress}/admin/webhooks/dead-letters`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(userResponse.status).toBe(403)
+
+      const adminToken = tokenStore.issue({ id: 'operator', name: 'Operator', admin: true }).token
+      const adminResponse = await fetch(`${serverAddress}/admin/webhooks/dead-letters`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      })
+      expect(adminResponse.status).toBe(200)
+      expect(await adminResponse.json()).toEqual({ count: 0, results: [] })
+    })
+
+    it('should serve Prometheus metrics to admins', async () => {
+      const userResponse = await fetch(`${serverAddress}/metrics`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(userResponse.status).toBe(403)
+
+      const adminToken = tokenStore.issue({ id: 'metrics-operator', name: 'Operator', admin: true }).token
+      const adminResponse = await fetch(`${serverAddress}/metrics`, {
+        headers: { Authorization: `Bearer ${adminToken}` },
+      })
+      expect(adminResponse.status).toBe(200)
+      expect(adminResponse.headers.get('content-type')).toContain('text/plain; version=0.0.4')
+      const text = await adminResponse.text()
+      expect(text).toMatch(/^filecoin_pin_pins\{status="pinned"\} \d+$/m)
+      expect(text).toContain('filecoin_pin_queue_active{queue="fetch"}')
+    })
+
+    it('should give admins an API to inspect and steer the server', async () => {
+      const testCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('Admin test')))
+      const pinResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString(), name: 'admin test' }),
+      })
+      const pinResult = (await pinResponse.json()) as PinResponse
+
+      const userResponse = await fetch(`${serverAddress}/admin/pins`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(userResponse.status).toBe(403)
+
+      const adminToken = tokenStore.issue({ id: 'operator', name: 'Operator', admin: true }).token
+      const admin = async (method: string, path: string, body?: unknown) =>
+        await fetch(`${serverAddress}/admin${path}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${adminToken}`,
+            ...(body != null && { 'Content-Type': 'application/json' }),
+          },
+          ...(body != null && { body: JSON.stringify(body) }),
+        })
+
+      // Pins of every user are listed, with their owner
+      const listResponse = await admin('GET', '/pins?user=test-user&name=admin%20test')
+      expect(await listResponse.json()).toMatchObject({
+        count: 1,
+        results: [{ requestid: pinResult.requestid, user: 'test-user' }],
+      })
+
+      const drainResponse = await admin('POST', '/queue/drain')
+      expect(await drainResponse.json()).toMatchObject({ paused: false, draining: true })
+      const refusedResponse = await fetch(`${serverAddress}/pins`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ cid: testCID.toString() }),
+      })
+      expect(refusedResponse.status).toBe(503)
+      const resumeResponse = await admin('POST', '/queue/resume')
+      expect(await resumeResponse.json()).toMatchObject({ paused: false, draining: false })
+
+      // Content nobody serves keeps the pin in progress until an operator fails it
+      const failResponse = await admin('POST', `/pins/${pinResult.requestid}/fail`, { reason: 'Nobody has it' })
+      expect(failResponse.status).toBe(200)
+      expect(await failResponse.json()).toMatchObject({
+        status: 'failed',
+        info: { error: 'Nobody has it', reason: 'operator' },
+      })
+      expect((await admin('POST', `/pins/${pinResult.requestid}/fail`)).status).toBe(409)
+      expect((await admin('POST', `/pins/${pinResult.requestid}/retry`)).status).toBe(202)
+      expect((await admin('POST', '/pins/pin-unknown/fail')).status).toBe(404)
+
+      const walletResponse = await admin('GET', '/wallet')
+      expect(await walletResponse.json()).toMatchObject({
+        network: 'calibration',
+        fil_balance: '2.0',
+        wallet_usdfc_balance: '5.0',
+        filecoin_pay_balance: '1.0',
+      })
+
+      const storage = { data_set_id: 123, provider: { id: 1, name: 'Mock Provider' } }
+      expect(await (await admin('GET', '/storage')).json()).toMatchObject(storage)
+      expect(await (await admin('POST', '/storage/rotate')).json()).toMatchObject(storage)
+      const removals = await admin('GET', '/piece-removals?status=failed,skipped')
+      expect(removals.status).toBe(200)
+      expect(await removals.json()).toEqual({ results: [] })
+      expect((await admin('GET', '/piece-removals?status=gone')).status).toBe(400)
+      expect((await admin('POST', '/piece-removals/unknown/retry')).status).toBe(404)
+
+      // Users share the server's data set unless DATA_SET_PER_USER is set
+      expect(await (await admin('GET', '/storage')).json()).not.toHaveProperty('user_data_sets')
+      expect((await admin('POST', '/storage/rotate', { user: 'test-user' })).status).toBe(400)
+    })
+
+    it("should report the caller's usage and limits", async () => {
+      const { token } = tokenStore.issue({ id: 'fresh-user', name: 'Fresh User' })
+      const response = await fetch(`${serverAddress}/usage`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({
+        pins: 0,
+        total_size: 0,
+        blocks: 0,
+        limits: { pin_max_bytes: null, pin_max_blocks: null, user_max_bytes: null, user_max_blocks: null },
+      })
+    })
+  })
+
+  describe('API Contract', () => {
+    it('should reject requests the spec does not allow with Failure bodies', async () => {
+      const testCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('Schema test')))
+      const post = async (body: unknown): Promise<Response> =>
+        await fetch(`${serverAddress}/pins`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+          body: JSON.stringify(body),
+        })
+
+      for (const body of [
+        { name: 'No CID' },
+        { cid: 'not-a-cid' },
+        { cid: testCID.toString(), origins: ['not-a-multiaddr'] },
+        { cid: testCID.toString(), meta: { app: { nested: 'value' } } },
+        { cid: testCID.toString(), name: 'x'.repeat(256) },
+      ]) {
+        const response = await post(body)
+        expect(response.status).toBe(400)
+        const { error } = (await response.json()) as { error: { reason: string; details: string } }
+        expect(error.reason).toBe('BAD_REQUEST')
+        expect(error.details).toEqual(expect.any(String))
+      }
+
+      const listResponse = await fetch(`${serverAddress}/pins?limit=0`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(listResponse.status).toBe(400)
+      expect(((await listResponse.json()) as { error: { reason: string } }).error.reason).toBe('BAD_REQUEST')
+
+      const missingResponse = await fetch(`${serverAddress}/pins/pin-unknown`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      })
+      expect(await missingResponse.json()).toEqual({ error: { reason: 'NOT_FOUND', details: 'Pin not found' } })
+
+      const unauthorizedResponse = await fetch(`${serverAddress}/pins`)
+      expect(((await unauthorizedResponse.json()) as { error: { reason: string } }).error.reason).toBe('UNAUTHORIZED')
+    })
+
+    it('should serve its OpenAPI document without a token', async () => {
+      const response = await fetch(`${serverAddress}/openapi.json?v=1`)
+      expect(response.status).toBe(200)
+      const document = (await response.json()) as any
+      expect(document.openapi).toBe('3.0.0')
+      expect(Object.keys(document.paths)).toEqual(expect.arrayContaining(['/pins', '/pins/{requestId}', '/usage']))
+      // Operator routes are not part of the spec
+      expect(Object.keys(document.paths).filter((path) => path.startsWith('/admin'))).toEqual([])
+      expect(document.paths['/pins'].post.requestBody.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/Pin',
+      })
+    })
   })
 
   describe('Block Transfer Verification', () => {
@@ -676,7 +1215,7 @@ describe('End-to-End Pinning Service', () => {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: 'Bearer test-token',
+          Authorization: `Bearer ${accessToken}`,
         },
         body: JSON.stringify({
           cid: rootCID.toString(),
@@ -693,7 +1232,7 @@ describe('End-to-End Pinning Service', () => {
       do {
         await new Promise((resolve) => setTimeout(resolve, 1000))
         const statusResponse = await fetch(`${serverAddress}/pins/${pinResult.requestid}`, {
-          headers: { Authorization: 'Bearer test-token' },
+          headers: { Authorization: `Bearer ${accessToken}` },
         })
         pinStatus = (await statusResponse.json()) as PinResponse
         attempts++
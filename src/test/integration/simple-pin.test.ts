@@ -12,6 +12,11 @@ import { MockSynapse, mockProviderInfo } from '../mocks/synapse-mocks.js'
 // Mock the Synapse SDK - vi.mock requires async import for ES modules
 vi.mock('@filoz/synapse-sdk', async () => await import('../mocks/synapse-sdk.js'))
 
+// Skip the IPNI indexer lookups the store makes once pieces are confirmed
+vi.mock('../../core/utils/validate-ipni-advertisement.js', () => ({
+  validateIPNIAdvertisement: vi.fn().mockResolvedValue(true),
+}))
+
 describe('Simple Pin Test', () => {
   let pinStore: FilecoinPinStore
   let contentOriginHelia: any
@@ -28,6 +33,7 @@ describe('Simple Pin Test', () => {
     // Create test config with test private key
     const config = {
       ...createConfig(),
+      databasePath: ':memory:',
       carStoragePath: testOutputDir,
       privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
     }
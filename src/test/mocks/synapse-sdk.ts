@@ -74,6 +74,13 @@ export class StorageContext {
 
     return { pieceCid, pieceId, size: 1024 }
   }
+
+  /**
+   * Mock piece deletion, resolving to the hash of the transaction that schedules it
+   */
+  async deletePiece(_piece: string | number): Promise<string> {
+    return `0x${Math.random().toString(16).substring(2)}`
+  }
 }
 
 // Export mock RPC URLs matching SDK's structure
@@ -90,6 +97,12 @@ export const METADATA_KEYS = {
   IPFS_ROOT_CID: 'ipfsRootCid',
 }
 
+// Export mock SIZE_CONSTANTS with the SDK's upload limits
+export const SIZE_CONSTANTS = {
+  MIN_UPLOAD_SIZE: 127,
+  MAX_UPLOAD_SIZE: 200 * 1024 * 1024,
+}
+
 // Export types for test compatibility
 // In real code, import these from '@filoz/synapse-sdk'
 export type SynapseOptions = any
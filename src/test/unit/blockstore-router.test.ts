@@ -0,0 +1,64 @@
+import { MemoryBlockstore } from 'blockstore-core'
+import toBuffer from 'it-to-buffer'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { BlockstoreRouter } from '../../pinning/blockstore-router.js'
+
+describe('BlockstoreRouter', () => {
+  let block: Uint8Array
+  let cid: CID
+
+  beforeEach(async () => {
+    block = new TextEncoder().encode('routed block')
+    cid = CID.create(1, raw.code, await sha256.digest(block))
+  })
+
+  it('writes blocks to the blockstore of the session named in the options', async () => {
+    const router = new BlockstoreRouter()
+    const first = new MemoryBlockstore()
+    const second = new MemoryBlockstore()
+    const firstSession = router.open(first)
+    router.open(second)
+
+    await router.put(cid, block, firstSession.options)
+
+    expect(await first.has(cid)).toBe(true)
+    expect(await second.has(cid)).toBe(false)
+    expect(await router.has(cid, firstSession.options)).toBe(true)
+    expect(await toBuffer(router.get(cid, firstSession.options))).toEqual(block)
+  })
+
+  it('acts as an empty, read-only blockstore without a session', async () => {
+    const router = new BlockstoreRouter()
+    const blockstore = new MemoryBlockstore()
+    await blockstore.put(cid, block)
+    router.open(blockstore)
+
+    expect(await router.has(cid)).toBe(false)
+    await expect(toBuffer(router.get(cid))).rejects.toMatchObject({ name: 'NotFoundError' })
+    await expect(router.put(cid, block)).rejects.toThrow('No open blockstore session')
+  })
+
+  it('stops routing to a session once it is closed', async () => {
+    const router = new BlockstoreRouter()
+    const blockstore = new MemoryBlockstore()
+    const session = router.open(blockstore)
+    await router.put(cid, block, session.options)
+    expect(router.size).toBe(1)
+
+    session.close()
+
+    expect(router.size).toBe(0)
+    expect(await router.has(cid, session.options)).toBe(false)
+    await expect(router.put(cid, block, session.options)).rejects.toThrow('No open blockstore session')
+  })
+
+  it('passes the session signal with its options', () => {
+    const controller = new AbortController()
+    const session = new BlockstoreRouter().open(new MemoryBlockstore(), controller.signal)
+
+    expect(session.options.signal).toBe(controller.signal)
+  })
+})
@@ -4,7 +4,7 @@ import { CID } from 'multiformats/cid'
 import * as raw from 'multiformats/codecs/raw'
 import { sha256 } from 'multiformats/hashes/sha2'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
-import { CARWritingBlockstore } from '../../core/car/index.js'
+import { CARLimitExceededError, CARWritingBlockstore } from '../../core/car/index.js'
 
 describe('CARWritingBlockstore', () => {
   let blockstore: CARWritingBlockstore
@@ -299,6 +299,84 @@ describe('CARWritingBlockstore', () => {
     })
   })
 
+  describe('Limits', () => {
+    const limitedOutputPath = './test-limited.car'
+
+    afterEach(async () => {
+      await rm(limitedOutputPath, { force: true })
+    })
+
+    async function blockOf(text: string): Promise<{ cid: CID; bytes: Uint8Array }> {
+      const bytes = new TextEncoder().encode(text)
+      return { cid: CID.create(1, raw.code, await sha256.digest(bytes)), bytes }
+    }
+
+    it('should refuse blocks past the byte and block limits', async () => {
+      const second = await blockOf('second block')
+      const bySize = new CARWritingBlockstore({
+        rootCID: testCID,
+        outputPath: limitedOutputPath,
+        limits: { maxBytes: testBlock.length },
+      })
+      try {
+        await bySize.put(testCID, testBlock)
+        // Blocks already stored are deduplicated rather than counted again
+        await bySize.put(testCID, testBlock)
+        await expect(bySize.put(second.cid, second.bytes)).rejects.toMatchObject({
+          limit: 'bytes',
+          max: testBlock.length,
+        })
+        expect(bySize.getStats().blocksWritten).toBe(1)
+      } finally {
+        await bySize.cleanup()
+      }
+
+      const byCount = new CARWritingBlockstore({
+        rootCID: testCID,
+        outputPath: limitedOutputPath,
+        limits: { maxBlocks: 1 },
+      })
+      try {
+        await byCount.put(testCID, testBlock)
+        await expect(byCount.put(second.cid, second.bytes)).rejects.toThrow(CARLimitExceededError)
+      } finally {
+        await byCount.cleanup()
+      }
+    })
+
+    it('should keep refusing blocks once a limit was crossed', async () => {
+      const small = await blockOf('x')
+      const sizes: number[] = []
+      const limited = new CARWritingBlockstore({
+        rootCID: testCID,
+        outputPath: limitedOutputPath,
+        limits: {
+          beforePut: (size) => {
+            sizes.push(size)
+            if (size > 1) {
+              throw new Error('quota reached')
+            }
+          },
+        },
+      })
+      let exceeded: unknown
+      limited.on('limit:exceeded', ({ error }) => {
+        exceeded = error
+      })
+
+      try {
+        await expect(limited.put(testCID, testBlock)).rejects.toThrow('quota reached')
+        // Smaller blocks would fit, but the DAG is incomplete either way
+        await expect(limited.put(small.cid, small.bytes)).rejects.toThrow('quota reached')
+        expect(sizes).toEqual([testBlock.length])
+        expect(limited.getLimitError()).toBe(exceeded)
+        expect(limited.getStats().blocksWritten).toBe(0)
+      } finally {
+        await limited.cleanup()
+      }
+    })
+  })
+
   describe('Error Handling', () => {
     it('should handle cleanup gracefully', async () => {
       await blockstore.put(testCID, testBlock)
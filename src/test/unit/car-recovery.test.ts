@@ -0,0 +1,86 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { CARWritingBlockstore } from '../../core/car/index.js'
+import { copyBlocksFromPartialCar, movePartialCar } from '../../pinning/car-recovery.js'
+
+async function createBlock(content: string): Promise<{ cid: CID; bytes: Uint8Array }> {
+  const bytes = new TextEncoder().encode(content)
+  const hash = await sha256.digest(bytes)
+  return { cid: CID.create(1, raw.code, hash), bytes }
+}
+
+async function createCar(outputPath: string, blocks: Array<{ cid: CID; bytes: Uint8Array }>): Promise<Uint8Array> {
+  const blockstore = new CARWritingBlockstore({ rootCID: blocks[0]?.cid as CID, outputPath })
+  for (const block of blocks) {
+    await blockstore.put(block.cid, block.bytes)
+  }
+  await blockstore.finalize()
+  return readFile(outputPath)
+}
+
+function createMapBlockstore(): { blocks: Map<string, Uint8Array>; put(cid: CID, block: Uint8Array): Promise<CID> } {
+  const blocks = new Map<string, Uint8Array>()
+  return {
+    blocks,
+    put: async (cid, block) => {
+      blocks.set(cid.toString(), block)
+      return cid
+    },
+  }
+}
+
+describe('CAR recovery', () => {
+  let dataDir: string
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-car-recovery-'))
+  })
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('copies complete blocks and skips a truncated final block', async () => {
+    const blocks = await Promise.all(['one', 'two', 'three'].map(createBlock))
+    const carBytes = await createCar(join(dataDir, 'complete.car'), blocks)
+    const partialPath = join(dataDir, 'partial.car')
+    await writeFile(partialPath, carBytes.subarray(0, carBytes.length - 2))
+
+    const blockstore = createMapBlockstore()
+    const copied = await copyBlocksFromPartialCar(partialPath, blockstore)
+
+    expect(copied).toBe(2)
+    expect(Array.from(blockstore.blocks.keys())).toEqual([blocks[0]?.cid.toString(), blocks[1]?.cid.toString()])
+  })
+
+  it('copies nothing from a file without a complete header', async () => {
+    const partialPath = join(dataDir, 'empty.car')
+    await writeFile(partialPath, new Uint8Array([0x3a]))
+
+    expect(await copyBlocksFromPartialCar(partialPath, createMapBlockstore())).toBe(0)
+  })
+
+  it('moves an existing CAR file aside', async () => {
+    const carFilePath = join(dataDir, 'pin.car')
+    await writeFile(carFilePath, 'car bytes')
+
+    const partialPath = await movePartialCar(carFilePath)
+
+    expect(partialPath).toBe(`${carFilePath}.partial`)
+    expect(await readFile(partialPath as string, 'utf-8')).toBe('car bytes')
+    await expect(stat(carFilePath)).rejects.toThrow()
+  })
+
+  it('returns a leftover partial file, or undefined when there is nothing to resume', async () => {
+    const carFilePath = join(dataDir, 'pin.car')
+    expect(await movePartialCar(carFilePath)).toBeUndefined()
+
+    await writeFile(`${carFilePath}.partial`, 'older attempt')
+    expect(await movePartialCar(carFilePath)).toBe(`${carFilePath}.partial`)
+  })
+})
@@ -0,0 +1,132 @@
+import { mkdir, mkdtemp, rm, stat, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  type CarFile,
+  type CarFileReference,
+  type CarSweepOptions,
+  listCarFiles,
+  ORPHAN_GRACE_PERIOD,
+  planCarSweep,
+  touchCarFile,
+} from '../../pinning/car-retention.js'
+
+const DAY = 24 * 60 * 60 * 1000
+const now = 100 * DAY
+
+function file(path: string, size: number, lastUsed = now - 2 * ORPHAN_GRACE_PERIOD): CarFile {
+  return { path, size, lastUsed }
+}
+
+function reference(path: string, status: CarFileReference['status'], pinCompleted?: number): CarFileReference {
+  return { pinId: `pin-${path}`, status, path, pinCompleted }
+}
+
+function plan(files: CarFile[], references: CarFileReference[], options: Partial<CarSweepOptions> = {}) {
+  const result = planCarSweep(files, references, { policy: 'keep', retentionDays: 7, maxBytes: 0, now, ...options })
+  return {
+    orphaned: result.orphaned.map(({ path }) => path),
+    expired: result.expired.map(({ path }) => path),
+    evicted: result.evicted.map(({ path }) => path),
+    remainingBytes: result.remainingBytes,
+  }
+}
+
+describe('planCarSweep', () => {
+  it('deletes unreferenced files once they are past the grace period', () => {
+    const files = [file('old.car', 10), file('new.car', 10, now), file('uploading.car', 10), file('pinned.car', 10)]
+
+    expect(plan(files, [reference('pinned.car', 'pinned')], { inUse: new Set(['uploading.car']) })).toEqual({
+      orphaned: ['old.car'],
+      expired: [],
+      evicted: [],
+      remainingBytes: 30,
+    })
+  })
+
+  it('keeps the CARs and partial CARs of pins that are not pinned', () => {
+    const files = [file('queued.car.partial', 10), file('failed.car', 10), file('shared.car', 10)]
+    const references = [
+      reference('queued.car', 'queued'),
+      reference('failed.car', 'failed'),
+      reference('shared.car', 'pinned', 0),
+      reference('shared.car', 'pinning'),
+    ]
+
+    expect(plan(files, references, { policy: 'delete' }).expired).toEqual([])
+  })
+
+  it('expires pinned CARs by policy', () => {
+    const files = [file('week-old.car', 10), file('day-old.car', 10)]
+    const references = [
+      reference('week-old.car', 'pinned', now - 8 * DAY),
+      reference('day-old.car', 'pinned', now - DAY),
+    ]
+
+    expect(plan(files, references).expired).toEqual([])
+    expect(plan(files, references, { policy: 'delete' }).expired).toEqual(['week-old.car', 'day-old.car'])
+    expect(plan(files, references, { policy: 'days' }).expired).toEqual(['week-old.car'])
+  })
+
+  it('evicts the least recently used pinned CARs until under the quota', () => {
+    const files = [file('a.car', 40, 3), file('b.car', 40, 1), file('c.car', 40, 2), file('held.car', 40, 0)]
+    const references = [
+      reference('a.car', 'pinned'),
+      reference('b.car', 'pinned'),
+      reference('c.car', 'pinned'),
+      reference('held.car', 'pinning'),
+    ]
+
+    expect(plan(files, references, { policy: 'lru', maxBytes: 100 })).toMatchObject({
+      evicted: ['b.car', 'c.car'],
+      remainingBytes: 80,
+    })
+    // Other policies never evict, so the quota stays reached
+    expect(plan(files, references, { policy: 'keep', maxBytes: 100 })).toMatchObject({
+      evicted: [],
+      remainingBytes: 160,
+    })
+  })
+})
+
+describe('listCarFiles', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'filecoin-pin-retention-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('lists CARs, partial CARs and aggregates', async () => {
+    await mkdir(join(dir, 'aggregates'))
+    await writeFile(join(dir, 'pin.car'), 'car')
+    await writeFile(join(dir, 'pin.car.partial'), 'partial')
+    await writeFile(join(dir, 'notes.txt'), 'ignored')
+    await writeFile(join(dir, 'aggregates', 'aggregate-1.car'), 'aggregate')
+
+    const files = await listCarFiles(dir)
+    expect(files.map(({ path, size }) => [path, size]).sort()).toEqual([
+      [join(dir, 'aggregates', 'aggregate-1.car'), 9],
+      [join(dir, 'pin.car'), 3],
+      [join(dir, 'pin.car.partial'), 7],
+    ])
+    expect(await listCarFiles(join(dir, 'missing'))).toEqual([])
+  })
+
+  it('marks served files as recently used', async () => {
+    const path = join(dir, 'pin.car')
+    await writeFile(path, 'car')
+    const written = new Date(Date.now() - DAY)
+    await utimes(path, written, written)
+
+    await touchCarFile(path)
+
+    const [listed] = await listCarFiles(dir)
+    expect(listed?.lastUsed).toBeGreaterThan(written.getTime())
+    expect(Math.round((await stat(path)).mtimeMs)).toBe(written.getTime())
+  })
+})
@@ -29,6 +29,14 @@ describe('Config', () => {
     expect(config.databasePath).toBe(join(expectedDataDir, 'pins.db'))
     expect(config.carStoragePath).toBe(join(expectedDataDir, 'cars'))
     expect(config.logLevel).toBe('info')
+    expect(config.maxConcurrentFetches).toBe(4)
+    expect(config.maxConcurrentUploads).toBe(2)
+    expect(config.missingBlockPolicy).toBe('fail')
+    expect(config.carRetention).toBe('keep')
+    expect(config.carStorageMaxBytes).toBe(0)
+    expect(config.libp2pTransports).toEqual(['tcp'])
+    expect(config.bootstrapPeers).toEqual([])
+    expect(config.dhtClient).toBe(false)
   })
 
   it('should use environment variables when provided', () => {
@@ -47,4 +55,44 @@ describe('Config', () => {
     delete process.env.HOST
     delete process.env.LOG_LEVEL
   })
+
+  it('should parse content routing lists', () => {
+    process.env.LIBP2P_TRANSPORTS = 'tcp, websockets'
+    process.env.BOOTSTRAP_PEERS = '/ip4/127.0.0.1/tcp/4001/p2p/peer-a,,/dns4/example.org/tcp/443/wss/p2p/peer-b'
+
+    try {
+      const config = createConfig()
+      expect(config.libp2pTransports).toEqual(['tcp', 'websockets'])
+      expect(config.bootstrapPeers).toEqual([
+        '/ip4/127.0.0.1/tcp/4001/p2p/peer-a',
+        '/dns4/example.org/tcp/443/wss/p2p/peer-b',
+      ])
+
+      process.env.LIBP2P_TRANSPORTS = 'tcp,carrier-pigeon'
+      expect(() => createConfig()).toThrow('Invalid LIBP2P_TRANSPORTS entry "carrier-pigeon"')
+    } finally {
+      delete process.env.LIBP2P_TRANSPORTS
+      delete process.env.BOOTSTRAP_PEERS
+    }
+  })
+
+  it('should reject an unknown missing block policy', () => {
+    process.env.MISSING_BLOCK_POLICY = 'ignore'
+
+    try {
+      expect(() => createConfig()).toThrow('Invalid MISSING_BLOCK_POLICY')
+    } finally {
+      delete process.env.MISSING_BLOCK_POLICY
+    }
+  })
+
+  it('should reject an unknown CAR retention policy', () => {
+    process.env.CAR_RETENTION = 'forever'
+
+    try {
+      expect(() => createConfig()).toThrow('Invalid CAR_RETENTION')
+    } finally {
+      delete process.env.CAR_RETENTION
+    }
+  })
 })
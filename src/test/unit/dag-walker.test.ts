@@ -0,0 +1,68 @@
+import * as dagCbor from '@ipld/dag-cbor'
+import { MemoryBlockstore } from 'blockstore-core'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { describe, expect, it } from 'vitest'
+import { walkDag } from '../../pinning/dag-walker.js'
+
+async function putBlock(blockstore: MemoryBlockstore, code: number, bytes: Uint8Array): Promise<CID> {
+  const cid = CID.create(1, code, await sha256.digest(bytes))
+  await blockstore.put(cid, bytes)
+  return cid
+}
+
+function heliaFor(blockstore: MemoryBlockstore) {
+  return {
+    blockstore,
+    getCodec: async (code: number) => (code === dagCbor.code ? dagCbor : raw),
+  } as any
+}
+
+async function collect(source: AsyncIterable<CID>): Promise<string[]> {
+  const cids: string[] = []
+  for await (const cid of source) {
+    cids.push(cid.toString())
+  }
+  return cids
+}
+
+describe('walkDag', () => {
+  it('yields every block once, level by level', async () => {
+    const blockstore = new MemoryBlockstore()
+    const leaf = await putBlock(blockstore, raw.code, new TextEncoder().encode('leaf'))
+    const left = await putBlock(blockstore, dagCbor.code, dagCbor.encode({ leaf }))
+    const right = await putBlock(blockstore, dagCbor.code, dagCbor.encode({ leaf, name: 'right' }))
+    const root = await putBlock(blockstore, dagCbor.code, dagCbor.encode({ left, right }))
+
+    const walked = await collect(walkDag(heliaFor(blockstore), root))
+
+    expect(walked).toEqual([root, left, right, leaf].map(String))
+  })
+
+  it('passes its options to every blockstore read', async () => {
+    const blockstore = new MemoryBlockstore()
+    const leaf = await putBlock(blockstore, raw.code, new TextEncoder().encode('leaf'))
+    const root = await putBlock(blockstore, dagCbor.code, dagCbor.encode({ leaf }))
+    const seenOptions: unknown[] = []
+    const helia = heliaFor(blockstore)
+    helia.blockstore = {
+      get: (cid: CID, options: unknown) => {
+        seenOptions.push(options)
+        return blockstore.get(cid)
+      },
+    }
+
+    await collect(walkDag(helia, root, { concurrency: 1, blockstoreSession: 'session-1' } as any))
+
+    expect(seenOptions).toEqual([{ blockstoreSession: 'session-1' }, { blockstoreSession: 'session-1' }])
+  })
+
+  it('fails when a block cannot be fetched', async () => {
+    const blockstore = new MemoryBlockstore()
+    const missing = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('missing')))
+    const root = await putBlock(blockstore, dagCbor.code, dagCbor.encode({ missing }))
+
+    await expect(collect(walkDag(heliaFor(blockstore), root))).rejects.toThrow()
+  })
+})
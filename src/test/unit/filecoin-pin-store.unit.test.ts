@@ -1,10 +1,35 @@
+import { mkdir, mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CarWriter } from '@ipld/car'
+import * as dagCbor from '@ipld/dag-cbor'
+import { multiaddr } from '@multiformats/multiaddr'
+import type { Helia } from 'helia'
+import type { Blockstore } from 'interface-blockstore'
+import type { AbortOptions } from 'interface-store'
 import { CID } from 'multiformats/cid'
 import * as raw from 'multiformats/codecs/raw'
 import { sha256 } from 'multiformats/hashes/sha2'
-import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createConfig } from '../../config.js'
-import { FilecoinPinStore } from '../../filecoin-pin-store.js'
+import { validateIPNIAdvertisement } from '../../core/utils/validate-ipni-advertisement.js'
+import { createPinningHeliaNode } from '../../create-pinning-helia.js'
+import {
+  CarStorageFullError,
+  FilecoinPinStore,
+  type FilecoinStoredPinStatus,
+  InvalidCarError,
+  PinLimitExceededError,
+  PinNotFailableError,
+  PinNotRetryableError,
+  PinStoreDrainingError,
+} from '../../filecoin-pin-store.js'
 import { createLogger } from '../../logger.js'
+import { fileExists } from '../../pinning/car-recovery.js'
+import { openDatabase } from '../../pinning/database.js'
+import { PinRepository } from '../../pinning/pin-repository.js'
+import { USER_METADATA_KEY } from '../../pinning/user-data-sets.js'
+import { WebhookNotifier } from '../../pinning/webhooks.js'
 
 // Mock Synapse service - minimal mock since unit tests don't test background processing
 const mockSynapseService = {
@@ -17,39 +42,85 @@ const mockSynapseService = {
   } as any,
 }
 
-// Mock the heavy dependencies
-vi.mock('../../create-pinning-helia.js', () => ({
-  createPinningHeliaNode: vi.fn().mockResolvedValue({
-    helia: {
-      blockstore: {
-        get: vi.fn(),
-      },
-      pins: {
-        add: vi.fn(),
+type FetchBlock = (cid: CID, options: AbortOptions) => Promise<Uint8Array>
+
+/** Blocks the fake network can serve, keyed by CID */
+const networkBlocks = new Map<string, Uint8Array>()
+
+async function fetchFromNetwork(cid: CID): Promise<Uint8Array> {
+  const bytes = networkBlocks.get(cid.toString())
+  if (bytes == null) {
+    throw new Error('Block not found')
+  }
+  return bytes
+}
+
+/** How the next fake Helia node fetches blocks; read when a store starts */
+let fetchBlock: FetchBlock = fetchFromNetwork
+
+/**
+ * Stand-in for the shared Helia node: blocks missing from the routed blockstore
+ * are fetched with `fetch` and stored through the router, as Helia does
+ */
+function fakeHelia(router: Blockstore, fetch: FetchBlock) {
+  const fetched: CID[] = []
+  return {
+    fetched,
+    blockstore: {
+      async *get(cid: CID, options: AbortOptions = {}) {
+        if (!(await router.has(cid, options))) {
+          fetched.push(cid)
+          await router.put(cid, await fetch(cid, options), options)
+        }
+        yield* router.get(cid, options)
       },
-      stop: vi.fn(),
     },
-    blockstore: {
-      on: vi.fn(),
-      getStats: vi.fn().mockReturnValue({
-        blocksWritten: 1,
-        missingBlocks: new Set(),
-        totalSize: 100,
-        startTime: Date.now(),
-        finalized: false,
-      }),
-      finalize: vi.fn().mockResolvedValue({
-        blocksWritten: 1,
-        missingBlocks: new Set(),
-        totalSize: 100,
-        startTime: Date.now(),
-        finalized: true,
-      }),
-      cleanup: vi.fn(),
+    getCodec: async (code: number) => (code === dagCbor.code ? dagCbor : raw),
+    libp2p: {
+      dial: vi.fn(),
+      getMultiaddrs: () => [multiaddr('/ip4/127.0.0.1/tcp/4001')],
     },
-  }),
+    stop: vi.fn(),
+  }
+}
+
+type FakeHelia = ReturnType<typeof fakeHelia>
+
+// Mock the heavy dependencies
+vi.mock('../../create-pinning-helia.js', () => ({
+  createPinningHeliaNode: vi.fn(),
+}))
+vi.mock('../../core/utils/validate-ipni-advertisement.js', () => ({
+  validateIPNIAdvertisement: vi.fn(),
 }))
 
+/**
+ * Bytes of a CAR holding `blocks` under `roots`
+ */
+async function carBytes(roots: CID[], blocks: Array<{ cid: CID; bytes: Uint8Array }>): Promise<Uint8Array> {
+  // @ipld/car has its own copy of multiformats, whose CID type differs from ours
+  const { writer, out } = CarWriter.create(roots as any)
+  const chunks: Uint8Array[] = []
+  const collected = (async () => {
+    for await (const chunk of out) {
+      chunks.push(chunk)
+    }
+  })()
+  for (const block of blocks) {
+    await writer.put(block as any)
+  }
+  await writer.close()
+  await collected
+  return Buffer.concat(chunks)
+}
+
+/**
+ * The fake Helia node created by the most recently started store
+ */
+async function lastHelia(): Promise<FakeHelia> {
+  return await vi.mocked(createPinningHeliaNode).mock.results.at(-1)?.value
+}
+
 describe('FilecoinPinStore (Unit)', () => {
   let pinStore: FilecoinPinStore
   let testCID: CID
@@ -62,9 +133,18 @@ describe('FilecoinPinStore (Unit)', () => {
     testCID = CID.create(1, raw.code, hash)
     testUser = { id: 'test-user', name: 'Test User' }
 
+    networkBlocks.clear()
+    networkBlocks.set(testCID.toString(), testBlock)
+    fetchBlock = fetchFromNetwork
+    vi.mocked(validateIPNIAdvertisement).mockReset().mockResolvedValue(true)
+    vi.mocked(createPinningHeliaNode).mockImplementation(
+      async ({ blockstore }) => fakeHelia(blockstore, fetchBlock) as unknown as Helia
+    )
+
     // Create test config
     const config = {
       ...createConfig(),
+      databasePath: ':memory:',
       carStoragePath: './test-output',
       privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
     }
@@ -80,6 +160,10 @@ describe('FilecoinPinStore (Unit)', () => {
     await pinStore.start()
   })
 
+  afterEach(async () => {
+    await pinStore.stop()
+  })
+
   describe('Pin Operations', () => {
     it('should create a pin with queued status immediately', async () => {
       const pinResult = await pinStore.pin(testUser, testCID, {
@@ -141,7 +225,7 @@ describe('FilecoinPinStore (Unit)', () => {
       expect(listAll.results).toHaveLength(2)
 
       // List by CID
-      const listByCid = await pinStore.list(testUser, { cid: testCID.toString() })
+      const listByCid = await pinStore.list(testUser, { cid: [testCID.toString()] })
       expect(listByCid.count).toBe(1)
       expect(listByCid.results[0]?.id).toBe(pin1.id)
 
@@ -153,6 +237,1159 @@ describe('FilecoinPinStore (Unit)', () => {
       // List with limit
       const listWithLimit = await pinStore.list(testUser, { limit: 1 })
       expect(listWithLimit.results).toHaveLength(1)
+      expect(listWithLimit.count).toBe(2)
+    })
+
+    it('should keep pins private to their owner', async () => {
+      const otherUser = { id: 'other-user', name: 'Other User' }
+      const pinResult = await pinStore.pin(testUser, testCID, { name: 'Private' })
+
+      expect(await pinStore.get(otherUser, pinResult.id)).toBeUndefined()
+      expect(await pinStore.update(otherUser, pinResult.id, { name: 'Stolen' })).toBeUndefined()
+      expect(await pinStore.cancel(otherUser, pinResult.id)).toBe(false)
+      expect((await pinStore.list(otherUser)).count).toBe(0)
+
+      const retrieved = await pinStore.get(testUser, pinResult.id)
+      expect(retrieved?.pin.name).toBe('Private')
+    })
+  })
+
+  describe('Persistence', () => {
+    let dataDir: string
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-store-'))
+    })
+
+    afterEach(async () => {
+      await rm(dataDir, { recursive: true, force: true })
+    })
+
+    it('should keep pins across restarts', async () => {
+      const config = {
+        ...createConfig(),
+        databasePath: join(dataDir, 'pins.db'),
+        carStoragePath: join(dataDir, 'cars'),
+      }
+
+      const firstStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: mockSynapseService,
+      })
+      await firstStore.start()
+      const pinResult = await firstStore.pin(testUser, testCID, { name: 'Durable', meta: { keep: 'me' } })
+      await firstStore.stop()
+
+      const secondStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: mockSynapseService,
+      })
+      await secondStore.start()
+      try {
+        const retrieved = await secondStore.get(testUser, pinResult.id)
+        expect(retrieved?.pin.cid).toBe(testCID.toString())
+        expect(retrieved?.pin.name).toBe('Durable')
+        expect(retrieved?.pin.meta).toEqual({ keep: 'me' })
+        expect(retrieved?.filecoin?.carFilePath).toBe(pinResult.filecoin?.carFilePath)
+
+        const list = await secondStore.list(testUser)
+        expect(list.results.map((pin) => pin.id)).toEqual([pinResult.id])
+      } finally {
+        await secondStore.stop()
+      }
+    })
+
+    it('should keep the node identity across restarts', async () => {
+      const config = {
+        ...createConfig(),
+        databasePath: join(dataDir, 'pins.db'),
+        carStoragePath: join(dataDir, 'cars'),
+      }
+
+      const privateKeys = []
+      for (let run = 0; run < 2; run++) {
+        const store = new FilecoinPinStore({ config, logger: createLogger(config), synapseService: mockSynapseService })
+        await store.start()
+        await store.stop()
+        privateKeys.push(vi.mocked(createPinningHeliaNode).mock.calls.at(-1)?.[0].privateKey)
+      }
+
+      expect(privateKeys[0]).toBeDefined()
+      expect(privateKeys[0]?.equals(privateKeys[1])).toBe(true)
+    })
+  })
+
+  describe('Recovery', () => {
+    let dataDir: string
+    let config: ReturnType<typeof createConfig>
+
+    function interruptedPin(id: string, overrides: Partial<FilecoinStoredPinStatus> = {}): FilecoinStoredPinStatus {
+      const carFilePath = join(dataDir, `${id}.car`)
+      return {
+        id,
+        userId: testUser.id,
+        status: 'pinning',
+        created: Date.now(),
+        pin: { cid: testCID.toString() },
+        info: { status: 'pinning' },
+        filecoin: {
+          carFilePath,
+          carStats: {
+            blocksWritten: 0,
+            missingBlocks: new Set(),
+            totalSize: 0,
+            startTime: Date.now(),
+            finalized: false,
+          },
+          pinStarted: Date.now(),
+        },
+        ...overrides,
+      }
+    }
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-recovery-'))
+      config = { ...createConfig(), databasePath: join(dataDir, 'pins.db'), carStoragePath: dataDir }
+    })
+
+    afterEach(async () => {
+      await rm(dataDir, { recursive: true, force: true })
+    })
+
+    it('should upload finalized CARs and complete uploaded pins without refetching', async () => {
+      const database = await openDatabase(config.databasePath)
+      const repository = new PinRepository(database)
+
+      const finalized = interruptedPin('pin-finalized')
+      if (finalized.filecoin != null) {
+        finalized.filecoin.carStats = {
+          ...finalized.filecoin.carStats,
+          blocksWritten: 1,
+          totalSize: 10,
+          finalized: true,
+        }
+        await writeFile(finalized.filecoin.carFilePath, 'finalized car')
+      }
+      repository.create(finalized)
+
+      // Of another CID, or the finalized pin would share its piece
+      const uploadedCID = CID.create(1, raw.code, await sha256.digest(new TextEncoder().encode('uploaded block')))
+      const uploaded = interruptedPin('pin-uploaded', { pin: { cid: uploadedCID.toString() } })
+      if (uploaded.filecoin != null) {
+        uploaded.filecoin.carStats = { ...uploaded.filecoin.carStats, finalized: true }
+        uploaded.filecoin.synapsePieceCid = 'bafkzcibexisting'
+      }
+      repository.create(uploaded)
+
+      const upload = vi.fn().mockResolvedValue({ pieceCid: 'bafkzcibnew', pieceId: 7 })
+      const pinStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: { ...mockSynapseService, storage: { upload, dataSetId: 42 } as any },
+        database,
+      })
+      await pinStore.start()
+      const helia = await lastHelia()
+
+      try {
+        await vi.waitFor(async () => {
+          expect((await pinStore.get(testUser, 'pin-finalized'))?.status).toBe('pinned')
+          expect((await pinStore.get(testUser, 'pin-uploaded'))?.status).toBe('pinned')
+        })
+
+        expect(upload).toHaveBeenCalledTimes(1)
+        expect(helia.fetched).toEqual([])
+        expect((await pinStore.get(testUser, 'pin-finalized'))?.filecoin?.synapsePieceCid).toBe('bafkzcibnew')
+        expect((await pinStore.get(testUser, 'pin-uploaded'))?.filecoin?.synapsePieceCid).toBe('bafkzcibexisting')
+      } finally {
+        await pinStore.stop()
+        database.close()
+      }
+    })
+
+    it('should re-queue pins that had not finished fetching', async () => {
+      const database = await openDatabase(config.databasePath)
+      const repository = new PinRepository(database)
+      repository.create(interruptedPin('pin-queued', { status: 'queued', info: { status: 'initializing' } }))
+      repository.create(interruptedPin('pin-fetching'))
+
+      const pinStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: mockSynapseService,
+        database,
+      })
+      await pinStore.start()
+
+      try {
+        await vi.waitFor(async () => {
+          expect(await fileExists(join(dataDir, 'pin-fetching.car'))).toBe(true)
+          expect(await fileExists(join(dataDir, 'pin-queued.car'))).toBe(true)
+        })
+      } finally {
+        await pinStore.stop()
+        database.close()
+      }
+    })
+
+    it('should leave in-flight pins resumable when stopped', async () => {
+      const pinStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: mockSynapseService,
+      })
+      await pinStore.start()
+      const helia = await lastHelia()
+      const pinResult = await pinStore.pin(testUser, testCID)
+      await pinStore.stop()
+
+      // Let the abandoned background timer fire
+      await new Promise((resolve) => setTimeout(resolve, 150))
+
+      const database = await openDatabase(config.databasePath)
+      try {
+        expect(new PinRepository(database).get(pinResult.id)?.status).toBe('queued')
+        expect(helia.fetched).toEqual([])
+        expect(helia.stop).toHaveBeenCalled()
+      } finally {
+        database.close()
+      }
+    })
+  })
+
+  describe('Queueing', () => {
+    let dataDir: string
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-queue-'))
+    })
+
+    afterEach(async () => {
+      await rm(dataDir, { recursive: true, force: true })
+    })
+
+    it('should keep pins queued until a fetch slot frees up', async () => {
+      let releaseFetch!: () => void
+      const fetchGate = new Promise<void>((resolve) => {
+        releaseFetch = resolve
+      })
+      const fetchedCids: string[] = []
+      fetchBlock = async (cid) => {
+        fetchedCids.push(cid.toString())
+        await fetchGate
+        return await fetchFromNetwork(cid)
+      }
+
+      const config = {
+        ...createConfig(),
+        databasePath: ':memory:',
+        carStoragePath: dataDir,
+        maxConcurrentFetches: 1,
+      }
+      const queueStore = new FilecoinPinStore({
+        config,
+        logger: createLogger(config),
+        synapseService: mockSynapseService,
+      })
+      await queueStore.start()
+
+      try {
+        const first = await queueStore.pin(testUser, testCID)
+        const queuedBlock = new TextEncoder().encode('queued')
+        const cid2 = CID.create(1, raw.code, await sha256.digest(queuedBlock))
+        networkBlocks.set(cid2.toString(), queuedBlock)
+        const second = await queueStore.pin(testUser, cid2)
+
+        await vi.waitFor(async () => {
+          expect((await queueStore.get(testUser, first.id))?.status).toBe('pinning')
+          expect(queueStore.getQueueStats().fetch).toEqual({ active: 1, queued: 1, concurrency: 1 })
+          expect(fetchedCids).toEqual([testCID.toString()])
+        })
+        expect((await queueStore.get(testUser, second.id))?.status).toBe('queued')
+
+        releaseFetch()
+        await vi.waitFor(() => {
+          expect(fetchedCids).toEqual([testCID.toString(), cid2.toString()])
+        })
+      } finally {
+        releaseFetch()
+        await queueStore.stop()
+      }
+    })
+
+    it('should hold queued pins while paused and refuse new pins while draining', async () => {
+      const config = { ...createConfig(), databasePath: ':memory:', carStoragePath: dataDir }
+      const queueStore = new FilecoinPinStore({
+        config,
+        logger: createLogger({ ...config, logLevel: 'silent' }),
+        synapseService: mockSynapseService,
+      })
+      await queueStore.start()
+      const helia = await lastHelia()
+
+      try {
+        queueStore.pauseQueues()
+        const held = await queueStore.pin(testUser, testCID)
+        await vi.waitFor(() => {
+          expect(queueStore.getQueueStats().fetch.queued).toBe(1)
+        })
+        expect(helia.fetched).toEqual([])
+
+        queueStore.drainQueues()
+        expect(queueStore.getQueueState()).toEqual({ paused: true, draining: true })
+        await expect(queueStore.pin(testUser, testCID)).rejects.toThrow(PinStoreDrainingError)
+
+        queueStore.resumeQueues()
+        expect(queueStore.getQueueState()).toEqual({ paused: false, draining: false })
+        await vi.waitFor(() => {
+          expect(helia.fetched).toEqual([testCID])
+        })
+        expect((await queueStore.get(testUser, held.id))?.status).not.toBe('queued')
+      } finally {
+        await queueStore.stop()
+      }
+    })
+  })
+
+  describe('Fetch and upload failures', () => {
+    let dataDir: string
+    /** dag-cbor root linking to `childCID`, which the network only serves when a test adds it */
+    let rootCID: CID
+    let childCID: CID
+    let childBlock: Uint8Array
+
+    const uploadingSynapseService = {
+      ...mockSynapseService,
+      storage: {
+        dataSetId: 7,
+        upload: vi.fn().mockResolvedValue({ pieceCid: { toString: () => 'bafkzcibpiece' }, pieceId: 1, size: 100 }),
+        deletePiece: vi.fn().mockResolvedValue('0xdeleted'),
+      } as any,
+    }
+
+    /**
+     * Fail the first `failures` fetches of the child block, then serve it
+     */
+    function failChildFetches(failures: number) {
+      networkBlocks.set(childCID.toString(), childBlock)
+      let remaining = failures
+      fetchBlock = async (cid) => {
+        if (cid.equals(childCID) && remaining-- > 0) {
+          throw new Error('Block not found')
+        }
+        return await fetchFromNetwork(cid)
+      }
+    }
+
+    function fetchCount(helia: FakeHelia, cid: CID): number {
+      return helia.fetched.filter((fetched) => fetched.equals(cid)).length
+    }
+
+    async function pinWith(overrides: Partial<ReturnType<typeof createConfig>>, cid = testCID) {
+      const config = {
+        ...createConfig(),
+        databasePath: ':memory:',
+        carStoragePath: dataDir,
+        ...overrides,
+      }
+      const store = new FilecoinPinStore({
+        config,
+        logger: createLogger({ ...config, logLevel: 'silent' }),
+        synapseService: uploadingSynapseService,
+      })
+      await store.start()
+      const helia = await lastHelia()
+      const pinResult = await store.pin(testUser, cid)
+      return { store, helia, pinResult }
+    }
+
+    async function settled(store: FilecoinPinStore, pinId: string) {
+      let pin: FilecoinStoredPinStatus | undefined
+      await vi.waitFor(async () => {
+        pin = await store.get(testUser, pinId)
+        expect(['pinned', 'failed']).toContain(pin?.status)
+      })
+      return pin as unknown as FilecoinStoredPinStatus
+    }
+
+    beforeEach(async () => {
+      dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-missing-'))
+      uploadingSynapseService.storage.upload.mockClear()
+      uploadingSynapseService.storage.deletePiece.mockClear()
+
+      childBlock = new TextEncoder().encode('child block')
+      childCID = CID.create(1, raw.code, await sha256.digest(childBlock))
+      const rootBlock = dagCbor.encode({ child: childCID })
+      rootCID = CID.create(1, dagCbor.code, await sha256.digest(rootBlock))
+      networkBlocks.set(rootCID.toString(), rootBlock)
+    })
+
+    afterEach(async () => {
+      await rm(dataDir, { recursive: true, force: true })
+    })
+
+    it('should fail the pin without uploading when the policy is fail', async () => {
+      const { store, pinResult } = await pinWith({ missingBlockPolicy: 'fail' }, rootCID)
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('failed')
+        expect(pin.info?.error).toContain('is incomplete: Block not found')
+        expect(uploadingSynapseService.storage.upload).not.toHaveBeenCalled()
+        expect(await fileExists(pinResult.filecoin?.carFilePath ?? '')).toBe(false)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should fail the pin when the fetch times out', async () => {
+      fetchBlock = async (_cid, { signal }) =>
+        await new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(signal.reason))
+        })
+      const { store, pinResult } = await pinWith({ fetchTimeout: 20 })
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('failed')
+        expect(pin.info?.error).toContain('timed out after 20ms')
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should retry the fetch with backoff when the policy is retry', async () => {
+      failChildFetches(1)
+      const { store, helia, pinResult } = await pinWith(
+        {
+          missingBlockPolicy: 'retry',
+          fetchRetries: 2,
+          fetchRetryDelay: 10,
+        },
+        rootCID
+      )
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info?.fetch_attempts).toBe('1')
+        expect(pin.info?.retry_at).toBeUndefined()
+        expect(pin.info?.partial).toBeUndefined()
+        // The retry resumed from the blocks already written to the CAR
+        expect(fetchCount(helia, rootCID)).toBe(1)
+        expect(fetchCount(helia, childCID)).toBe(2)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should fail the pin once retries run out', async () => {
+      const { store, helia, pinResult } = await pinWith(
+        {
+          missingBlockPolicy: 'retry',
+          fetchRetries: 1,
+          fetchRetryDelay: 10,
+        },
+        rootCID
+      )
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('failed')
+        expect(fetchCount(helia, childCID)).toBe(2)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should upload partial content with a partial flag when the policy is partial', async () => {
+      const { store, pinResult } = await pinWith({ missingBlockPolicy: 'partial' }, rootCID)
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info).toMatchObject({
+          partial: 'true',
+          partial_reason: 'Block not found',
+          blocks_written: '1',
+          synapse_piece_cid: 'bafkzcibpiece',
+        })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should retry uploads that fail for transient reasons', async () => {
+      uploadingSynapseService.storage.upload.mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      const { store, pinResult } = await pinWith({ uploadRetryDelay: 10 })
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info?.upload_attempts).toBe('1')
+        expect(pin.info?.upload_error).toBeUndefined()
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(2)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should report how fetches and uploads end', async () => {
+      uploadingSynapseService.storage.upload.mockRejectedValueOnce(new Error('503 Service Unavailable'))
+      const { store, pinResult } = await pinWith({ uploadRetryDelay: 10 })
+      const fetches: unknown[] = []
+      const uploads: unknown[] = []
+      store.on('pin:fetch:completed', (data) => fetches.push(data))
+      store.on('synapse:upload:failed', (data) => uploads.push(data))
+      store.on('synapse:upload:completed', (data) => uploads.push(data))
+
+      try {
+        await settled(store, pinResult.id)
+        expect(fetches).toMatchObject([{ pinId: pinResult.id, outcome: 'complete', duration: expect.any(Number) }])
+        expect(uploads).toMatchObject([
+          { contextId: pinResult.id, category: 'provider', duration: expect.any(Number) },
+          { contextId: pinResult.id, size: expect.any(Number), duration: expect.any(Number) },
+        ])
+        expect(store.getPinCounts()).toEqual({ queued: 0, pinning: 0, pinned: 1, failed: 0 })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should fail payment errors at once and upload the kept CAR when retried', async () => {
+      uploadingSynapseService.storage.upload.mockRejectedValueOnce(new Error('Insufficient USDFC allowance'))
+      const { store, helia, pinResult } = await pinWith({ uploadRetryDelay: 10 })
+
+      try {
+        const failed = await settled(store, pinResult.id)
+        expect(failed.status).toBe('failed')
+        expect(failed.info).toMatchObject({ upload_attempts: '1', upload_error_category: 'payment' })
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(1)
+
+        await expect(store.retry(pinResult.id)).resolves.toMatchObject({ status: 'queued' })
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info?.error).toBeUndefined()
+        // The finalized CAR was uploaded again without a second fetch
+        expect(fetchCount(helia, testCID)).toBe(1)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should give up once upload attempts run out', async () => {
+      uploadingSynapseService.storage.upload
+        .mockRejectedValueOnce(new Error('fetch failed'))
+        .mockRejectedValueOnce(new Error('fetch failed'))
+      const { store, pinResult } = await pinWith({ uploadMaxAttempts: 2, uploadRetryDelay: 10 })
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('failed')
+        expect(pin.info).toMatchObject({ upload_attempts: '2', upload_error_category: 'network' })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should announce the pin and record the IPNI validation outcome', async () => {
+      let announcing: FilecoinStoredPinStatus | undefined
+      vi.mocked(validateIPNIAdvertisement).mockImplementationOnce(async (_cid, options) => {
+        announcing = await store.get(testUser, pinResult.id)
+        options?.onProgress?.({ type: 'ipniAdvertisement.retryUpdate', data: { retryCount: 2 } })
+        return true
+      })
+      const { store, pinResult } = await pinWith({ ipniValidationAttempts: 3, ipniValidationDelay: 10 })
+      const validations: unknown[] = []
+      store.on('pin:ipni:validated', (data) => validations.push(data))
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(announcing).toMatchObject({ status: 'pinning', info: { status: 'announcing' } })
+        expect(pin.status).toBe('pinned')
+        expect(pin.info).toMatchObject({ status: 'pinned', ipni_validated: 'true', ipni_retries: '2' })
+        expect(validations).toMatchObject([{ pinId: pinResult.id, validated: true }])
+        expect(vi.mocked(validateIPNIAdvertisement).mock.calls[0]?.[1]).toMatchObject({ maxAttempts: 3, delayMs: 10 })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should still complete pins whose IPNI validation fails', async () => {
+      vi.mocked(validateIPNIAdvertisement).mockRejectedValueOnce(new Error('IPNI advertisement not found'))
+      const { store, pinResult } = await pinWith({})
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info).toMatchObject({ ipni_validated: 'false', ipni_error: 'IPNI advertisement not found' })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should delete the CAR once pinned when the retention policy is delete', async () => {
+      const { store, pinResult } = await pinWith({ carRetention: 'delete' })
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        await vi.waitFor(async () => {
+          expect(await fileExists(pin.filecoin?.carFilePath ?? '')).toBe(false)
+        })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should refuse new pins once CAR storage is full and sweep orphaned CARs', async () => {
+      const { store, pinResult } = await pinWith({ carStorageMaxBytes: 1 })
+      const orphan = join(dataDir, 'orphan.car')
+      await writeFile(orphan, 'left behind by a deleted pin')
+      const longAgo = new Date(Date.now() - 2 * 60 * 60 * 1000)
+      await utimes(orphan, longAgo, longAgo)
+
+      try {
+        await settled(store, pinResult.id)
+        // The pinned CAR is kept, so the sweep only frees the orphan
+        await expect(store.pin(testUser, rootCID)).rejects.toThrow(CarStorageFullError)
+        expect(await fileExists(orphan)).toBe(false)
+        expect(await fileExists(pinResult.filecoin?.carFilePath ?? '')).toBe(true)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should scan CAR storage again after a failed scan', async () => {
+      const { store, pinResult } = await pinWith({ carStorageMaxBytes: 1_000_000 })
+
+      try {
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        // The directory cannot be read while a file stands in its place
+        await rm(dataDir, { recursive: true })
+        await writeFile(dataDir, 'not a directory')
+        await expect(store.pin(testUser, testCID)).rejects.toThrow()
+
+        await rm(dataDir)
+        await mkdir(dataDir)
+        const pin = await store.pin(testUser, testCID)
+        expect((await settled(store, pin.id)).status).toBe('pinned')
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should fail pins whose DAG grows past the per-pin limit', async () => {
+      networkBlocks.set(childCID.toString(), childBlock)
+      const { store, pinResult } = await pinWith({ pinMaxBlocks: 1, missingBlockPolicy: 'partial' }, rootCID)
+
+      try {
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('failed')
+        expect(pin.info).toMatchObject({ reason: 'pin_max_blocks', error: 'DAG exceeds the limit of 1 blocks per pin' })
+        expect(uploadingSynapseService.storage.upload).not.toHaveBeenCalled()
+        expect(await fileExists(pin.filecoin?.carFilePath ?? '')).toBe(false)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should fail pins that take their user past the quota and report usage', async () => {
+      const testBlockSize = networkBlocks.get(testCID.toString())?.byteLength ?? 0
+      const { store, pinResult } = await pinWith({ userMaxBytes: testBlockSize })
+
+      try {
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        expect(store.getUsage(testUser)).toEqual({ pins: 1, bytes: testBlockSize, blocks: 1 })
+
+        const overQuota = await store.pin(testUser, rootCID)
+        const pin = await settled(store, overQuota.id)
+        expect(pin.status).toBe('failed')
+        expect(pin.info?.reason).toBe('user_max_bytes')
+        // Failed pins do not count towards the quota
+        expect(store.getUsage(testUser)).toEqual({ pins: 1, bytes: testBlockSize, blocks: 1 })
+        expect(store.getUsage({ id: 'other-user', name: 'Other User' })).toEqual({ pins: 0, bytes: 0, blocks: 0 })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should write fetch progress every so often rather than on every block', async () => {
+      const { store, pinResult } = await pinWith({})
+
+      try {
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        networkBlocks.set(childCID.toString(), childBlock)
+        const update = vi.spyOn(PinRepository.prototype, 'update')
+
+        const pin = await settled(store, (await store.pin(testUser, rootCID)).id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.info?.blocks_written).toBe('2')
+        // Both blocks arrive well within the write interval, so nothing is written until the CAR is finalized
+        const progressWrites = update.mock.calls.filter(
+          ([, changes]) => changes.filecoin != null && changes.info?.status === 'pinning'
+        )
+        expect(progressWrites).toEqual([])
+        update.mockRestore()
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it("should sum the user's other pins once per fetch rather than for every block", async () => {
+      const { store, pinResult } = await pinWith({ userMaxBlocks: 10 })
+
+      try {
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        networkBlocks.set(childCID.toString(), childBlock)
+        const usage = vi.spyOn(PinRepository.prototype, 'usage')
+
+        // A user of its own, so that work other tests leave behind is not counted
+        const quotaUser = { id: 'quota-user', name: 'Quota User' }
+        const { id } = await store.pin(quotaUser, rootCID)
+        let pin: FilecoinStoredPinStatus | undefined
+        await vi.waitFor(async () => {
+          pin = await store.get(quotaUser, id)
+          expect(pin?.status).toBe('pinned')
+        })
+        expect(pin?.filecoin?.carStats.blocksWritten).toBe(2)
+        expect(usage.mock.calls.filter(([userId]) => userId === quotaUser.id)).toHaveLength(1)
+        usage.mockRestore()
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it("should count CARs still being written against their user's quota", async () => {
+      const { store, pinResult } = await pinWith({ userMaxBlocks: 4 })
+      const rootBlock = networkBlocks.get(rootCID.toString()) as Uint8Array
+      const head = await carBytes([rootCID], [{ cid: rootCID, bytes: rootBlock }])
+      const car = await carBytes(
+        [rootCID],
+        [
+          { cid: rootCID, bytes: rootBlock },
+          { cid: childCID, bytes: childBlock },
+        ]
+      )
+      let release!: () => void
+      const gate = new Promise<void>((resolve) => {
+        release = resolve
+      })
+      // Each upload sends its root block, then waits until both have before sending its child
+      const upload = async function* () {
+        yield car.subarray(0, head.length)
+        await gate
+        yield car.subarray(head.length)
+      }
+      let stored = 0
+      store.on('pin:block:stored', () => stored++)
+
+      try {
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        stored = 0
+        const uploads = Promise.allSettled([store.pinCar(testUser, upload()), store.pinCar(testUser, upload())])
+        await vi.waitFor(() => expect(stored).toBe(2))
+        release()
+
+        // One block is pinned and each upload holds one more, so only one child fits in the quota of four
+        const [first, second] = await uploads
+        expect(first).toMatchObject({ status: 'fulfilled', value: { info: { blocks_written: '2' } } })
+        expect(second).toMatchObject({ status: 'rejected', reason: { reason: 'user_max_blocks' } })
+        expect(store.getUsage(testUser)).toEqual({ pins: 2, bytes: expect.any(Number), blocks: 3 })
+        if (first.status === 'fulfilled') {
+          expect((await settled(store, first.value.id)).status).toBe('pinned')
+        }
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it("should upload to the owner's own data set when users have their own", async () => {
+      const userStorage = {
+        dataSetId: undefined as number | undefined,
+        upload: vi.fn(async () => {
+          // Synapse creates the data set along with its first piece
+          userStorage.dataSetId = 9
+          return { pieceCid: { toString: () => 'bafkzcibuserpiece' }, pieceId: 1, size: 100 }
+        }),
+      }
+      const createContext = vi.fn(async (options: any) => {
+        options.callbacks?.onProviderSelected?.(mockSynapseService.providerInfo)
+        return userStorage
+      })
+      const config = { ...createConfig(), databasePath: ':memory:', carStoragePath: dataDir, dataSetPerUser: true }
+      const store = new FilecoinPinStore({
+        config,
+        logger: createLogger({ ...config, logLevel: 'silent' }),
+        synapseService: { ...uploadingSynapseService, synapse: { storage: { createContext } } as any },
+      })
+      await store.start()
+
+      try {
+        const pinResult = await store.pin(testUser, testCID)
+        expect((await settled(store, pinResult.id)).status).toBe('pinned')
+        expect(userStorage.upload).toHaveBeenCalledTimes(1)
+        expect(uploadingSynapseService.storage.upload).not.toHaveBeenCalled()
+        expect(createContext.mock.calls[0]?.[0]).toMatchObject({
+          providerId: 1,
+          metadata: { [USER_METADATA_KEY]: testUser.id },
+        })
+        expect(store.getUserDataSets()).toMatchObject([{ userId: testUser.id, dataSetId: 9 }])
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should replace a pin under its request ID and remove the old piece once the new one is confirmed', async () => {
+      networkBlocks.set(childCID.toString(), childBlock)
+      const { store, pinResult } = await pinWith({})
+
+      try {
+        const pinned = await settled(store, pinResult.id)
+        expect(pinned.status).toBe('pinned')
+        const oldCarFilePath = pinned.filecoin?.carFilePath as string
+        uploadingSynapseService.storage.upload.mockResolvedValueOnce({
+          pieceCid: { toString: () => 'bafkzcibnewpiece' },
+          pieceId: 2,
+          size: 100,
+        })
+
+        const replaced = await store.replace(testUser, pinResult.id, rootCID, { name: 'replacement' })
+        expect(replaced).toMatchObject({
+          id: pinResult.id,
+          status: 'queued',
+          pin: { cid: rootCID.toString(), name: 'replacement' },
+          filecoin: { replacedPiece: { pieceCid: 'bafkzcibpiece', pieceId: 1, dataSetId: '7' } },
+        })
+        expect(await fileExists(oldCarFilePath)).toBe(false)
+
+        const pin = await settled(store, pinResult.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.filecoin?.synapsePieceCid).toBe('bafkzcibnewpiece')
+        expect(pin.filecoin?.replacedPiece).toBeUndefined()
+        await vi.waitFor(() => {
+          expect(store.listPieceRemovals()).toMatchObject([
+            { id: pin.info?.replaced_piece_removal, pinId: pinResult.id, pieceCid: 'bafkzcibpiece', status: 'removed' },
+          ])
+        })
+        expect(uploadingSynapseService.storage.deletePiece).toHaveBeenCalledWith(1)
+
+        // Replacing a pin with its own CID only replaces the pin object
+        const renamed = await store.replace(testUser, pinResult.id, rootCID, { meta: { app: 'test' } })
+        expect(renamed?.status).toBe('pinned')
+        expect(renamed?.pin).toEqual({ cid: rootCID.toString(), meta: { app: 'test' } })
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(2)
+
+        expect(await store.replace({ id: 'other-user', name: 'Other User' }, pinResult.id, testCID)).toBeUndefined()
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should remove the piece of a deleted pin in the background, retrying failures', async () => {
+      uploadingSynapseService.storage.deletePiece.mockRejectedValueOnce(new Error('provider unreachable'))
+      const { store, pinResult } = await pinWith({ pieceRemovalRetryDelay: 10 })
+
+      try {
+        await settled(store, pinResult.id)
+        // A pin that never got a piece leaves nothing to remove
+        const queued = await store.pin(testUser, rootCID)
+        expect(await store.cancel(testUser, queued.id)).toBe(true)
+        expect(await store.cancel(testUser, pinResult.id)).toBe(true)
+
+        await vi.waitFor(() => {
+          expect(store.listPieceRemovals()).toMatchObject([
+            {
+              pinId: pinResult.id,
+              pieceCid: 'bafkzcibpiece',
+              pieceId: 1,
+              dataSetId: '7',
+              status: 'removed',
+              attempts: 2,
+            },
+          ])
+        })
+        expect(uploadingSynapseService.storage.deletePiece).toHaveBeenCalledTimes(2)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it("should share the piece of another user's pin of the same CID and remove it once neither uses it", async () => {
+      const otherUser = { id: 'other-user', name: 'Other User' }
+      const { store, helia, pinResult } = await pinWith({})
+
+      try {
+        // A pin of a CID that is still being pinned waits for it
+        const duplicate = await store.pin(otherUser, testCID)
+        const first = await settled(store, pinResult.id)
+        let shared: FilecoinStoredPinStatus | undefined
+        await vi.waitFor(async () => {
+          shared = await store.get(otherUser, duplicate.id)
+          expect(shared?.status).toBe('pinned')
+        })
+
+        expect(fetchCount(helia, testCID)).toBe(1)
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(1)
+        expect(shared?.filecoin).toMatchObject({
+          carFilePath: first.filecoin?.carFilePath,
+          synapsePieceCid: 'bafkzcibpiece',
+          synapseDataSetId: '7',
+          duplicateOf: pinResult.id,
+        })
+        expect(shared?.info).toMatchObject({ deduplicated: 'true', synapse_piece_cid: 'bafkzcibpiece' })
+        // Both users are charged for the DAG
+        expect(store.getUsage(otherUser)).toEqual(store.getUsage(testUser))
+
+        // The piece and CAR stay while the other user's pin uses them
+        expect(await store.cancel(testUser, pinResult.id)).toBe(true)
+        expect(await fileExists(first.filecoin?.carFilePath as string)).toBe(true)
+        await vi.waitFor(() => {
+          expect(store.listPieceRemovals()).toMatchObject([{ pinId: pinResult.id, status: 'skipped' }])
+        })
+
+        expect(await store.cancel(otherUser, duplicate.id)).toBe(true)
+        expect(await fileExists(first.filecoin?.carFilePath as string)).toBe(false)
+        await vi.waitFor(() => {
+          expect(store.listPieceRemovals({ status: ['removed'] })).toMatchObject([{ pinId: duplicate.id }])
+        })
+        expect(uploadingSynapseService.storage.deletePiece).toHaveBeenCalledTimes(1)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should pin the CID itself when the pin it waits for fails', async () => {
+      const { store, pinResult } = await pinWith({})
+      // Hold the first pin in the queue
+      store.pauseQueues()
+
+      try {
+        const duplicate = await store.pin(testUser, testCID)
+        await vi.waitFor(async () => {
+          expect(await store.get(testUser, duplicate.id)).toMatchObject({
+            status: 'queued',
+            info: { status: 'deduplicating' },
+          })
+        })
+        await store.fail(pinResult.id)
+        store.resumeQueues()
+
+        const pin = await settled(store, duplicate.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.filecoin?.duplicateOf).toBeUndefined()
+        expect(pin.info?.deduplicated).toBeUndefined()
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(1)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should pin an uploaded CAR without fetching it, and not share it with other pins', async () => {
+      const { store, helia, pinResult } = await pinWith({})
+      const car = await carBytes(
+        [rootCID],
+        [
+          { cid: rootCID, bytes: networkBlocks.get(rootCID.toString()) as Uint8Array },
+          { cid: childCID, bytes: childBlock },
+        ]
+      )
+
+      try {
+        await settled(store, pinResult.id)
+        // Streamed in small chunks, as a request body arrives
+        const uploaded = await store.pinCar(
+          testUser,
+          (async function* () {
+            for (let offset = 0; offset < car.length; offset += 16) {
+              yield car.subarray(offset, offset + 16)
+            }
+          })(),
+          { name: 'Uploaded' }
+        )
+        expect(uploaded).toMatchObject({
+          status: 'queued',
+          pin: { cid: rootCID.toString(), name: 'Uploaded' },
+          info: { car_uploaded: 'true', blocks_written: '2' },
+        })
+
+        const pin = await settled(store, uploaded.id)
+        expect(pin.status).toBe('pinned')
+        expect(pin.filecoin?.synapsePieceCid).toBe('bafkzcibpiece')
+        expect(fetchCount(helia, rootCID)).toBe(0)
+        expect(uploadingSynapseService.storage.upload).toHaveBeenCalledTimes(2)
+        expect(store.findPinned(rootCID)).toBeUndefined()
+
+        // Nothing vouches for an uploaded CAR's blocks, so a pin of its CID fetches the DAG itself
+        networkBlocks.set(childCID.toString(), childBlock)
+        const fetched = await settled(store, (await store.pin(testUser, rootCID)).id)
+        expect(fetched.status).toBe('pinned')
+        expect(fetched.filecoin?.duplicateOf).toBeUndefined()
+        expect(fetchCount(helia, rootCID)).toBe(1)
+        expect(store.findPinned(rootCID)?.id).toBe(fetched.id)
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should keep apart the CARs of uploads of one CID started at the same time', async () => {
+      const { store, pinResult } = await pinWith({})
+      const car = await carBytes(
+        [testCID],
+        [{ cid: testCID, bytes: networkBlocks.get(testCID.toString()) as Uint8Array }]
+      )
+
+      try {
+        await settled(store, pinResult.id)
+        const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now())
+        const uploads = await Promise.all([store.pinCar(testUser, car), store.pinCar(testUser, car)])
+        now.mockRestore()
+
+        const [first, second] = uploads.map((upload) => upload.filecoin?.carFilePath)
+        expect(first).not.toBe(second)
+        for (const upload of uploads) {
+          expect((await settled(store, upload.id)).status).toBe('pinned')
+        }
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should refuse uploaded CARs that are invalid or over the limits, keeping nothing of them', async () => {
+      const { store, pinResult } = await pinWith({ pinMaxBlocks: 1 })
+
+      try {
+        // Its CAR is the only one that should be left behind
+        let pinned: FilecoinStoredPinStatus | undefined
+        await vi.waitFor(
+          async () => {
+            pinned = await store.get(testUser, pinResult.id)
+            expect(pinned?.status).toBe('pinned')
+          },
+          { timeout: 10_000 }
+        )
+
+        await expect(store.pinCar(testUser, new TextEncoder().encode('not a CAR'))).rejects.toThrow(InvalidCarError)
+        await expect(store.pinCar(testUser, await carBytes([rootCID], []))).rejects.toThrow('Invalid CAR: no blocks')
+        const child = { cid: childCID, bytes: childBlock }
+        await expect(store.pinCar(testUser, await carBytes([], [child]))).rejects.toThrow('Invalid CAR: no roots')
+        await expect(store.pinCar(testUser, await carBytes([rootCID], [child]))).rejects.toThrow(
+          `Invalid CAR: root block ${rootCID.toString()} is missing`
+        )
+        const forged = await carBytes([rootCID], [{ cid: rootCID, bytes: childBlock }])
+        await expect(store.pinCar(testUser, forged)).rejects.toThrow(
+          `Invalid CAR: Block ${rootCID.toString()} does not match its CID`
+        )
+
+        const tooLarge = await carBytes(
+          [rootCID],
+          [
+            { cid: rootCID, bytes: networkBlocks.get(rootCID.toString()) as Uint8Array },
+            { cid: childCID, bytes: childBlock },
+          ]
+        )
+        const error = await store.pinCar(testUser, tooLarge).catch((error: unknown) => error)
+        expect(error).toBeInstanceOf(PinLimitExceededError)
+        expect(error).toMatchObject({ reason: 'pin_max_blocks' })
+
+        expect((await store.list(testUser)).count).toBe(1)
+        expect(await readdir(dataDir)).toEqual([pinned?.filecoin?.carFilePath.split('/').at(-1)])
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should send webhooks as the pin moves through its lifecycle', async () => {
+      const notify = vi.spyOn(WebhookNotifier.prototype, 'notify').mockReturnValue(undefined)
+      const config = { ...createConfig(), databasePath: ':memory:', carStoragePath: dataDir }
+      const store = new FilecoinPinStore({
+        config,
+        logger: createLogger({ ...config, logLevel: 'silent' }),
+        synapseService: uploadingSynapseService,
+      })
+      await store.start()
+      const hookedUser = { ...testUser, webhook: { url: 'https://example.com/token', secret: 'whsec_test' } }
+
+      try {
+        const tokenPin = await store.pin(hookedUser, testCID)
+        const metaPin = await store.pin(hookedUser, testCID, { meta: { webhook_url: 'https://example.com/pin' } })
+        const unhookedPin = await store.pin(testUser, testCID, { meta: { webhook_url: 'https://example.com/pin' } })
+        await settled(store, tokenPin.id)
+        await settled(store, metaPin.id)
+        await settled(store, unhookedPin.id)
+
+        const deliveries = (pinId: string) =>
+          notify.mock.calls.filter(([, , pin]) => pin.id === pinId).map(([target, event]) => [target.url, event])
+        expect(deliveries(tokenPin.id)).toEqual([
+          ['https://example.com/token', 'pin.pinning'],
+          ['https://example.com/token', 'piece.confirmed'],
+          ['https://example.com/token', 'pin.pinned'],
+        ])
+        expect(deliveries(metaPin.id).map(([url]) => url)).toEqual(Array(3).fill('https://example.com/pin'))
+        // Users whose token has no signing secret get no webhooks
+        expect(deliveries(unhookedPin.id)).toEqual([])
+      } finally {
+        notify.mockRestore()
+        await store.stop()
+      }
+    })
+
+    it('should let operators restart, fail and retry a stuck pin', async () => {
+      let stuck = true
+      networkBlocks.set(childCID.toString(), childBlock)
+      fetchBlock = async (cid, options) => {
+        if (cid.equals(childCID) && stuck) {
+          await new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new Error('Fetch aborted')))
+          })
+        }
+        return await fetchFromNetwork(cid)
+      }
+      const { store, pinResult } = await pinWith({}, rootCID)
+      const failed = vi.fn()
+      store.on('pin:failed', failed)
+
+      try {
+        await vi.waitFor(() => {
+          expect(store.getActivePinStats()).toHaveLength(1)
+        })
+        await expect(store.retry(pinResult.id)).rejects.toThrow(PinNotRetryableError)
+        await expect(store.retry(pinResult.id, { force: true })).resolves.toMatchObject({ status: 'queued' })
+        await vi.waitFor(() => {
+          expect(store.getActivePinStats()).toHaveLength(1)
+        })
+
+        await expect(store.fail(pinResult.id, 'Stuck')).resolves.toMatchObject({
+          status: 'failed',
+          info: { status: 'failed', error: 'Stuck', reason: 'operator' },
+        })
+        await expect(store.fail(pinResult.id)).rejects.toThrow(PinNotFailableError)
+        await expect(store.fail('pin-unknown')).resolves.toBeUndefined()
+
+        // The abandoned fetch ends without touching the failed pin
+        await new Promise((resolve) => setTimeout(resolve, 200))
+        expect(await store.get(testUser, pinResult.id)).toMatchObject({ status: 'failed', info: { error: 'Stuck' } })
+        expect(failed).toHaveBeenCalledTimes(1)
+
+        stuck = false
+        await store.retry(pinResult.id)
+        expect(await settled(store, pinResult.id)).toMatchObject({ status: 'pinned' })
+      } finally {
+        await store.stop()
+      }
+    })
+
+    it('should only retry failed pins', async () => {
+      const { store, pinResult } = await pinWith({})
+
+      try {
+        await expect(store.retry(pinResult.id)).rejects.toThrow(PinNotRetryableError)
+        await expect(store.retry('pin-unknown')).resolves.toBeUndefined()
+      } finally {
+        await store.stop()
+      }
     })
   })
 
@@ -167,6 +1404,7 @@ describe('FilecoinPinStore (Unit)', () => {
     it('should handle start/stop', async () => {
       const config = {
         ...createConfig(),
+        databasePath: ':memory:',
         privateKey: '0x0000000000000000000000000000000000000000000000000000000000000001', // Fake test key
       }
 
@@ -0,0 +1,204 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { ProviderInfo } from '@filoz/synapse-sdk'
+import { CarBlockIterator } from '@ipld/car'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { FilecoinPinMetadata, FilecoinStoredPinStatus } from '../../filecoin-pin-store.js'
+import { encodeCarHeader } from '../../pinning/car-aggregation.js'
+import {
+  encodeCarBlock,
+  findCarBlock,
+  GatewayError,
+  negotiateGatewayFormat,
+  openPinCar,
+  parseDagScope,
+} from '../../pinning/gateway.js'
+
+async function rawBlock(text: string): Promise<{ cid: CID; bytes: Uint8Array }> {
+  const bytes = new TextEncoder().encode(text)
+  return { cid: CID.create(1, raw.code, await sha256.digest(bytes)), bytes }
+}
+
+async function readAll(stream: AsyncIterable<Uint8Array>): Promise<Buffer> {
+  const chunks: Uint8Array[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function carBlockCids(car: Uint8Array): Promise<{ roots: string[]; blocks: string[] }> {
+  const iterator = await CarBlockIterator.fromBytes(car)
+  const blocks: string[] = []
+  for await (const { cid } of iterator) {
+    blocks.push(cid.toString())
+  }
+  return { roots: (await iterator.getRoots()).map(String), blocks }
+}
+
+function pinWith(filecoin: Partial<FilecoinPinMetadata>): FilecoinStoredPinStatus {
+  return {
+    id: 'pin-1',
+    userId: 'user-a',
+    status: 'pinned',
+    created: 0,
+    pin: { cid: 'bafkreia' },
+    filecoin: {
+      carFilePath: '/nonexistent.car',
+      carStats: { blocksWritten: 0, totalSize: 0, missingBlocks: new Set(), finalized: false } as any,
+      pinStarted: 0,
+      ...filecoin,
+    } as FilecoinPinMetadata,
+  }
+}
+
+describe('negotiateGatewayFormat', () => {
+  it('prefers the format parameter over the Accept header', () => {
+    expect(negotiateGatewayFormat('raw', 'application/vnd.ipld.car')).toBe('raw')
+    expect(negotiateGatewayFormat('json', 'application/vnd.ipld.car')).toBeUndefined()
+  })
+
+  it('picks the most preferred verifiable type from Accept', () => {
+    expect(negotiateGatewayFormat(undefined, 'application/vnd.ipld.car; version=1')).toBe('car')
+    expect(
+      negotiateGatewayFormat(undefined, 'application/vnd.ipld.car;q=0.5, application/vnd.ipld.raw;q=0.9, */*')
+    ).toBe('raw')
+    expect(negotiateGatewayFormat(undefined, 'application/vnd.ipld.car; version=2')).toBeUndefined()
+    expect(negotiateGatewayFormat(undefined, 'text/html')).toBeUndefined()
+    expect(negotiateGatewayFormat(undefined, undefined)).toBeUndefined()
+  })
+})
+
+describe('parseDagScope', () => {
+  it('accepts all and block only', () => {
+    expect(parseDagScope(undefined)).toBe('all')
+    expect(parseDagScope('block')).toBe('block')
+    expect(() => parseDagScope('entity')).toThrow(GatewayError)
+  })
+})
+
+describe('openPinCar', () => {
+  let dir: string
+  let root: { cid: CID; bytes: Uint8Array }
+  let child: { cid: CID; bytes: Uint8Array }
+  let other: { cid: CID; bytes: Uint8Array }
+  let carBytes: Buffer
+  let server: Server
+  let providerInfo: ProviderInfo
+  /** Bytes the fake provider serves for every piece */
+  let piece: Buffer
+  let requests: IncomingHttpHeaders[]
+  let honourRanges: boolean
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'filecoin-pin-gateway-'))
+    root = await rawBlock('root')
+    child = await rawBlock('child')
+    other = await rawBlock('someone else')
+    carBytes = Buffer.concat([
+      encodeCarHeader([root.cid]),
+      encodeCarBlock(root.cid, root.bytes),
+      encodeCarBlock(child.cid, child.bytes),
+    ])
+    piece = carBytes
+    requests = []
+    honourRanges = true
+
+    server = createServer((request, response) => {
+      requests.push(request.headers)
+      const range = /^bytes=(\d+)-(\d+)$/.exec(request.headers.range ?? '')
+      if (honourRanges && range != null) {
+        response.statusCode = 206
+        response.end(piece.subarray(Number(range[1]), Number(range[2]) + 1))
+        return
+      }
+      response.end(piece)
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const serviceURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    providerInfo = { products: { PDP: { data: { serviceURL } } } } as unknown as ProviderInfo
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('serves a finalized local CAR as is', async () => {
+    const carFilePath = join(dir, 'pin.car')
+    await writeFile(carFilePath, carBytes)
+    const pin = pinWith({ carFilePath, carStats: { finalized: true } as any })
+
+    expect(await readAll(await openPinCar(pin, root.cid, providerInfo))).toEqual(carBytes)
+    expect(requests).toHaveLength(0)
+  })
+
+  it('cuts the pin out of a local aggregate CAR', async () => {
+    const before = encodeCarBlock(other.cid, other.bytes)
+    const sections = carBytes.subarray(encodeCarHeader([root.cid]).byteLength)
+    const aggregatePath = join(dir, 'aggregate.car')
+    await writeFile(aggregatePath, Buffer.concat([encodeCarHeader([other.cid, root.cid]), before, sections]))
+    const offset = encodeCarHeader([other.cid, root.cid]).byteLength + before.byteLength
+    const pin = pinWith({ aggregate: { carFilePath: aggregatePath, offset, length: sections.byteLength } })
+
+    const car = await readAll(await openPinCar(pin, root.cid, providerInfo))
+    expect(await carBlockCids(car)).toEqual({
+      roots: [root.cid.toString()],
+      blocks: [root.cid.toString(), child.cid.toString()],
+    })
+  })
+
+  it('downloads the piece when the CAR is gone', async () => {
+    const pin = pinWith({ synapsePieceCid: 'bafkzcibpiece' })
+
+    expect(await readAll(await openPinCar(pin, root.cid, providerInfo))).toEqual(carBytes)
+    expect(requests).toHaveLength(1)
+  })
+
+  it.each([true, false])('downloads only the pin part of an aggregate piece (ranges honoured: %s)', async (ranges) => {
+    honourRanges = ranges
+    const before = encodeCarBlock(other.cid, other.bytes)
+    const sections = carBytes.subarray(encodeCarHeader([root.cid]).byteLength)
+    piece = Buffer.concat([encodeCarHeader([other.cid, root.cid]), before, sections, before])
+    const offset = encodeCarHeader([other.cid, root.cid]).byteLength + before.byteLength
+    const pin = pinWith({
+      synapsePieceCid: 'bafkzcibpiece',
+      aggregate: { carFilePath: join(dir, 'gone.car'), offset, length: sections.byteLength },
+    })
+
+    const car = await readAll(await openPinCar(pin, root.cid, providerInfo))
+    expect(await carBlockCids(car)).toEqual({
+      roots: [root.cid.toString()],
+      blocks: [root.cid.toString(), child.cid.toString()],
+    })
+    expect(requests[0]?.range).toBe(`bytes=${offset}-${offset + sections.byteLength - 1}`)
+  })
+
+  it('reports provider errors as bad gateway', async () => {
+    server.removeAllListeners('request')
+    server.on('request', (_request, response) => {
+      response.statusCode = 500
+      response.end()
+    })
+    const pin = pinWith({ synapsePieceCid: 'bafkzcibpiece' })
+
+    await expect(openPinCar(pin, root.cid, providerInfo)).rejects.toMatchObject({ statusCode: 502 })
+  })
+
+  it('reports pins without a CAR or piece as not found', async () => {
+    await expect(openPinCar(pinWith({}), root.cid, providerInfo)).rejects.toMatchObject({ statusCode: 404 })
+  })
+
+  it('finds single blocks', async () => {
+    const pin = pinWith({ synapsePieceCid: 'bafkzcibpiece' })
+
+    expect(await findCarBlock(await openPinCar(pin, root.cid, providerInfo), child.cid)).toEqual(child.bytes)
+    expect(await findCarBlock(await openPinCar(pin, root.cid, providerInfo), other.cid)).toBeUndefined()
+  })
+})
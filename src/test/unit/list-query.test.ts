@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_LIST_LIMIT, InvalidPinListQueryError, parsePinListQuery } from '../../pinning/list-query.js'
+
+const cidA = 'bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy'
+const cidB = 'bafkreiabltrd5zm73pvi7plq25pef3hm7jxhbi3kv4hapegrkfpkqtkbme'
+
+describe('parsePinListQuery', () => {
+  it('applies the default limit when no parameters are given', () => {
+    expect(parsePinListQuery({})).toEqual({ limit: DEFAULT_LIST_LIMIT })
+  })
+
+  it('parses every supported parameter', () => {
+    const query = parsePinListQuery({
+      cid: `${cidA}, ${cidB}`,
+      name: 'photos',
+      match: 'ipartial',
+      status: 'queued,pinning',
+      before: '2025-01-02T00:00:00Z',
+      after: '2025-01-01T00:00:00.000Z',
+      limit: '50',
+      meta: '{"app":"demo"}',
+    })
+
+    expect(query).toEqual({
+      cid: [cidA, cidB],
+      name: 'photos',
+      match: 'ipartial',
+      status: ['queued', 'pinning'],
+      before: Date.parse('2025-01-02T00:00:00Z'),
+      after: Date.parse('2025-01-01T00:00:00Z'),
+      limit: 50,
+      meta: { app: 'demo' },
+    })
+  })
+
+  it.each([
+    [{ status: 'pinned,done' }, 'Invalid status: done'],
+    [{ match: 'fuzzy' }, 'Invalid match'],
+    [{ before: 'yesterday' }, 'Invalid before timestamp'],
+    [{ limit: '0' }, 'Invalid limit'],
+    [{ limit: '1001' }, 'Invalid limit'],
+    [{ limit: '2.5' }, 'Invalid limit'],
+    [{ meta: 'not json' }, 'Invalid meta'],
+    [{ meta: '["a"]' }, 'Invalid meta'],
+    [{ meta: '{"n":1}' }, 'value for "n" must be a string'],
+    [{ cid: `${cidA},bafkreia` }, 'Invalid CID: bafkreia'],
+    [{ cid: Array.from({ length: 11 }, (_, i) => `bafkrei${i}`).join(',') }, 'Too many CIDs'],
+  ])('rejects %o', (querystring, message) => {
+    expect(() => parsePinListQuery(querystring)).toThrow(InvalidPinListQueryError)
+    expect(() => parsePinListQuery(querystring)).toThrow(message)
+  })
+})
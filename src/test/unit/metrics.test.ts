@@ -0,0 +1,140 @@
+import { EventEmitter } from 'node:events'
+import { CID } from 'multiformats/cid'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getPaymentStatus } from '../../core/payments/index.js'
+import type { SynapseService } from '../../core/synapse/index.js'
+import type { FilecoinPinStore } from '../../filecoin-pin-store.js'
+import { createLogger } from '../../logger.js'
+import { MetricsRegistry, PinningMetrics } from '../../pinning/metrics.js'
+
+vi.mock('../../core/payments/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../core/payments/index.js')>()),
+  getPaymentStatus: vi.fn(),
+}))
+
+const cid = CID.parse('bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy')
+
+function fakePinStore(): FilecoinPinStore {
+  const store = new EventEmitter() as EventEmitter & Partial<FilecoinPinStore>
+  store.getPinCounts = () => ({ queued: 1, pinning: 2, pinned: 3, failed: 0 })
+  store.getQueueStats = () => ({
+    fetch: { active: 2, queued: 1, concurrency: 2 },
+    upload: { active: 0, queued: 0, concurrency: 1 },
+  })
+  return store as FilecoinPinStore
+}
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the text format', async () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('test_total', 'A counter')
+    const gauge = registry.gauge('test_gauge', 'A gauge')
+    const histogram = registry.histogram('test_seconds', 'A histogram', [1, 5])
+
+    counter.inc({ kind: 'a' })
+    counter.inc({ kind: 'a' }, 2)
+    counter.inc({ kind: 'quote"d' })
+    gauge.set({}, 7)
+    gauge.set({}, 4)
+    histogram.observe({}, 0.5)
+    histogram.observe({}, 3)
+    histogram.observe({}, 10)
+
+    expect(await registry.render()).toBe(
+      [
+        '# HELP test_total A counter',
+        '# TYPE test_total counter',
+        'test_total{kind="a"} 3',
+        'test_total{kind="quote\\"d"} 1',
+        '# HELP test_gauge A gauge',
+        '# TYPE test_gauge gauge',
+        'test_gauge 4',
+        '# HELP test_seconds A histogram',
+        '# TYPE test_seconds histogram',
+        'test_seconds_bucket{le="1"} 1',
+        'test_seconds_bucket{le="5"} 2',
+        'test_seconds_bucket{le="+Inf"} 3',
+        'test_seconds_sum 13.5',
+        'test_seconds_count 3',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('rejects duplicate names and negative counter increments', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter('test_total', 'A counter')
+
+    expect(() => registry.gauge('test_total', 'Again')).toThrow('already registered')
+    expect(() => counter.inc({}, -1)).toThrow('cannot be decreased')
+  })
+})
+
+describe('PinningMetrics', () => {
+  let pinStore: FilecoinPinStore
+
+  beforeEach(() => {
+    pinStore = fakePinStore()
+    vi.mocked(getPaymentStatus).mockReset()
+  })
+
+  it('reports pin counts, queue depth and pin store events', async () => {
+    const metrics = new PinningMetrics({ pinStore, logger: createLogger({ logLevel: 'silent' }) })
+
+    pinStore.emit('pin:block:stored', { pinId: 'p', userId: 'u', cid, size: 100 })
+    pinStore.emit('pin:block:stored', { pinId: 'p', userId: 'u', cid, size: 50 })
+    pinStore.emit('pin:fetch:completed', { pinId: 'p', userId: 'u', cid, outcome: 'complete', duration: 2000 })
+    pinStore.emit('synapse:upload:completed', { contextId: 'p', size: 150, duration: 40_000 })
+    pinStore.emit('synapse:upload:failed', { contextId: 'q', size: 150, duration: 1000, category: 'payment' })
+    pinStore.emit('pin:ipni:validated', { pinId: 'p', userId: 'u', cid, validated: true })
+    pinStore.emit('pin:deduplicated', { pinId: 'd', userId: 'v', cid, pieceCid: 'bafkzcibpiece', size: 150 })
+
+    const text = await metrics.render()
+    expect(text).toContain('filecoin_pin_pins{status="pinning"} 2')
+    expect(text).toContain('filecoin_pin_queue_active{queue="fetch"} 2')
+    expect(text).toContain('filecoin_pin_queue_waiting{queue="fetch"} 1')
+    expect(text).toContain('filecoin_pin_car_bytes_written_total 150')
+    expect(text).toContain('filecoin_pin_dag_fetch_duration_seconds_sum{outcome="complete"} 2')
+    expect(text).toContain('filecoin_pin_upload_duration_seconds_count{outcome="success"} 1')
+    expect(text).toContain('filecoin_pin_upload_failures_total{category="payment"} 1')
+    expect(text).toContain('filecoin_pin_ipni_validations_total{result="success"} 1')
+    expect(text).toContain('filecoin_pin_deduplicated_pins_total 1')
+    expect(text).toContain('filecoin_pin_deduplicated_bytes_total 150')
+    expect(text).not.toContain('wallet')
+  })
+
+  it('reports wallet balances, reusing them between close scrapes', async () => {
+    vi.mocked(getPaymentStatus).mockResolvedValue({
+      filBalance: 1_500_000_000_000_000_000n,
+      walletUsdfcBalance: 20_000_000_000_000_000_000n,
+      filecoinPayBalance: 250_000_000_000_000_000n,
+    } as Awaited<ReturnType<typeof getPaymentStatus>>)
+    const metrics = new PinningMetrics({
+      pinStore,
+      synapseService: { synapse: {} } as SynapseService,
+      logger: createLogger({ logLevel: 'silent' }),
+    })
+
+    const text = await metrics.render()
+    await metrics.render()
+
+    expect(text).toContain('filecoin_pin_wallet_fil_balance 1.5')
+    expect(text).toContain('filecoin_pin_wallet_usdfc_balance 20')
+    expect(text).toContain('filecoin_pin_filecoin_pay_balance 0.25')
+    expect(getPaymentStatus).toHaveBeenCalledTimes(1)
+  })
+
+  it('still renders when balances cannot be read', async () => {
+    vi.mocked(getPaymentStatus).mockRejectedValue(new Error('rpc down'))
+    const metrics = new PinningMetrics({
+      pinStore,
+      synapseService: { synapse: {} } as SynapseService,
+      logger: createLogger({ logLevel: 'silent' }),
+    })
+
+    const text = await metrics.render()
+    expect(text).toContain('# TYPE filecoin_pin_wallet_fil_balance gauge')
+    expect(text).not.toMatch(/^filecoin_pin_wallet_fil_balance /m)
+    expect(text).toContain('filecoin_pin_pins{status="pinned"} 3')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import {
+  API_FORMATS,
+  addPinSchema,
+  failure,
+  getPinSchema,
+  listPinsSchema,
+  removePinSchema,
+  uploadCarSchema,
+} from '../../pinning/api-schemas.js'
+import { createOpenApiDocument } from '../../pinning/openapi.js'
+
+const info = { title: 'filecoin-pin', version: '1.0.0' }
+
+describe('createOpenApiDocument', () => {
+  const document = createOpenApiDocument(info, [
+    { method: 'GET', url: '/pins', schema: listPinsSchema },
+    { method: 'POST', url: '/pins', schema: addPinSchema },
+    { method: 'GET', url: '/pins/:requestId', schema: getPinSchema },
+    { method: 'DELETE', url: '/pins/:requestId', schema: removePinSchema },
+    { method: 'POST', url: '/upload', schema: uploadCarSchema },
+  ])
+
+  it('describes each route under its OpenAPI path', () => {
+    expect(document).toMatchObject({ openapi: '3.0.0', info, security: [{ accessToken: [] }] })
+    expect(Object.keys(document.paths)).toEqual(['/pins', '/pins/{requestId}', '/upload'])
+    expect(Object.keys(document.paths['/pins'] ?? {})).toEqual(['get', 'post'])
+    expect(Object.keys(document.paths['/pins/{requestId}'] ?? {})).toEqual(['get', 'delete'])
+  })
+
+  it('references shared schemas as components', () => {
+    const addPin = document.paths['/pins']?.post as any
+    expect(addPin.operationId).toBe('addPin')
+    expect(addPin.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pin' })
+    expect(addPin.responses['202'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/PinStatus',
+    })
+    expect(addPin.responses['4XX'].content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Failure',
+    })
+
+    const pinStatus = document.components.schemas.PinStatus as any
+    expect(pinStatus.properties.pin).toEqual({ $ref: '#/components/schemas/Pin' })
+    expect(pinStatus.properties.status).toEqual({ $ref: '#/components/schemas/Status' })
+  })
+
+  it('turns params and querystrings into parameters', () => {
+    const getPin = document.paths['/pins/{requestId}']?.get as any
+    expect(getPin.parameters).toEqual([{ name: 'requestId', in: 'path', required: true, schema: { type: 'string' } }])
+
+    const listPins = document.paths['/pins']?.get as any
+    expect(listPins.parameters.map((parameter: any) => parameter.name)).toEqual([
+      'cid',
+      'name',
+      'match',
+      'status',
+      'before',
+      'after',
+      'limit',
+      'meta',
+    ])
+    expect(listPins.parameters.find((parameter: any) => parameter.name === 'limit')).toMatchObject({
+      in: 'query',
+      required: false,
+      schema: { type: 'integer', minimum: 1, maximum: 1000 },
+    })
+  })
+
+  it('describes bodies that are not JSON by their content type', () => {
+    const uploadCar = document.paths['/upload']?.post as any
+    expect(uploadCar.requestBody).toEqual({
+      required: true,
+      content: { 'application/vnd.ipld.car': { schema: { type: 'string', format: 'binary' } } },
+    })
+  })
+
+  it('leaves bodiless responses without content', () => {
+    const removePin = document.paths['/pins/{requestId}']?.delete as any
+    expect(removePin.responses['202']).toEqual({ description: 'Successful response (no body, pin removed)' })
+  })
+})
+
+describe('failure', () => {
+  it('names the reason after the status code', () => {
+    expect(failure(404, 'Pin not found')).toEqual({ error: { reason: 'NOT_FOUND', details: 'Pin not found' } })
+    expect(failure(429)).toEqual({ error: { reason: 'TOO_MANY_REQUESTS' } })
+    expect(failure(418).error.reason).toBe('BAD_REQUEST')
+    expect(failure(504).error.reason).toBe('INTERNAL_SERVER_ERROR')
+  })
+})
+
+describe('API_FORMATS', () => {
+  it('checks CIDs and multiaddrs', () => {
+    expect(API_FORMATS.cid?.('bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy')).toBe(true)
+    expect(API_FORMATS.cid?.('bafkreia')).toBe(false)
+    expect(API_FORMATS.multiaddr?.('/ip4/127.0.0.1/tcp/4001')).toBe(true)
+    expect(API_FORMATS.multiaddr?.('not-a-multiaddr')).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+import type { DatabaseSync } from 'node:sqlite'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createLogger } from '../../logger.js'
+import { openDatabase } from '../../pinning/database.js'
+import {
+  type PieceRemoval,
+  PieceRemovalNotRetryableError,
+  PieceRemover,
+  type PieceRemoverInit,
+} from '../../pinning/piece-removals.js'
+
+const piece = { pinId: 'pin-1', userId: 'user-a', pieceCid: 'bafkzcibpiece', pieceId: 4, dataSetId: '7' }
+
+describe('PieceRemover', () => {
+  let db: DatabaseSync
+  let remove: ReturnType<typeof vi.fn<(removal: PieceRemoval) => Promise<string>>>
+  let referenced: boolean
+  const removers: PieceRemover[] = []
+
+  function createRemover(overrides: Partial<PieceRemoverInit> = {}): PieceRemover {
+    const remover = new PieceRemover({
+      database: db,
+      logger: createLogger({ logLevel: 'silent' }),
+      maxAttempts: 2,
+      retryDelay: 10,
+      remove,
+      isReferenced: () => referenced,
+      ...overrides,
+    })
+    removers.push(remover)
+    return remover
+  }
+
+  async function settled(remover: PieceRemover, id: string): Promise<PieceRemoval> {
+    let removal: PieceRemoval | undefined
+    await vi.waitFor(() => {
+      removal = remover.get(id)
+      expect(['removed', 'skipped', 'failed']).toContain(removal?.status)
+    })
+    return removal as PieceRemoval
+  }
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+    remove = vi.fn(async () => '0xremoved')
+    referenced = false
+  })
+
+  afterEach(() => {
+    for (const remover of removers.splice(0)) {
+      remover.stop()
+    }
+    db.close()
+  })
+
+  it('removes the piece and records the transaction', async () => {
+    const remover = createRemover()
+
+    const scheduled = remover.schedule(piece)
+    expect(scheduled).toMatchObject({ ...piece, status: 'pending', attempts: 0 })
+
+    expect(await settled(remover, scheduled.id)).toMatchObject({ status: 'removed', attempts: 1, txHash: '0xremoved' })
+    expect(remove).toHaveBeenCalledWith(expect.objectContaining({ pieceId: 4, dataSetId: '7' }))
+  })
+
+  it('skips pieces another pin still uses', async () => {
+    referenced = true
+    const remover = createRemover()
+
+    const removal = await settled(remover, remover.schedule(piece).id)
+    expect(removal).toMatchObject({ status: 'skipped', attempts: 0, error: 'Piece is still used by another pin' })
+    expect(remove).not.toHaveBeenCalled()
+
+    // Once the other pin is gone an operator can try again
+    referenced = false
+    expect(remover.retry(removal.id)?.status).toBe('pending')
+    expect((await settled(remover, removal.id)).status).toBe('removed')
+  })
+
+  it('retries with backoff, then fails', async () => {
+    remove.mockRejectedValue(new Error('provider unreachable'))
+    const remover = createRemover()
+
+    const removal = await settled(remover, remover.schedule(piece).id)
+    expect(removal).toMatchObject({ status: 'failed', attempts: 2, error: 'provider unreachable' })
+    expect(remove).toHaveBeenCalledTimes(2)
+    expect(remover.list({ status: ['failed'] })).toHaveLength(1)
+    expect(() => remover.retry(remover.schedule(piece).id)).toThrow(PieceRemovalNotRetryableError)
+    expect(remover.retry('unknown')).toBeUndefined()
+  })
+
+  it('resumes unfinished removals after a restart', async () => {
+    // The first attempt never answers, as if the server stopped mid-request
+    remove.mockReturnValueOnce(new Promise<string>(() => undefined))
+    const stopped = createRemover()
+    const { id } = stopped.schedule(piece)
+    await vi.waitFor(() => expect(remove).toHaveBeenCalledTimes(1))
+    stopped.stop()
+    expect(stopped.get(id)?.status).toBe('removing')
+
+    const restarted = createRemover()
+    expect(restarted.resume()).toBe(1)
+    expect(await settled(restarted, id)).toMatchObject({ status: 'removed', attempts: 2 })
+  })
+})
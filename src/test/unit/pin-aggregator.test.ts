@@ -0,0 +1,175 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CarBlockIterator, CarReader } from '@ipld/car'
+import { CID } from 'multiformats/cid'
+import * as raw from 'multiformats/codecs/raw'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CARWritingBlockstore } from '../../core/car/index.js'
+import { createLogger } from '../../logger.js'
+import { encodeCarHeader, writeAggregateCar } from '../../pinning/car-aggregation.js'
+import { PinAggregator, type PinAggregatorInit } from '../../pinning/pin-aggregator.js'
+
+async function createBlock(content: string): Promise<{ cid: CID; bytes: Uint8Array }> {
+  const bytes = new TextEncoder().encode(content)
+  const hash = await sha256.digest(bytes)
+  return { cid: CID.create(1, raw.code, hash), bytes }
+}
+
+async function createCar(outputPath: string, contents: string[]): Promise<{ root: CID; blocks: string[] }> {
+  const blocks = await Promise.all(contents.map(createBlock))
+  const root = blocks[0]?.cid as CID
+  const blockstore = new CARWritingBlockstore({ rootCID: root, outputPath })
+  for (const block of blocks) {
+    await blockstore.put(block.cid, block.bytes)
+  }
+  await blockstore.finalize()
+  return { root, blocks: blocks.map((block) => block.cid.toString()) }
+}
+
+async function blocksIn(bytes: Uint8Array): Promise<string[]> {
+  const cids: string[] = []
+  for await (const { cid } of await CarBlockIterator.fromBytes(bytes)) {
+    cids.push(cid.toString())
+  }
+  return cids
+}
+
+describe('Pin aggregation', () => {
+  let dataDir: string
+  const logger = createLogger({ logLevel: 'silent' } as any)
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'filecoin-pin-aggregation-'))
+  })
+
+  afterEach(async () => {
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  describe('writeAggregateCar', () => {
+    it('combines CARs into one multi-root CAR with per-source offsets', async () => {
+      const first = await createCar(join(dataDir, 'first.car'), ['a1', 'a2'])
+      const second = await createCar(join(dataDir, 'second.car'), ['b1'])
+      const outputPath = join(dataDir, 'aggregate.car')
+
+      const result = await writeAggregateCar(
+        [
+          { id: 'pin-a', root: first.root, carFilePath: join(dataDir, 'first.car') },
+          { id: 'pin-b', root: second.root, carFilePath: join(dataDir, 'second.car') },
+        ],
+        outputPath
+      )
+
+      const bytes = await readFile(outputPath)
+      expect(result.size).toBe(bytes.length)
+
+      const reader = await CarReader.fromBytes(bytes)
+      expect((await reader.getRoots()).map(String)).toEqual([first.root.toString(), second.root.toString()])
+      expect(await blocksIn(bytes)).toEqual([...first.blocks, ...second.blocks])
+
+      // Each entry's byte range holds exactly that source's blocks
+      const header = encodeCarHeader([])
+      for (const [entry, expected] of [
+        [result.entries[0], first.blocks],
+        [result.entries[1], second.blocks],
+      ] as const) {
+        const section = bytes.subarray(entry?.offset, (entry?.offset ?? 0) + (entry?.length ?? 0))
+        expect(await blocksIn(new Uint8Array([...header, ...section]))).toEqual(expected)
+      }
+      expect(result.entries.map((entry) => entry.id)).toEqual(['pin-a', 'pin-b'])
+    })
+  })
+
+  describe('PinAggregator', () => {
+    function createAggregator(overrides: Partial<PinAggregatorInit> = {}) {
+      const upload = vi.fn<PinAggregatorInit['upload']>().mockResolvedValue({
+        pieceCid: 'bafkzcibpiece',
+        pieceId: 3,
+        dataSetId: '9',
+      })
+      const aggregator = new PinAggregator({
+        sizeThreshold: 1000,
+        maxDelay: 60_000,
+        maxSize: 10_000,
+        outputDir: join(dataDir, 'aggregates'),
+        logger,
+        upload,
+        ...overrides,
+      })
+      return { aggregator, upload }
+    }
+
+    async function stagedCar(id: string, size: number) {
+      const carFilePath = join(dataDir, `${id}.car`)
+      const { root } = await createCar(carFilePath, [id])
+      return { id, root, carFilePath, size }
+    }
+
+    it('uploads once the size threshold is reached', async () => {
+      const { aggregator, upload } = createAggregator()
+
+      const carA = await stagedCar('pin-a', 600)
+      const carB = await stagedCar('pin-b', 600)
+
+      const first = aggregator.stage(carA)
+      expect(aggregator.getStats()).toMatchObject({ stagedPins: 1, stagedBytes: 600 })
+      expect(upload).not.toHaveBeenCalled()
+
+      const second = aggregator.stage(carB)
+      const placements = await Promise.all([first, second])
+
+      expect(upload).toHaveBeenCalledTimes(1)
+      expect(upload.mock.calls[0]?.[1].map(String)).toEqual([carA.root.toString(), carB.root.toString()])
+      expect(placements[0]).toMatchObject({ pieceCid: 'bafkzcibpiece', pieceId: 3, dataSetId: '9' })
+      expect(placements[0]?.aggregateCarPath).toBe(placements[1]?.aggregateCarPath)
+      expect(placements[1]?.offset).toBe((placements[0]?.offset ?? 0) + (placements[0]?.length ?? 0))
+      expect(aggregator.getStats()).toMatchObject({ stagedPins: 0, stagedBytes: 0 })
+    })
+
+    it('uploads a partial batch after the maximum delay', async () => {
+      const { aggregator, upload } = createAggregator({ maxDelay: 50 })
+
+      const placement = aggregator.stage(await stagedCar('pin-a', 10))
+      expect(upload).not.toHaveBeenCalled()
+
+      await expect(placement).resolves.toMatchObject({ pieceCid: 'bafkzcibpiece' })
+      expect(upload).toHaveBeenCalledTimes(1)
+    })
+
+    it('starts a new batch instead of exceeding the maximum size', async () => {
+      const { aggregator, upload } = createAggregator({ sizeThreshold: 5000, maxSize: 1000 })
+
+      const first = aggregator.stage(await stagedCar('pin-a', 700))
+      const second = aggregator.stage(await stagedCar('pin-b', 700))
+      await first
+      expect(upload).toHaveBeenCalledTimes(1)
+      expect(aggregator.getStats().stagedPins).toBe(1)
+
+      aggregator.flush()
+      await second
+      expect(upload).toHaveBeenCalledTimes(2)
+    })
+
+    it('fails every pin in a batch whose upload fails and removes the aggregate', async () => {
+      const { aggregator } = createAggregator({
+        sizeThreshold: 1,
+        upload: vi.fn().mockRejectedValue(new Error('provider unavailable')),
+      })
+
+      await expect(aggregator.stage(await stagedCar('pin-a', 10))).rejects.toThrow('provider unavailable')
+      expect(await readdir(join(dataDir, 'aggregates'))).toEqual([])
+    })
+
+    it('rejects staged pins when cleared', async () => {
+      const { aggregator, upload } = createAggregator()
+
+      const placement = aggregator.stage(await stagedCar('pin-a', 10))
+      expect(aggregator.clear(new Error('stopped'))).toBe(1)
+
+      await expect(placement).rejects.toThrow('stopped')
+      expect(upload).not.toHaveBeenCalled()
+    })
+  })
+})
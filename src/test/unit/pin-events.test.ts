@@ -0,0 +1,156 @@
+import { EventEmitter } from 'node:events'
+import { CID } from 'multiformats/cid'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CARBlockstoreStats } from '../../core/car/index.js'
+import type { FilecoinPinStore, StoredPinStatus } from '../../filecoin-pin-store.js'
+import {
+  formatServerSentEvent,
+  type PinProgressEvent,
+  pinStatusEvent,
+  subscribeToPinProgress,
+} from '../../pinning/pin-events.js'
+
+const cid = CID.parse('bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy')
+
+function stats(blocksWritten: number, totalSize: number): CARBlockstoreStats {
+  return { blocksWritten, totalSize, missingBlocks: new Set(), finalized: false } as unknown as CARBlockstoreStats
+}
+
+function pin(status: StoredPinStatus['status']): StoredPinStatus {
+  return { id: 'pin-1', userId: 'user-a', status, created: 0, pin: { cid: cid.toString() }, info: { status } }
+}
+
+describe('subscribeToPinProgress', () => {
+  let pinStore: FilecoinPinStore
+  let events: PinProgressEvent[]
+  let ended: number
+
+  function subscribe(pinId = 'pin-1'): () => void {
+    return subscribeToPinProgress(pinStore, pinId, {
+      onEvent: (event) => events.push(event),
+      onEnd: () => ended++,
+    })
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    pinStore = new EventEmitter() as unknown as FilecoinPinStore
+    events = []
+    ended = 0
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('coalesces block progress and flushes it before the CAR is finalized', () => {
+    subscribe()
+
+    pinStore.emit('pin:block:stored', { pinId: 'pin-1', stats: stats(1, 100) })
+    pinStore.emit('pin:block:stored', { pinId: 'pin-1', stats: stats(2, 300) })
+    vi.advanceTimersByTime(250)
+    pinStore.emit('pin:block:stored', { pinId: 'pin-1', stats: stats(3, 350) })
+    pinStore.emit('pin:car:finalized', { pinId: 'pin-1', stats: stats(3, 350), partial: false })
+
+    expect(events).toEqual([
+      { event: 'blocks', data: { blocks_written: 2, total_size: 300, missing_blocks: 0 } },
+      { event: 'blocks', data: { blocks_written: 3, total_size: 350, missing_blocks: 0 } },
+      { event: 'car', data: { blocks_written: 3, total_size: 350, missing_blocks: 0, partial: false } },
+    ])
+  })
+
+  it('forwards upload and IPNI progress', () => {
+    subscribe()
+
+    pinStore.emit('synapse:upload:progress', {
+      pinIds: ['pin-0', 'pin-1'],
+      event: { type: 'onUploadComplete', data: { pieceCid: 'bafkzcibpiece' } },
+    })
+    pinStore.emit('synapse:upload:progress', {
+      pinIds: ['pin-1'],
+      event: { type: 'onPieceAdded', data: { txHash: '0xabc' } },
+    })
+    pinStore.emit('synapse:upload:progress', {
+      pinIds: ['pin-1'],
+      event: { type: 'onPieceConfirmed', data: { pieceIds: [7] } },
+    })
+    pinStore.emit('pin:ipni:progress', {
+      pinId: 'pin-1',
+      event: { type: 'ipniAdvertisement.complete', data: { result: true, retryCount: 2 } },
+    })
+
+    expect(events).toEqual([
+      { event: 'upload', data: { type: 'onUploadComplete', piece_cid: 'bafkzcibpiece' } },
+      { event: 'upload', data: { type: 'onPieceAdded', tx_hash: '0xabc' } },
+      { event: 'upload', data: { type: 'onPieceConfirmed', piece_ids: [7] } },
+      { event: 'ipni', data: { type: 'complete', result: true, retry_count: 2 } },
+    ])
+  })
+
+  it('ignores other pins', () => {
+    subscribe()
+
+    pinStore.emit('pin:block:stored', { pinId: 'pin-2', stats: stats(1, 100) })
+    pinStore.emit('synapse:upload:progress', {
+      pinIds: ['pin-2'],
+      event: { type: 'onPieceConfirmed', data: { pieceIds: [7] } },
+    })
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-2', event: 'pin.pinned', pin: { ...pin('pinned'), id: 'pin-2' } })
+    vi.advanceTimersByTime(1000)
+
+    expect(events).toEqual([])
+    expect(ended).toBe(0)
+  })
+
+  it('sends status changes and ends once the pin settles', () => {
+    subscribe()
+
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-1', event: 'pin.pinning', pin: pin('pinning') })
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-1', event: 'piece.confirmed', pin: pin('pinning') })
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-1', event: 'pin.pinned', pin: pin('pinned') })
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-1', event: 'pin.failed', pin: pin('failed') })
+
+    expect(events.map(({ event, data }) => [event, data.status])).toEqual([
+      ['status', 'pinning'],
+      ['status', 'pinned'],
+    ])
+    expect(ended).toBe(1)
+    expect((pinStore as unknown as EventEmitter).listenerCount('pin:lifecycle')).toBe(0)
+  })
+
+  it('ends when the pin is deleted', () => {
+    subscribe()
+
+    pinStore.emit('pin:cancelled', { pinId: 'pin-1' })
+
+    expect(events).toEqual([{ event: 'deleted', data: { requestid: 'pin-1' } }])
+    expect(ended).toBe(1)
+  })
+
+  it('reports the new pin when the pin is replaced', () => {
+    subscribe()
+
+    pinStore.emit('pin:replaced', { pinId: 'pin-1', pin: pin('queued') })
+
+    expect(events.map(({ event, data }) => [event, data.status])).toEqual([['status', 'queued']])
+    expect(ended).toBe(0)
+  })
+
+  it('stops listening when unsubscribed', () => {
+    const unsubscribe = subscribe()
+    unsubscribe()
+
+    pinStore.emit('pin:lifecycle', { pinId: 'pin-1', event: 'pin.pinned', pin: pin('pinned') })
+
+    expect(events).toEqual([])
+    expect((pinStore as unknown as EventEmitter).eventNames()).toEqual([])
+  })
+})
+
+describe('formatServerSentEvent', () => {
+  it('encodes the event name and JSON data', () => {
+    expect(formatServerSentEvent(pinStatusEvent(pin('queued')))).toBe(
+      `event: status\ndata: {"requestid":"pin-1","status":"queued","created":"1970-01-01T00:00:00.000Z","pin":{"cid":"${cid}"},"info":{"status":"queued"}}\n\n`
+    )
+  })
+})
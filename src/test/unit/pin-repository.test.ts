@@ -0,0 +1,170 @@
+import type { DatabaseSync } from 'node:sqlite'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import type { FilecoinStoredPinStatus } from '../../filecoin-pin-store.js'
+import { openDatabase } from '../../pinning/database.js'
+import { MIGRATIONS, runMigrations } from '../../pinning/migrations.js'
+import { type PinListQuery, PinRepository, type TextMatchingStrategy } from '../../pinning/pin-repository.js'
+
+function createPin(overrides: Partial<FilecoinStoredPinStatus> = {}): FilecoinStoredPinStatus {
+  return {
+    id: 'pin-1',
+    userId: 'user-a',
+    status: 'queued',
+    created: 1000,
+    pin: { cid: 'bafkreia', name: 'first pin', origins: ['/ip4/127.0.0.1/tcp/4001'], meta: { app: 'test' } },
+    info: { status: 'initializing' },
+    filecoin: {
+      carFilePath: '/tmp/bafkreia.car',
+      carStats: {
+        blocksWritten: 0,
+        missingBlocks: new Set(['bafkreimissing']),
+        totalSize: 0,
+        startTime: 1000,
+        finalized: false,
+      },
+      pinStarted: 1000,
+    },
+    ...overrides,
+  }
+}
+
+describe('PinRepository', () => {
+  let db: DatabaseSync
+  let repository: PinRepository
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+    repository = new PinRepository(db)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('round-trips pins including Filecoin metadata', () => {
+    const pin = createPin()
+    repository.create(pin)
+
+    const stored = repository.get(pin.id)
+    expect(stored).toEqual(pin)
+    expect(stored?.filecoin?.carStats.missingBlocks).toBeInstanceOf(Set)
+  })
+
+  it('returns undefined for unknown pins', () => {
+    expect(repository.get('nope')).toBeUndefined()
+  })
+
+  it('updates only the provided fields', () => {
+    repository.create(createPin())
+
+    expect(repository.update('pin-1', { pin: { cid: 'bafkreia', name: 'renamed' } })).toBe(true)
+    expect(repository.update('pin-1', { status: 'pinning', info: { status: 'pinning' } })).toBe(true)
+
+    const stored = repository.get('pin-1')
+    expect(stored?.status).toBe('pinning')
+    expect(stored?.pin).toEqual({ cid: 'bafkreia', name: 'renamed' })
+    expect(stored?.info).toEqual({ status: 'pinning' })
+    expect(stored?.filecoin?.carFilePath).toBe('/tmp/bafkreia.car')
+  })
+
+  it('keeps and clears the pin webhook', () => {
+    const webhook = { url: 'https://example.com/hooks', secret: 'whsec_test' }
+    repository.create(createPin({ webhook }))
+    expect(repository.get('pin-1')?.webhook).toEqual(webhook)
+
+    repository.update('pin-1', { status: 'pinning' })
+    expect(repository.get('pin-1')?.webhook).toEqual(webhook)
+
+    repository.update('pin-1', { webhook: undefined })
+    expect(repository.get('pin-1')?.webhook).toBeUndefined()
+  })
+
+  it('reports updates and deletes of missing pins', () => {
+    expect(repository.update('nope', { status: 'failed' })).toBe(false)
+    expect(repository.delete('nope')).toBe(false)
+
+    repository.create(createPin())
+    expect(repository.delete('pin-1')).toBe(true)
+    expect(repository.get('pin-1')).toBeUndefined()
+  })
+
+  it('lists pins newest first with filters', () => {
+    repository.create(createPin({ id: 'pin-1', created: 1000 }))
+    repository.create(
+      createPin({ id: 'pin-2', created: 3000, status: 'pinned', pin: { cid: 'bafkreib', name: 'other' } })
+    )
+    repository.create(createPin({ id: 'pin-3', created: 2000, userId: 'user-b' }))
+
+    expect(repository.list().map((pin) => pin.id)).toEqual(['pin-2', 'pin-3', 'pin-1'])
+    expect(repository.list({ userId: 'user-a' }).map((pin) => pin.id)).toEqual(['pin-2', 'pin-1'])
+    expect(repository.list({ cid: ['bafkreib'] }).map((pin) => pin.id)).toEqual(['pin-2'])
+    expect(repository.list({ name: 'first', match: 'partial' }).map((pin) => pin.id)).toEqual(['pin-3', 'pin-1'])
+    expect(repository.list({ status: ['pinned'] }).map((pin) => pin.id)).toEqual(['pin-2'])
+    expect(repository.list({ limit: 1 }).map((pin) => pin.id)).toEqual(['pin-2'])
+  })
+
+  it('matches names with each text matching strategy', () => {
+    repository.create(createPin({ id: 'pin-1', pin: { cid: 'bafkreia', name: 'Holiday Photos' } }))
+    repository.create(createPin({ id: 'pin-2', created: 2000, pin: { cid: 'bafkreib', name: 'holiday photos 2' } }))
+
+    const ids = (match: TextMatchingStrategy, name: string) => repository.list({ name, match }).map((pin) => pin.id)
+    expect(ids('exact', 'Holiday Photos')).toEqual(['pin-1'])
+    expect(ids('exact', 'holiday photos')).toEqual([])
+    expect(ids('iexact', 'holiday photos')).toEqual(['pin-1'])
+    expect(ids('partial', 'Photos')).toEqual(['pin-1'])
+    expect(ids('ipartial', 'PHOTOS')).toEqual(['pin-2', 'pin-1'])
+  })
+
+  it('filters by several CIDs and statuses, creation time and metadata', () => {
+    repository.create(
+      createPin({ id: 'pin-1', created: 1000, pin: { cid: 'bafkreia', meta: { app: 'a', env: 'prod' } } })
+    )
+    repository.create(
+      createPin({ id: 'pin-2', created: 2000, status: 'pinned', pin: { cid: 'bafkreib', meta: { app: 'b' } } })
+    )
+    repository.create(
+      createPin({ id: 'pin-3', created: 3000, status: 'failed', pin: { cid: 'bafkreic', meta: { app: 'a' } } })
+    )
+
+    const ids = (query: PinListQuery) => repository.list(query).map((pin) => pin.id)
+    expect(ids({ cid: ['bafkreia', 'bafkreic'] })).toEqual(['pin-3', 'pin-1'])
+    expect(ids({ status: ['queued', 'pinned'] })).toEqual(['pin-2', 'pin-1'])
+    expect(ids({ before: 3000, after: 1000 })).toEqual(['pin-2'])
+    expect(ids({ meta: { app: 'a' } })).toEqual(['pin-3', 'pin-1'])
+    expect(ids({ meta: { app: 'a', env: 'prod' } })).toEqual(['pin-1'])
+    expect(ids({ meta: { missing: 'x' } })).toEqual([])
+  })
+
+  it('counts every matching pin regardless of limit', () => {
+    repository.create(createPin({ id: 'pin-1', created: 1000 }))
+    repository.create(createPin({ id: 'pin-2', created: 2000 }))
+    repository.create(createPin({ id: 'pin-3', created: 3000, status: 'pinned' }))
+
+    expect(repository.list({ status: ['queued'], limit: 1 })).toHaveLength(1)
+    expect(repository.count({ status: ['queued'], limit: 1 })).toBe(2)
+    expect(repository.count()).toBe(3)
+  })
+})
+
+describe('runMigrations', () => {
+  let db: DatabaseSync
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('records the latest schema version and is idempotent', () => {
+    const latest = MIGRATIONS[MIGRATIONS.length - 1]?.version
+    expect(db.prepare('PRAGMA user_version').get()).toEqual({ user_version: latest })
+    expect(runMigrations(db)).toBe(latest)
+  })
+
+  it('refuses databases from a newer schema', () => {
+    db.exec('PRAGMA user_version = 9999')
+    expect(() => runMigrations(db)).toThrow(/newer than this version/)
+  })
+})
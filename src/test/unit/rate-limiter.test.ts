@@ -0,0 +1,69 @@
+import fastify from 'fastify'
+import { describe, expect, it } from 'vitest'
+import { isReadRequest, RateLimiter, rateLimitHook } from '../../pinning/rate-limiter.js'
+
+describe('RateLimiter', () => {
+  it('allows a burst of a minute of requests, then refills continuously', () => {
+    const limiter = new RateLimiter(2)
+
+    expect(limiter.take('client', 0)).toEqual({ allowed: true, retryAfter: 0 })
+    expect(limiter.take('client', 0)).toEqual({ allowed: true, retryAfter: 0 })
+    expect(limiter.take('client', 0)).toEqual({ allowed: false, retryAfter: 30 })
+    expect(limiter.take('client', 20_000)).toEqual({ allowed: false, retryAfter: 10 })
+    expect(limiter.take('client', 30_000).allowed).toBe(true)
+  })
+
+  it('keeps a bucket per client', () => {
+    const limiter = new RateLimiter(1)
+
+    expect(limiter.take('a', 0).allowed).toBe(true)
+    expect(limiter.take('a', 0).allowed).toBe(false)
+    expect(limiter.take('b', 0).allowed).toBe(true)
+  })
+
+  it('never throttles when disabled', () => {
+    const limiter = new RateLimiter(0)
+
+    expect(limiter.enabled).toBe(false)
+    for (let i = 0; i < 10; i++) {
+      expect(limiter.take('client', 0).allowed).toBe(true)
+    }
+  })
+})
+
+describe('rateLimitHook', () => {
+  it('answers 429 with Retry-After, counting reads and writes separately', async () => {
+    const server = fastify()
+    const limiters = { read: new RateLimiter(1), write: new RateLimiter(1) }
+    server.addHook(
+      'onRequest',
+      rateLimitHook(limiters, (request) => (request.url === '/health' ? undefined : 'client'))
+    )
+    server.get('/pins', async () => ({ ok: true }))
+    server.post('/pins', async () => ({ ok: true }))
+    server.get('/health', async () => ({ ok: true }))
+
+    try {
+      expect((await server.inject({ method: 'GET', url: '/pins' })).statusCode).toBe(200)
+      expect((await server.inject({ method: 'POST', url: '/pins' })).statusCode).toBe(200)
+
+      const throttled = await server.inject({ method: 'POST', url: '/pins' })
+      expect(throttled.statusCode).toBe(429)
+      expect(throttled.headers['retry-after']).toBe('60')
+      expect(throttled.json()).toEqual({ error: { reason: 'TOO_MANY_REQUESTS', details: 'Too many requests' } })
+      expect((await server.inject({ method: 'GET', url: '/pins' })).statusCode).toBe(429)
+
+      // Requests without a client key are not counted
+      expect((await server.inject({ method: 'GET', url: '/health' })).statusCode).toBe(200)
+    } finally {
+      await server.close()
+    }
+  })
+})
+
+describe('isReadRequest', () => {
+  it('treats only safe methods as reads', () => {
+    expect(['GET', 'HEAD', 'OPTIONS'].map(isReadRequest)).toEqual([true, true, true])
+    expect(['POST', 'DELETE', 'PUT'].map(isReadRequest)).toEqual([false, false, false])
+  })
+})
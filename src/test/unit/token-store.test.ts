@@ -0,0 +1,108 @@
+import type { DatabaseSync } from 'node:sqlite'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { openDatabase } from '../../pinning/database.js'
+import { TokenStore } from '../../pinning/token-store.js'
+
+/** Every token gets a signing secret, with no URL until one is set */
+const webhook = { secret: expect.stringMatching(/^whsec_[0-9a-f]{64}$/) }
+
+describe('TokenStore', () => {
+  let db: DatabaseSync
+  let tokenStore: TokenStore
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+    tokenStore = new TokenStore(db)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('authenticates issued tokens as their user', () => {
+    const { token, record } = tokenStore.issue({ id: 'user-a', name: 'User A' })
+
+    expect(record.user).toEqual({ id: 'user-a', name: 'User A', webhook })
+    expect(tokenStore.authenticate(token)).toEqual({ id: 'user-a', name: 'User A', webhook, tokenId: record.id })
+    expect(tokenStore.authenticate(`${token}x`)).toBeUndefined()
+  })
+
+  it('stores only a hash of the token', () => {
+    const { token } = tokenStore.issue({ id: 'user-a', name: 'User A' })
+
+    const rows = db.prepare('SELECT * FROM access_tokens').all()
+    expect(JSON.stringify(rows)).not.toContain(token)
+  })
+
+  it('records when a token was last used', () => {
+    const { token, record } = tokenStore.issue({ id: 'user-a', name: 'User A' })
+    expect(tokenStore.list()[0]?.lastUsed).toBeUndefined()
+
+    tokenStore.authenticate(token)
+    const [listed] = tokenStore.list()
+    expect(listed?.id).toBe(record.id)
+    expect(listed?.lastUsed).toBeGreaterThanOrEqual(record.created)
+  })
+
+  it('rejects revoked tokens', () => {
+    const first = tokenStore.issue({ id: 'user-a', name: 'User A' })
+    const second = tokenStore.issue({ id: 'user-a', name: 'User A' })
+
+    expect(tokenStore.revoke(first.record.id)).toBe(true)
+    expect(tokenStore.revoke(first.record.id)).toBe(false)
+    expect(tokenStore.authenticate(first.token)).toBeUndefined()
+    expect(tokenStore.authenticate(second.token)).toEqual({
+      id: 'user-a',
+      name: 'User A',
+      webhook,
+      tokenId: second.record.id,
+    })
+
+    expect(tokenStore.countActive()).toBe(1)
+    expect(tokenStore.list().map((token) => token.id)).toEqual([second.record.id])
+    expect(tokenStore.list({ includeRevoked: true })).toHaveLength(2)
+  })
+
+  it('revokes every token for a user', () => {
+    const a1 = tokenStore.issue({ id: 'user-a', name: 'User A' })
+    tokenStore.issue({ id: 'user-a', name: 'User A' })
+    const b = tokenStore.issue({ id: 'user-b', name: 'User B' })
+
+    expect(tokenStore.revokeUser('user-a')).toBe(2)
+    expect(tokenStore.authenticate(a1.token)).toBeUndefined()
+    expect(tokenStore.authenticate(b.token)).toEqual({ id: 'user-b', name: 'User B', webhook, tokenId: b.record.id })
+  })
+
+  it('grants admin rights per token', () => {
+    const admin = tokenStore.issue({ id: 'operator', name: 'Operator', admin: true })
+    const regular = tokenStore.issue({ id: 'operator', name: 'Operator' })
+
+    expect(tokenStore.authenticate(admin.token)).toMatchObject({ admin: true, tokenId: admin.record.id })
+    expect(tokenStore.authenticate(regular.token)).toEqual({
+      id: 'operator',
+      name: 'Operator',
+      webhook,
+      tokenId: regular.record.id,
+    })
+    expect(tokenStore.list().map((token) => token.user.admin)).toEqual([true, undefined])
+  })
+
+  it('keeps a webhook URL and signing secret per token', () => {
+    const { token, record } = tokenStore.issue(
+      { id: 'user-a', name: 'User A' },
+      { webhookUrl: 'https://example.com/hooks' }
+    )
+    const other = tokenStore.issue({ id: 'user-a', name: 'User A' })
+
+    const user = tokenStore.authenticate(token)
+    expect(user?.webhook?.url).toBe('https://example.com/hooks')
+    expect(user?.webhook?.secret).toBe(record.user.webhook?.secret)
+    expect(user?.webhook?.secret).not.toBe(other.record.user.webhook?.secret)
+
+    expect(tokenStore.setWebhookUrl(other.record.id, 'https://example.com/other')?.user.webhook?.url).toBe(
+      'https://example.com/other'
+    )
+    expect(tokenStore.setWebhookUrl(record.id, undefined)?.user.webhook).toEqual(webhook)
+    expect(tokenStore.setWebhookUrl('missing', 'https://example.com/hooks')).toBeUndefined()
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { classifyUploadError, isRetryableUploadError } from '../../pinning/upload-errors.js'
+
+describe('classifyUploadError', () => {
+  it('recognises payment problems', () => {
+    expect(classifyUploadError(new Error('Insufficient USDFC allowance for storage'))).toBe('payment')
+    expect(classifyUploadError(new Error('Synapse upload failed: lockup too low'))).toBe('payment')
+  })
+
+  it('recognises network problems by code or message', () => {
+    const refused = Object.assign(new Error('connect failed'), { code: 'ECONNREFUSED' })
+    expect(classifyUploadError(refused)).toBe('network')
+    expect(classifyUploadError(new TypeError('fetch failed'))).toBe('network')
+  })
+
+  it('recognises provider errors', () => {
+    expect(classifyUploadError(new Error('Failed to upload piece: 503 Service Unavailable'))).toBe('provider')
+  })
+
+  it('looks through wrapped errors', () => {
+    const cause = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    const wrapped = new Error('Synapse upload failed: socket hang up', { cause })
+    expect(classifyUploadError(wrapped)).toBe('network')
+  })
+
+  it('falls back to unknown', () => {
+    expect(classifyUploadError(new Error('Something odd happened'))).toBe('unknown')
+    expect(classifyUploadError('not an error')).toBe('unknown')
+  })
+
+  it('only retries transient categories', () => {
+    expect(isRetryableUploadError('network')).toBe(true)
+    expect(isRetryableUploadError('provider')).toBe(true)
+    expect(isRetryableUploadError('payment')).toBe(false)
+    expect(isRetryableUploadError('unknown')).toBe(false)
+  })
+})
@@ -0,0 +1,101 @@
+import type { DatabaseSync } from 'node:sqlite'
+import type { StorageContext } from '@filoz/synapse-sdk'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createStorageContext, type SynapseService } from '../../core/synapse/index.js'
+import { createLogger } from '../../logger.js'
+import { openDatabase } from '../../pinning/database.js'
+import { USER_METADATA_KEY, UserDataSets } from '../../pinning/user-data-sets.js'
+
+vi.mock('../../core/synapse/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../core/synapse/index.js')>()),
+  createStorageContext: vi.fn(),
+}))
+
+const synapseService = {
+  synapse: {} as any,
+  storage: {} as any,
+  providerInfo: { id: 3 } as any,
+} as SynapseService
+
+/**
+ * Stand-in storage context; like Synapse's, a new data set only gets its ID once something is uploaded
+ */
+function fakeStorage(dataSetId?: number): StorageContext {
+  return { dataSetId } as unknown as StorageContext
+}
+
+describe('UserDataSets', () => {
+  let db: DatabaseSync
+  let dataSets: UserDataSets
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+    dataSets = new UserDataSets({ database: db, synapseService, logger: createLogger({ logLevel: 'silent' }) })
+    vi.mocked(createStorageContext)
+      .mockReset()
+      .mockImplementation(async (_synapse, _logger, options) => ({
+        storage: fakeStorage(options?.dataset?.useExisting),
+        providerInfo: synapseService.providerInfo,
+      }))
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  it('looks up a data set tagged with the user and records it after the first upload', async () => {
+    const storage = await dataSets.storageFor('alice')
+    expect(vi.mocked(createStorageContext).mock.calls[0]?.[2]).toEqual({
+      dataset: { metadata: { [USER_METADATA_KEY]: 'alice' } },
+      providerId: 3,
+    })
+    expect(dataSets.get('alice')).toBeUndefined()
+
+    // The first upload creates the data set
+    ;(storage as { dataSetId?: number }).dataSetId = 42
+    dataSets.remember('alice', storage)
+    expect(dataSets.get('alice')).toMatchObject({ userId: 'alice', dataSetId: 42 })
+
+    // Later uploads share the context
+    expect(await dataSets.storageFor('alice')).toBe(storage)
+    expect(createStorageContext).toHaveBeenCalledTimes(1)
+  })
+
+  it('reopens recorded data sets', async () => {
+    dataSets.remember('alice', fakeStorage(42))
+
+    const reopened = new UserDataSets({ database: db, synapseService, logger: createLogger({ logLevel: 'silent' }) })
+    expect((await reopened.storageFor('alice')).dataSetId).toBe(42)
+    expect(vi.mocked(createStorageContext).mock.calls[0]?.[2]?.dataset).toEqual({
+      useExisting: 42,
+      metadata: { [USER_METADATA_KEY]: 'alice' },
+    })
+  })
+
+  it('sends uploads to a new data set after a rotation, even across restarts', async () => {
+    dataSets.remember('alice', fakeStorage(42))
+    dataSets.remember('bob', fakeStorage(43))
+
+    expect(await dataSets.rotate('alice')).toMatchObject({ userId: 'alice', dataSetId: undefined })
+    expect(vi.mocked(createStorageContext).mock.calls[0]?.[2]?.dataset).toMatchObject({ createNew: true })
+    expect(dataSets.list().map(({ userId, dataSetId }) => ({ userId, dataSetId }))).toEqual(
+      expect.arrayContaining([
+        { userId: 'alice', dataSetId: undefined },
+        { userId: 'bob', dataSetId: 43 },
+      ])
+    )
+
+    // Restarted before the new data set got its first upload
+    const reopened = new UserDataSets({ database: db, synapseService, logger: createLogger({ logLevel: 'silent' }) })
+    await reopened.storageFor('alice')
+    expect(vi.mocked(createStorageContext).mock.calls[1]?.[2]?.dataset).toMatchObject({ createNew: true })
+  })
+
+  it('tries again after failing to open a context', async () => {
+    vi.mocked(createStorageContext).mockRejectedValueOnce(new Error('provider unreachable'))
+
+    await expect(dataSets.storageFor('alice')).rejects.toThrow('provider unreachable')
+    await expect(dataSets.storageFor('alice')).resolves.toBeDefined()
+    expect(createStorageContext).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,196 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type { DatabaseSync } from 'node:sqlite'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { StoredPinStatus } from '../../filecoin-pin-store.js'
+import { createLogger } from '../../logger.js'
+import { openDatabase } from '../../pinning/database.js'
+import {
+  isPublicWebhookUrl,
+  isWebhookUrl,
+  SIGNATURE_HEADER,
+  signWebhookPayload,
+  TIMESTAMP_HEADER,
+  WebhookNotifier,
+} from '../../pinning/webhooks.js'
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+const pin: StoredPinStatus = {
+  id: 'pin-1',
+  userId: 'user-a',
+  status: 'pinned',
+  created: 1000,
+  pin: { cid: 'bafkreia', name: 'hooked' },
+  info: { status: 'pinned' },
+}
+
+const target = { url: '', secret: 'whsec_test' }
+
+describe('WebhookNotifier', () => {
+  let db: DatabaseSync
+  let server: Server
+  let received: ReceivedRequest[]
+  /** Status codes to answer with, in order; 200 once they run out */
+  let responses: number[]
+
+  function createNotifier(overrides: { maxAttempts?: number; retryDelay?: number; allowedHosts?: string[] } = {}) {
+    return new WebhookNotifier({
+      database: db,
+      logger: createLogger({ logLevel: 'silent' }),
+      maxAttempts: 3,
+      retryDelay: 5,
+      timeout: 1000,
+      allowedHosts: [],
+      ...overrides,
+    })
+  }
+
+  beforeEach(async () => {
+    db = await openDatabase(':memory:')
+    received = []
+    responses = []
+    server = createServer((request, response) => {
+      let body = ''
+      request.on('data', (chunk) => {
+        body += chunk
+      })
+      request.on('end', () => {
+        received.push({ headers: request.headers, body })
+        response.statusCode = responses.shift() ?? 200
+        response.end()
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    target.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+  })
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve))
+    db.close()
+  })
+
+  it('posts signed JSON payloads', async () => {
+    const notifier = createNotifier()
+    notifier.notify(target, 'pin.pinned', pin)
+
+    await expect.poll(() => received.length).toBe(1)
+    await notifier.stop()
+
+    const [request] = received
+    const timestamp = request?.headers[TIMESTAMP_HEADER] as string
+    expect(request?.headers[SIGNATURE_HEADER]).toBe(signWebhookPayload(target.secret, timestamp, request?.body ?? ''))
+    expect(JSON.parse(request?.body ?? '')).toMatchObject({
+      event: 'pin.pinned',
+      pin: { requestid: 'pin-1', status: 'pinned', pin: { cid: 'bafkreia', name: 'hooked' } },
+    })
+    expect(notifier.listDeadLetters()).toEqual([])
+  })
+
+  it('retries failed deliveries with the same delivery ID', async () => {
+    responses = [500, 503]
+    const notifier = createNotifier()
+    notifier.notify(target, 'pin.failed', pin)
+
+    await expect.poll(() => received.length).toBe(3)
+    await notifier.stop()
+
+    const ids = received.map((request) => JSON.parse(request.body).id)
+    expect(new Set(ids).size).toBe(1)
+    expect(notifier.listDeadLetters()).toEqual([])
+  })
+
+  it('keeps deliveries that fail every attempt in the dead-letter log', async () => {
+    responses = [500, 500]
+    const notifier = createNotifier({ maxAttempts: 2 })
+    notifier.notify(target, 'piece.confirmed', pin)
+
+    await expect.poll(() => notifier.listDeadLetters()).toHaveLength(1)
+    await notifier.stop()
+
+    expect(notifier.listDeadLetters()[0]).toMatchObject({
+      pinId: 'pin-1',
+      userId: 'user-a',
+      event: 'piece.confirmed',
+      url: target.url,
+      attempts: 2,
+      error: 'Webhook endpoint responded with HTTP 500',
+      payload: { event: 'piece.confirmed', pin: { requestid: 'pin-1' } },
+    })
+  })
+
+  it('dead-letters deliveries still waiting to be retried when stopped', async () => {
+    responses = [500]
+    const notifier = createNotifier({ retryDelay: 60_000 })
+    notifier.notify(target, 'pin.pinning', pin)
+
+    await expect.poll(() => received.length).toBe(1)
+    await notifier.stop()
+
+    expect(notifier.listDeadLetters()).toMatchObject([{ attempts: 1, error: 'Delivery abandoned at shutdown' }])
+  })
+
+  it('logs a delivery it cannot dead-letter instead of rejecting', async () => {
+    responses = [500]
+    const closed = await openDatabase(':memory:')
+    closed.close()
+    const logger = createLogger({ logLevel: 'silent' })
+    const logError = vi.spyOn(logger, 'error')
+    const notifier = new WebhookNotifier({
+      database: closed,
+      logger,
+      maxAttempts: 1,
+      retryDelay: 5,
+      timeout: 1000,
+      allowedHosts: [],
+    })
+    notifier.notify(target, 'pin.failed', pin)
+
+    await expect
+      .poll(() => logError.mock.calls.map(([, message]) => message))
+      .toContain('Webhook delivery could not be kept')
+    await notifier.stop()
+  })
+
+  it("refuses a pin's own URL on a private host unless the operator allows the host", async () => {
+    const notifier = createNotifier()
+    notifier.notify({ ...target, publicOnly: true }, 'pin.pinned', pin)
+
+    await expect.poll(() => notifier.listDeadLetters()).toHaveLength(1)
+    await notifier.stop()
+    expect(received).toEqual([])
+    expect(notifier.listDeadLetters()[0]).toMatchObject({
+      attempts: 0,
+      error: 'Webhook URL does not resolve to public addresses',
+    })
+
+    const allowing = createNotifier({ allowedHosts: ['127.0.0.1'] })
+    allowing.notify({ ...target, publicOnly: true }, 'pin.pinned', pin)
+    await expect.poll(() => received.length).toBe(1)
+    await allowing.stop()
+  })
+
+  it('only accepts http and https URLs', () => {
+    expect(isWebhookUrl('https://example.com/hooks')).toBe(true)
+    expect(isWebhookUrl('http://localhost:8080')).toBe(true)
+    expect(isWebhookUrl('ftp://example.com')).toBe(false)
+    expect(isWebhookUrl('not a url')).toBe(false)
+  })
+
+  it('only accepts public hosts for URLs that must be public', async () => {
+    expect(await isPublicWebhookUrl('https://93.184.216.34/hooks')).toBe(true)
+    expect(await isPublicWebhookUrl('https://[2606:4700::1111]/hooks')).toBe(true)
+    expect(await isPublicWebhookUrl('ftp://93.184.216.34')).toBe(false)
+    expect(await isPublicWebhookUrl('http://127.0.0.1:8080')).toBe(false)
+    expect(await isPublicWebhookUrl('http://localhost:8080')).toBe(false)
+    expect(await isPublicWebhookUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+    expect(await isPublicWebhookUrl('http://10.1.2.3')).toBe(false)
+    expect(await isPublicWebhookUrl('http://[::1]:8080')).toBe(false)
+    expect(await isPublicWebhookUrl('http://[::ffff:127.0.0.1]')).toBe(false)
+    expect(await isPublicWebhookUrl('http://[fd00::1]')).toBe(false)
+    expect(await isPublicWebhookUrl('http://localhost:8080', ['localhost'])).toBe(true)
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { FairWorkQueue } from '../../pinning/work-queue.js'
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve))
+}
+
+describe('FairWorkQueue', () => {
+  it('runs at most `concurrency` tasks at once', async () => {
+    const queue = new FairWorkQueue(2)
+    const gates = [deferred(), deferred(), deferred()]
+    const started: number[] = []
+
+    const results = gates.map((gate, i) =>
+      queue.run('user', async () => {
+        started.push(i)
+        await gate.promise
+        return i
+      })
+    )
+
+    await flush()
+    expect(started).toEqual([0, 1])
+    expect(queue.getStats()).toEqual({ active: 2, queued: 1, concurrency: 2 })
+
+    gates[0]?.resolve()
+    await flush()
+    expect(started).toEqual([0, 1, 2])
+
+    gates[1]?.resolve()
+    gates[2]?.resolve()
+    expect(await Promise.all(results)).toEqual([0, 1, 2])
+    await flush()
+    expect(queue.getStats()).toEqual({ active: 0, queued: 0, concurrency: 2 })
+  })
+
+  it('hands slots to users in turn', async () => {
+    const queue = new FairWorkQueue(1)
+    const gate = deferred()
+    const order: string[] = []
+    const task = (label: string) => async () => {
+      order.push(label)
+      await gate.promise
+    }
+
+    const runs = [
+      queue.run('a', task('a1')),
+      queue.run('a', task('a2')),
+      queue.run('a', task('a3')),
+      queue.run('b', task('b1')),
+      queue.run('c', task('c1')),
+      queue.run('b', task('b2')),
+    ]
+    gate.resolve()
+    await Promise.all(runs)
+
+    expect(order).toEqual(['a1', 'a2', 'b1', 'c1', 'a3', 'b2'])
+  })
+
+  it('frees the slot when a task fails', async () => {
+    const queue = new FairWorkQueue(1)
+
+    await expect(queue.run('user', async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(queue.run('user', async () => 'ok')).resolves.toBe('ok')
+  })
+
+  it('rejects waiting tasks when cleared', async () => {
+    const queue = new FairWorkQueue(1)
+    const gate = deferred()
+
+    const running = queue.run('user', async () => gate.promise)
+    const waiting = queue.run('user', async () => 'never')
+
+    expect(queue.clear(new Error('stopped'))).toBe(1)
+    await expect(waiting).rejects.toThrow('stopped')
+
+    gate.resolve()
+    await running
+    await flush()
+    expect(queue.getStats().active).toBe(0)
+  })
+
+  it('holds waiting tasks while paused', async () => {
+    const queue = new FairWorkQueue(1)
+    const gate = deferred()
+    const started: string[] = []
+
+    const running = queue.run('user', async () => {
+      started.push('running')
+      await gate.promise
+    })
+    await flush()
+    queue.pause()
+    const waiting = queue.run('user', async () => {
+      started.push('waiting')
+    })
+
+    gate.resolve()
+    await running
+    await flush()
+    expect(started).toEqual(['running'])
+    expect(queue.isPaused).toBe(true)
+    expect(queue.getStats()).toEqual({ active: 0, queued: 1, concurrency: 1 })
+
+    queue.resume()
+    await waiting
+    expect(started).toEqual(['running', 'waiting'])
+  })
+
+  it('rejects invalid concurrency', () => {
+    expect(() => new FairWorkQueue(0)).toThrow('positive integer')
+  })
+})
@@ -0,0 +1,126 @@
+import type { DatabaseSync } from 'node:sqlite'
+import pc from 'picocolors'
+import { openDatabase } from '../pinning/database.js'
+import { TokenStore } from '../pinning/token-store.js'
+import { isWebhookUrl } from '../pinning/webhooks.js'
+import { cancel, intro, outro } from '../utils/cli-helpers.js'
+import { log } from '../utils/cli-logger.js'
+import type { TokenCommandOptions, TokenCreateOptions, TokenListOptions } from './types.js'
+
+async function withTokenStore<T>(options: TokenCommandOptions, fn: (tokenStore: TokenStore) => T): Promise<T> {
+  let database: DatabaseSync | undefined
+  try {
+    database = await openDatabase(options.database)
+    return fn(new TokenStore(database))
+  } finally {
+    database?.close()
+  }
+}
+
+/**
+ * Issue an access token for a pinning server user
+ *
+ * The token is printed once; only its hash is kept in the database.
+ */
+export async function runTokenCreate(userId: string, options: TokenCreateOptions): Promise<void> {
+  intro(pc.bold('Filecoin Pin Access Token'))
+
+  const webhookUrl = options.webhookUrl
+  if (webhookUrl != null && !isWebhookUrl(webhookUrl)) {
+    cancel(`Invalid webhook URL: ${webhookUrl}`)
+    process.exit(1)
+  }
+
+  const { token, record } = await withTokenStore(options, (tokenStore) =>
+    tokenStore.issue(
+      { id: userId, name: options.name ?? userId, admin: options.admin === true },
+      webhookUrl != null ? { webhookUrl } : {}
+    )
+  )
+
+  log.line(`Token ID: ${record.id}`)
+  log.line(`User: ${record.user.name} (${record.user.id})`)
+  if (record.user.admin === true) {
+    log.line(pc.yellow("Admin: this token can act on every user's pins"))
+  }
+  if (record.user.webhook?.url != null) {
+    log.line(`Webhook: ${record.user.webhook.url}`)
+  }
+  log.line(`Webhook signing secret: ${record.user.webhook?.secret ?? 'none'}`)
+  log.line('')
+  log.line(pc.bold(token))
+  log.line('')
+  log.line(pc.yellow('Store this token now; it cannot be shown again.'))
+  log.flush()
+
+  outro('Access token created')
+}
+
+export async function runTokenList(options: TokenListOptions): Promise<void> {
+  intro(pc.bold('Filecoin Pin Access Tokens'))
+
+  const tokens = await withTokenStore(options, (tokenStore) =>
+    tokenStore.list({ includeRevoked: options.all === true })
+  )
+
+  if (tokens.length === 0) {
+    log.line(pc.gray('No access tokens found'))
+  }
+  for (const token of tokens) {
+    const admin = token.user.admin === true ? pc.yellow(' (admin)') : ''
+    const state = token.revoked != null ? pc.red(' (revoked)') : ''
+    const lastUsed = token.lastUsed != null ? new Date(token.lastUsed).toISOString() : 'never'
+    log.line(`${token.id}${admin}${state}`)
+    log.indent(`User: ${token.user.name} (${token.user.id})`)
+    log.indent(`Created: ${new Date(token.created).toISOString()}`)
+    log.indent(`Last used: ${lastUsed}`)
+    if (token.user.webhook?.url != null) {
+      log.indent(`Webhook: ${token.user.webhook.url}`)
+    }
+  }
+  log.flush()
+
+  outro(`${tokens.length} token(s)`)
+}
+
+export async function runTokenRevoke(tokenId: string, options: TokenCommandOptions): Promise<void> {
+  intro(pc.bold('Filecoin Pin Access Token'))
+
+  const revoked = await withTokenStore(options, (tokenStore) => tokenStore.revoke(tokenId))
+  if (!revoked) {
+    cancel(`No active token with ID ${tokenId}`)
+    process.exit(1)
+  }
+
+  outro(`Revoked token ${tokenId}`)
+}
+
+/**
+ * Point a token's webhooks at a URL, or stop them when `url` is omitted
+ *
+ * Prints the token's signing secret so the receiver can verify deliveries.
+ */
+export async function runTokenWebhook(
+  tokenId: string,
+  url: string | undefined,
+  options: TokenCommandOptions
+): Promise<void> {
+  intro(pc.bold('Filecoin Pin Access Token'))
+
+  if (url != null && !isWebhookUrl(url)) {
+    cancel(`Invalid webhook URL: ${url}`)
+    process.exit(1)
+  }
+
+  const record = await withTokenStore(options, (tokenStore) => tokenStore.setWebhookUrl(tokenId, url))
+  if (record == null) {
+    cancel(`No active token with ID ${tokenId}`)
+    process.exit(1)
+  }
+
+  log.line(`Webhook: ${record.user.webhook?.url ?? 'none'}`)
+  log.line(`Webhook signing secret: ${record.user.webhook?.secret ?? 'none'}`)
+  log.flush()
+
+  outro(url != null ? `Webhook set for token ${tokenId}` : `Webhook cleared for token ${tokenId}`)
+}
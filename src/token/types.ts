@@ -0,0 +1,14 @@
+export interface TokenCommandOptions {
+  /** Path to the pinning server's SQLite database */
+  database: string
+}
+
+export interface TokenCreateOptions extends TokenCommandOptions {
+  name?: string
+  admin?: boolean
+  webhookUrl?: string
+}
+
+export interface TokenListOptions extends TokenCommandOptions {
+  all?: boolean
+}